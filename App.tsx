@@ -1,61 +1,291 @@
-import React, { useState } from 'react';
-import { AsteroidInput, AnalysisResult, HistoryItem } from './types';
-import { DEFAULT_INPUT, ASTEROID_TYPES } from './constants';
-import { analyzeAsteroid } from './services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AsteroidInput, HistoryItem, Material, NumericInputField, ReportSource, ScenarioState, UncertaintyOptions, UnitPreferences } from './types';
+import { DEFAULT_INPUT, NUMERIC_FIELDS, DEFAULT_UNCERTAINTY, DEFAULT_UNITS, FIELD_UNITS, INPUT_LIMITS } from './constants';
+import { analyzeInBackground, isAbortError } from './services/compute';
 import StarBackground from './components/StarBackground';
 import { ResultsDisplay } from './components/ResultsDisplay';
-import { Rocket, History as HistoryIcon, Calculator, ChevronRight, RefreshCw, X, Cpu } from 'lucide-react';
+import { UncertaintyControls } from './components/UncertaintyControls';
+import { ImpactMap } from './components/ImpactMap';
+import { MissionLog } from './components/MissionLog';
+import { ComparisonView } from './components/ComparisonView';
+import { SweepPanel } from './components/SweepPanel';
+import { DeflectionPlanner } from './components/DeflectionPlanner';
+import { NeoImporter } from './components/NeoImporter';
+import { ReportActions } from './components/ReportActions';
+import { PrintReport } from './components/PrintReport';
+import { MaterialEditor } from './components/MaterialEditor';
+import { ShapeControls } from './components/ShapeControls';
+import { ValidationPage } from './components/ValidationPage';
+import { isLand } from './services/geography';
+import { loadHistory, saveHistoryItem, deleteHistoryItem, createHistoryId, RECORD_SCHEMA_VERSION, loadCustomMaterials, saveCustomMaterial, deleteCustomMaterial, createMaterialId } from './services/missionLog';
+import { getMaterial, listMaterials, requireMaterial } from './services/materials';
+import { scaleEllipsoid } from './services/shape';
+import { decodeScenario, encodeScenario } from './services/permalink';
+import { validateInput, hasErrors } from './services/validation';
+import { FieldDiagnostics } from './components/FieldDiagnostics';
+import { UnitControls } from './components/UnitControls';
+import { convert, preferredUnit } from './services/units';
+import { parseEpoch } from './services/timeline';
+import { Rocket, History as HistoryIcon, Calculator, ChevronRight, Cpu, Dices, MapPin, Grid3x3, FileUp, AlertTriangle, X, Layers, Pencil, ShieldCheck } from 'lucide-react';
+
+// Minimum time the scanning state shows for, so quick results do not flicker
+const SCAN_PACING_MS = 800;
 
 const App: React.FC = () => {
   const [input, setInput] = useState<AsteroidInput>(DEFAULT_INPUT);
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  // The analysis on screen, with the inputs and label it was run under
+  const [current, setCurrent] = useState<ReportSource | null>(null);
+  const [printSource, setPrintSource] = useState<ReportSource | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [ensembleEnabled, setEnsembleEnabled] = useState(false);
+  const [uncertainty, setUncertainty] = useState<UncertaintyOptions>(DEFAULT_UNCERTAINTY);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [sweepEnabled, setSweepEnabled] = useState(false);
+  const [importerOpen, setImporterOpen] = useState(false);
+  const [validationOpen, setValidationOpen] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNITS);
+  const [materials, setMaterials] = useState<Material[]>(listMaterials);
+  const [materialDraft, setMaterialDraft] = useState<{ material: Material; isNew: boolean } | null>(null);
+  // Only the latest run may update the screen when several overlap
+  const runCounter = useRef(0);
+  const analysisAbort = useRef<AbortController | null>(null);
+
+  // Restore saved materials, then the mission log whose records refer to them
+  useEffect(() => {
+    loadCustomMaterials()
+      .catch(err => console.error('Material library unavailable; custom materials will not persist', err))
+      .then(() => setMaterials(listMaterials()))
+      .then(loadHistory)
+      .then(items => setHistory(prev => [...prev, ...items.filter(item => !prev.some(p => p.id === item.id))]))
+      .catch(err => console.error('Mission log unavailable; history will not persist', err));
+  }, []);
+
+  // Print once the report has rendered; the print view unmounts afterwards
+  useEffect(() => {
+    if (!printSource) return;
+    const done = () => setPrintSource(null);
+    window.addEventListener('afterprint', done);
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [printSource]);
+
+  const siteIsLand = isLand(input.latitude, input.longitude);
+  const diagnostics = validateInput(input, ensembleEnabled ? uncertainty : undefined);
+  const blocked = hasErrors(diagnostics);
+
+  // Inputs are stored in engine units and shown in the preferred ones
+  const inputUnit = (field: NumericInputField) => {
+    const unit = FIELD_UNITS[field];
+    return unit ? preferredUnit(unit, units) : null;
+  };
+
+  // Rounded so converted values do not show floating-point noise
+  const toDisplay = (field: NumericInputField, value: number) => {
+    const unit = FIELD_UNITS[field];
+    return unit ? parseFloat(convert(value, unit, preferredUnit(unit, units)).toPrecision(10)) : value;
+  };
+
+  // Cleared number fields hold NaN until re-entered; show them as empty
+  const fieldValue = (field: NumericInputField) => (Number.isFinite(input[field]) ? toDisplay(field, input[field]) : '');
+  const fieldMin = (field: NumericInputField) => toDisplay(field, INPUT_LIMITS[field].min);
+
+  const borderClass = (field: keyof AsteroidInput) => {
+    const severities = diagnostics.filter(d => d.field === field).map(d => d.severity);
+    if (severities.includes('error')) return 'border-red-500';
+    if (severities.includes('warning')) return 'border-amber-500';
+    return 'border-slate-700';
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setInput(prev => ({
-      ...prev,
-      [name]: name === 'diameter' || name === 'velocity' || name === 'distance' 
-        ? parseFloat(value) 
-        : value
-    }));
+    const unit = FIELD_UNITS[name as NumericInputField];
+    setInput(prev => {
+      const next = {
+        ...prev,
+        [name]: NUMERIC_FIELDS.includes(name as NumericInputField)
+          ? unit ? convert(parseFloat(value), preferredUnit(unit, units), unit) : parseFloat(value)
+          : value
+      };
+      // Ellipsoid axes follow the equivalent diameter they define; meshes are scaled by the engine
+      if (name === 'diameter' && prev.shape?.kind === 'ellipsoid' && next.diameter > 0) next.shape = scaleEllipsoid(prev.shape, next.diameter);
+      return next;
+    });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // The epoch is kept as typed; the picker shows it in UTC to the minute
+  const epochMs = input.epoch ? parseEpoch(input.epoch) : null;
+  const epochValue = epochMs === null ? '' : new Date(epochMs).toISOString().slice(0, 16);
+
+  // Picker values carry no zone, which the engine reads as UTC; cleared means no epoch
+  const handleEpochChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setInput(prev => ({ ...prev, epoch: value || undefined }));
+  };
+
+  // Replayed scenarios (links, back/forward) are not logged a second time
+  const runScenario = async ({ input: scenario, uncertainty: options }: ScenarioState, record: boolean) => {
+    const run = ++runCounter.current;
+    analysisAbort.current?.abort();
+    const controller = new AbortController();
+    analysisAbort.current = controller;
     setLoading(true);
-    setResult(null);
+    setProgress(null);
+    setCurrent(null);
 
     try {
-      // Direct call to local physics engine - No API Key needed
-      const data = await analyzeAsteroid(input);
-      setResult(data);
+      // The engine runs in a worker; hold the scan animation briefly so quick results do not flicker
+      const [data] = await Promise.all([
+        analyzeInBackground(scenario, options, { signal: controller.signal, onProgress: setProgress }),
+        new Promise(resolve => setTimeout(resolve, SCAN_PACING_MS))
+      ]);
+      if (run !== runCounter.current) return;
+      setCurrent({ label: scenario.name, input: scenario, uncertainty: options, result: data });
+      setComparing(false);
+      if (!record) return;
       
       const newHistoryItem: HistoryItem = {
-        id: Date.now().toString(),
-        input: { ...input },
+        id: createHistoryId(),
+        schemaVersion: RECORD_SCHEMA_VERSION,
+        label: scenario.name,
+        pinned: false,
+        createdAt: Date.now(),
+        input: scenario,
+        uncertainty: options,
         result: data
       };
       
       setHistory(prev => [newHistoryItem, ...prev]);
+      saveHistoryItem(newHistoryItem).catch(err => console.error('Mission log save failed', err));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
       alert("Physics engine computation error.");
     } finally {
-      setLoading(false);
+      if (run === runCounter.current) setLoading(false);
     }
   };
 
+  const cancelAnalysis = () => {
+    runCounter.current++;
+    analysisAbort.current?.abort();
+    setLoading(false);
+  };
+
+  // Each analysis gets its own browser history entry
+  const pushScenario = (scenario: ScenarioState) => {
+    const hash = `#${encodeScenario(scenario)}`;
+    if (window.location.hash !== hash) window.history.pushState(null, '', hash);
+    setLinkError(null);
+  };
+
+  // Open the scenario in the address bar, on load and on back/forward
+  useEffect(() => {
+    const openFromUrl = () => {
+      let scenario: ScenarioState | null;
+      try {
+        scenario = decodeScenario(window.location.hash);
+      } catch (err) {
+        setLinkError(err instanceof Error ? err.message : 'This link could not be read.');
+        return;
+      }
+      setLinkError(null);
+      setMaterials(listMaterials());
+      if (!scenario) {
+        cancelAnalysis();
+        setCurrent(null);
+        return;
+      }
+      setInput(scenario.input);
+      setEnsembleEnabled(!!scenario.uncertainty);
+      if (scenario.uncertainty) setUncertainty(scenario.uncertainty);
+      runScenario(scenario, false);
+    };
+    openFromUrl();
+    window.addEventListener('popstate', openFromUrl);
+    return () => window.removeEventListener('popstate', openFromUrl);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (blocked) return;
+    const scenario: ScenarioState = { input: { ...input }, uncertainty: ensembleEnabled ? uncertainty : undefined };
+    pushScenario(scenario);
+    await runScenario(scenario, true);
+  };
+
+  const updateHistoryItem = (id: string, update: (item: HistoryItem) => HistoryItem) => {
+    const existing = history.find(item => item.id === id);
+    if (!existing) return;
+    const next = update(existing);
+    setHistory(prev => prev.map(item => item.id === id ? next : item));
+    saveHistoryItem(next).catch(err => console.error('Mission log save failed', err));
+  };
+
+  const removeHistoryItem = (id: string) => {
+    setHistory(prev => prev.filter(item => item.id !== id));
+    setSelectedIds(prev => prev.filter(selected => selected !== id));
+    deleteHistoryItem(id).catch(err => console.error('Mission log delete failed', err));
+  };
+
+  // Selection order is kept so the first pick is the comparison baseline
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const comparedItems = selectedIds
+    .map(id => history.find(item => item.id === id))
+    .filter((item): item is HistoryItem => !!item);
+
   const loadHistoryItem = (item: HistoryItem) => {
     setInput(item.input);
-    setResult(item.result);
+    setEnsembleEnabled(!!item.uncertainty);
+    if (item.uncertainty) setUncertainty(item.uncertainty);
+    setCurrent(item);
+    setComparing(false);
     setIsSidebarOpen(false);
+    pushScenario({ input: item.input, uncertainty: item.uncertainty });
+  };
+
+  // New materials start as a copy of the selected one
+  const openMaterialEditor = (isNew: boolean) => {
+    const base = requireMaterial(input.type);
+    setMaterialDraft(isNew
+      ? { material: { ...base, id: createMaterialId(), name: `${base.name} (custom)`, builtIn: false }, isNew }
+      : { material: base, isNew });
+  };
+
+  const saveMaterial = (material: Material) => {
+    saveCustomMaterial(material).catch(err => console.error('Material save failed', err));
+    setMaterials(listMaterials());
+    setInput(prev => ({ ...prev, type: material.id }));
+    setMaterialDraft(null);
+  };
+
+  const removeMaterial = (id: string) => {
+    deleteCustomMaterial(id).catch(err => console.error('Material delete failed', err));
+    setMaterials(listMaterials());
+    setInput(prev => prev.type === id ? { ...prev, type: DEFAULT_INPUT.type } : prev);
+    setMaterialDraft(null);
+  };
+
+  const selectedMaterial = getMaterial(input.type);
+
+  // Sweep cells and deflection plans hand back only an input; analyse it in the background like any other scenario
+  const loadDerivedScenario = (scenario: AsteroidInput) => {
+    const state: ScenarioState = { input: scenario };
+    setInput(scenario);
+    pushScenario(state);
+    runScenario(state, false);
   };
 
   return (
-    <div className="min-h-screen text-white overflow-x-hidden font-sans">
+    <div className="min-h-screen text-white overflow-x-hidden font-sans print:hidden">
       <StarBackground />
       
       {/* Mobile History Toggle */}
@@ -67,43 +297,20 @@ const App: React.FC = () => {
       </button>
 
       {/* Sidebar History */}
-      <div className={`fixed inset-y-0 right-0 w-80 bg-slate-950/95 backdrop-blur-xl border-l border-slate-800 transform transition-transform duration-300 z-50 ${isSidebarOpen ? 'translate-x-0' : 'translate-x-full'} lg:translate-x-0`}>
-        <div className="p-6 h-full flex flex-col">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-display font-bold text-cyan-400">Mission Logs</h2>
-            <button onClick={() => setIsSidebarOpen(false)} className="lg:hidden text-slate-400 hover:text-white">
-              <X size={24} />
-            </button>
-          </div>
-          
-          <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar">
-            {history.length === 0 ? (
-              <div className="text-center text-slate-600 mt-10">
-                <HistoryIcon size={48} className="mx-auto mb-3 opacity-20" />
-                <p>No previous scans.</p>
-              </div>
-            ) : (
-              history.map(item => (
-                <button 
-                  key={item.id}
-                  onClick={() => loadHistoryItem(item)}
-                  className="w-full text-left p-4 rounded-xl bg-slate-900 border border-slate-800 hover:border-cyan-500 hover:bg-slate-800 transition-all group relative overflow-hidden"
-                >
-                  <div className="flex justify-between items-start mb-1 relative z-10">
-                    <span className="font-bold text-white text-sm group-hover:text-cyan-300">{item.input.name}</span>
-                    <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${item.result.isHit ? 'bg-red-900/50 text-red-400' : 'bg-emerald-900/50 text-emerald-400'}`}>
-                      {item.result.isHit ? 'IMPACT' : 'MISS'}
-                    </span>
-                  </div>
-                  <div className="text-xs text-slate-500 font-mono relative z-10">
-                     E: {item.result.kineticEnergyMegatons.toFixed(1)} MT
-                  </div>
-                </button>
-              ))
-            )}
-          </div>
-        </div>
-      </div>
+      <MissionLog
+        items={history}
+        isOpen={isSidebarOpen}
+        onClose={() => setIsSidebarOpen(false)}
+        onLoad={loadHistoryItem}
+        onRename={(id, label) => updateHistoryItem(id, item => ({ ...item, label }))}
+        onTogglePin={id => updateHistoryItem(id, item => ({ ...item, pinned: !item.pinned }))}
+        onDelete={removeHistoryItem}
+        selectedIds={selectedIds}
+        onToggleSelect={toggleSelected}
+        onCompare={() => { setComparing(true); setIsSidebarOpen(false); }}
+        onPrint={setPrintSource}
+        materials={materials}
+      />
 
       {/* Main Content */}
       <div className="lg:mr-80 min-h-screen">
@@ -121,15 +328,47 @@ const App: React.FC = () => {
                </div>
             </div>
             
-            <div className="hidden md:flex items-center gap-2 px-4 py-2 bg-slate-900/50 rounded-full border border-slate-700 text-xs text-slate-400">
-                <Cpu size={14} />
-                <span>Local Computation Ready</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setValidationOpen(open => !open)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-full border text-xs uppercase font-bold transition-colors ${validationOpen ? 'border-emerald-600 text-emerald-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                <ShieldCheck size={14} />
+                Validation
+              </button>
+              <UnitControls value={units} onChange={setUnits} />
+              <div className="hidden md:flex items-center gap-2 px-4 py-2 bg-slate-900/50 rounded-full border border-slate-700 text-xs text-slate-400">
+                  <Cpu size={14} />
+                  <span>Local Computation Ready</span>
+              </div>
             </div>
           </div>
         </header>
 
         <main className="p-6 md:p-12 max-w-7xl mx-auto">
-          
+
+          {linkError && (
+            <div className="mb-8 flex items-start gap-3 p-4 rounded-2xl border border-red-800 bg-red-950/40 text-red-300">
+              <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="text-sm font-bold uppercase">Could not open shared scenario</p>
+                <p className="text-sm">{linkError}</p>
+              </div>
+              <button onClick={() => setLinkError(null)} className="text-red-400 hover:text-white" title="Dismiss">
+                <X size={18} />
+              </button>
+            </div>
+          )}
+
+          {validationOpen && (
+            <ValidationPage
+              onOpen={scenario => { loadDerivedScenario(scenario); setValidationOpen(false); }}
+              onClose={() => setValidationOpen(false)}
+            />
+          )}
+
+          {/* Kept mounted behind the validation page so the form keeps its state */}
+          <div hidden={validationOpen}>
           {/* Input Section */}
           <section className="mb-12">
             <div className="bg-slate-900/40 border border-slate-800 rounded-3xl p-6 md:p-8 backdrop-blur-sm shadow-2xl relative overflow-hidden">
@@ -139,8 +378,24 @@ const App: React.FC = () => {
                <div className="flex items-center gap-2 mb-6 text-slate-300 relative z-10">
                  <Calculator size={20} />
                  <h2 className="text-lg font-display uppercase font-bold">Input Telemetry</h2>
+                 <button
+                   type="button"
+                   onClick={() => setImporterOpen(open => !open)}
+                   className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-700 text-xs uppercase font-bold text-slate-400 hover:text-white hover:border-cyan-500 transition-colors"
+                 >
+                   <FileUp size={14} />
+                   Import NEO
+                 </button>
                </div>
 
+               {importerOpen && (
+                 <NeoImporter
+                   base={input}
+                   onApply={fields => { setInput(prev => ({ ...prev, ...fields })); setImporterOpen(false); }}
+                   onClose={() => setImporterOpen(false)}
+                 />
+               )}
+
                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 relative z-10">
                   
                   <div className="space-y-2">
@@ -150,95 +405,323 @@ const App: React.FC = () => {
                       name="name"
                       value={input.name}
                       onChange={handleInputChange}
-                      className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white"
+                      className={`w-full bg-slate-950 border ${borderClass('name')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
                       required
                     />
+                    <FieldDiagnostics diagnostics={diagnostics} field="name" />
                   </div>
 
                   <div className="space-y-2">
-                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Diameter (meters)</label>
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">{input.shape ? 'Equivalent Diameter' : 'Diameter'} ({inputUnit('diameter')})</label>
                     <input 
                       type="number" 
                       name="diameter"
-                      value={input.diameter}
+                      value={fieldValue('diameter')}
                       onChange={handleInputChange}
-                      className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white"
-                      min="1"
+                      className={`w-full bg-slate-950 border ${borderClass('diameter')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                      min={fieldMin('diameter')}
+                      step="any"
                       required
                     />
+                    <FieldDiagnostics diagnostics={diagnostics} field="diameter" />
                   </div>
 
                   <div className="space-y-2">
-                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Velocity (km/s)</label>
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Velocity ({inputUnit('velocity')})</label>
                     <input 
                       type="number" 
                       name="velocity"
-                      value={input.velocity}
+                      value={fieldValue('velocity')}
                       onChange={handleInputChange}
-                      className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white"
-                      min="0.1"
-                      step="0.1"
+                      className={`w-full bg-slate-950 border ${borderClass('velocity')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                      min={fieldMin('velocity')}
+                      step="any"
                       required
                     />
+                    <FieldDiagnostics diagnostics={diagnostics} field="velocity" />
                   </div>
 
                   <div className="space-y-2">
-                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Distance (km)</label>
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Distance ({inputUnit('distance')})</label>
                     <input 
                       type="number" 
                       name="distance"
-                      value={input.distance}
+                      value={fieldValue('distance')}
+                      onChange={handleInputChange}
+                      className={`w-full bg-slate-950 border ${borderClass('distance')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                      min="0"
+                      step="any"
+                      required
+                    />
+                    <FieldDiagnostics diagnostics={diagnostics} field="distance" />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Epoch at Distance (UTC)</label>
+                    <input 
+                      type="datetime-local" 
+                      name="epoch"
+                      value={epochValue}
+                      onChange={handleEpochChange}
+                      className={`w-full bg-slate-950 border ${borderClass('epoch')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white [color-scheme:dark]`}
+                    />
+                    <FieldDiagnostics diagnostics={diagnostics} field="epoch" />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Impact Parameter b ({inputUnit('impactParameter')})</label>
+                    <input 
+                      type="number" 
+                      name="impactParameter"
+                      value={fieldValue('impactParameter')}
+                      onChange={handleInputChange}
+                      className={`w-full bg-slate-950 border ${borderClass('impactParameter')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                      min="0"
+                      step="any"
+                      required
+                    />
+                    <FieldDiagnostics diagnostics={diagnostics} field="impactParameter" />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">b Uncertainty σ ({inputUnit('impactParameterSigma')})</label>
+                    <input 
+                      type="number" 
+                      name="impactParameterSigma"
+                      value={fieldValue('impactParameterSigma')}
                       onChange={handleInputChange}
-                      className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white"
+                      className={`w-full bg-slate-950 border ${borderClass('impactParameterSigma')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
                       min="0"
+                      step="any"
                       required
                     />
+                    <FieldDiagnostics diagnostics={diagnostics} field="impactParameterSigma" />
                   </div>
 
-                  <div className="space-y-2 md:col-span-2 lg:col-span-2">
+                  <div className="space-y-2">
+                    <label className="text-xs text-slate-500 uppercase font-bold ml-1">Entry Angle (°)</label>
+                    <input 
+                      type="number" 
+                      name="entryAngle"
+                      value={fieldValue('entryAngle')}
+                      onChange={handleInputChange}
+                      className={`w-full bg-slate-950 border ${borderClass('entryAngle')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                      min="1"
+                      max="90"
+                      step="any"
+                      required
+                    />
+                    <FieldDiagnostics diagnostics={diagnostics} field="entryAngle" />
+                  </div>
+
+                  <div className="space-y-2">
                      <label className="text-xs text-slate-500 uppercase font-bold ml-1">Composition Type</label>
                      <select 
                         name="type" 
                         value={input.type} 
                         onChange={handleInputChange}
-                        className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all text-sm appearance-none cursor-pointer text-white"
+                        className={`w-full bg-slate-950 border ${borderClass('type')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all text-sm appearance-none cursor-pointer text-white`}
                      >
-                       {ASTEROID_TYPES.map(type => (
-                         <option key={type.value} value={type.value}>{type.label}</option>
+                       {materials.map(material => (
+                         <option key={material.id} value={material.id}>{material.name}</option>
                        ))}
                      </select>
+                     <FieldDiagnostics diagnostics={diagnostics} field="type" />
+                     <div className="flex gap-3 ml-1 text-[10px] uppercase font-bold">
+                       <button type="button" onClick={() => openMaterialEditor(true)} disabled={!selectedMaterial} className="flex items-center gap-1 text-slate-500 hover:text-emerald-400 disabled:opacity-40 transition-colors">
+                         <Layers size={12} /> New material
+                       </button>
+                       {selectedMaterial && !selectedMaterial.builtIn && (
+                         <button type="button" onClick={() => openMaterialEditor(false)} className="flex items-center gap-1 text-slate-500 hover:text-emerald-400 transition-colors">
+                           <Pencil size={12} /> Edit
+                         </button>
+                       )}
+                     </div>
                   </div>
 
-                  <div className="md:col-span-2 lg:col-span-2 flex items-end">
-                    <button 
-                      type="submit" 
-                      disabled={loading}
-                      className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold py-3.5 px-6 rounded-xl shadow-lg shadow-cyan-900/40 transition-all transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                    >
-                      {loading ? (
-                        <>
-                          <RefreshCw className="animate-spin" size={20} />
-                          <span>Calculating Physics...</span>
-                        </>
-                      ) : (
-                        <>
-                          <span>Engage Analysis</span>
-                          <ChevronRight size={20} />
-                        </>
-                      )}
-                    </button>
+                  {materialDraft && (
+                    <MaterialEditor
+                      key={materialDraft.material.id}
+                      initial={materialDraft.material}
+                      starters={materials}
+                      isNew={materialDraft.isNew}
+                      onSave={saveMaterial}
+                      onDelete={() => removeMaterial(materialDraft.material.id)}
+                      onCancel={() => setMaterialDraft(null)}
+                    />
+                  )}
+
+                  <ShapeControls
+                    shape={input.shape}
+                    diameter={input.diameter}
+                    lengthUnit={inputUnit('diameter') ?? 'm'}
+                    diagnostics={diagnostics}
+                    onChange={(shape, diameter) => setInput(prev => ({ ...prev, shape, diameter }))}
+                  />
+
+                  <div className="md:col-span-2 lg:col-span-4 grid grid-cols-1 lg:grid-cols-3 gap-6 border-t border-slate-800 pt-4">
+                    <div className="space-y-4">
+                      <div className="flex items-center gap-2 text-slate-400">
+                        <MapPin size={16} className="text-rose-400" />
+                        <span className="text-xs uppercase font-bold">Impact Site</span>
+                        <span className={`ml-auto text-[10px] uppercase font-bold px-2 py-0.5 rounded ${siteIsLand ? 'bg-amber-900/50 text-amber-400' : 'bg-sky-900/50 text-sky-400'}`}>
+                          {siteIsLand ? 'Land · Crust' : 'Ocean · Water'}
+                        </span>
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-xs text-slate-500 uppercase font-bold ml-1">Latitude (°N)</label>
+                        <input 
+                          type="number" 
+                          name="latitude"
+                          value={fieldValue('latitude')}
+                          onChange={handleInputChange}
+                          className={`w-full bg-slate-950 border ${borderClass('latitude')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                          min="-90"
+                          max="90"
+                          step="any"
+                          required
+                        />
+                        <FieldDiagnostics diagnostics={diagnostics} field="latitude" />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-xs text-slate-500 uppercase font-bold ml-1">Longitude (°E)</label>
+                        <input 
+                          type="number" 
+                          name="longitude"
+                          value={fieldValue('longitude')}
+                          onChange={handleInputChange}
+                          className={`w-full bg-slate-950 border ${borderClass('longitude')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white`}
+                          min="-180"
+                          max="180"
+                          step="any"
+                          required
+                        />
+                        <FieldDiagnostics diagnostics={diagnostics} field="longitude" />
+                      </div>
+                      <div className="space-y-2">
+                        <label className={`text-xs uppercase font-bold ml-1 ${siteIsLand ? 'text-slate-600' : 'text-slate-500'}`}>Water Depth ({inputUnit('waterDepth')})</label>
+                        <input 
+                          type="number" 
+                          name="waterDepth"
+                          value={fieldValue('waterDepth')}
+                          onChange={handleInputChange}
+                          disabled={siteIsLand}
+                          className={`w-full bg-slate-950 border ${borderClass('waterDepth')} rounded-xl px-4 py-3 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono text-sm text-white disabled:opacity-40`}
+                          min="0"
+                          step="any"
+                          required
+                        />
+                        <FieldDiagnostics diagnostics={diagnostics} field="waterDepth" />
+                      </div>
+                      <p className="text-xs text-slate-500">Click the map to place the impact point.</p>
+                    </div>
+                    <div className="lg:col-span-2">
+                      <ImpactMap
+                        latitude={input.latitude}
+                        longitude={input.longitude}
+                        onSelect={(latitude, longitude) => setInput(prev => ({ ...prev, latitude, longitude }))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="md:col-span-2 lg:col-span-4 space-y-4 border-t border-slate-800 pt-4">
+                    <label className="flex items-center gap-3 cursor-pointer w-fit">
+                      <input
+                        type="checkbox"
+                        checked={ensembleEnabled}
+                        onChange={e => setEnsembleEnabled(e.target.checked)}
+                        className="w-4 h-4 accent-cyan-500"
+                      />
+                      <Dices size={16} className="text-violet-400" />
+                      <span className="text-xs text-slate-400 uppercase font-bold">Monte Carlo Uncertainty Mode</span>
+                    </label>
+                    {ensembleEnabled && (
+                      <UncertaintyControls value={uncertainty} nominal={input} onChange={setUncertainty} />
+                    )}
+                    <label className="flex items-center gap-3 cursor-pointer w-fit">
+                      <input
+                        type="checkbox"
+                        checked={sweepEnabled}
+                        onChange={e => setSweepEnabled(e.target.checked)}
+                        className="w-4 h-4 accent-cyan-500"
+                      />
+                      <Grid3x3 size={16} className="text-amber-400" />
+                      <span className="text-xs text-slate-400 uppercase font-bold">Parameter Sweep Mode</span>
+                    </label>
+                  </div>
+
+                  <div className="md:col-span-2 lg:col-span-4 space-y-3">
+                    <FieldDiagnostics diagnostics={diagnostics} field={null} />
+                    {loading ? (
+                      <button
+                        type="button"
+                        onClick={cancelAnalysis}
+                        className="w-full bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white font-bold py-3.5 px-6 rounded-xl transition-all flex items-center justify-center gap-2"
+                      >
+                        <X size={20} />
+                        <span>Cancel</span>
+                        <span className="text-slate-400 font-normal">
+                          · Calculating Physics{progress !== null ? ` ${Math.round(progress * 100)}%` : '...'}
+                        </span>
+                      </button>
+                    ) : (
+                      <button 
+                        type="submit" 
+                        disabled={blocked}
+                        className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold py-3.5 px-6 rounded-xl shadow-lg shadow-cyan-900/40 transition-all transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                      >
+                        <span>Engage Analysis</span>
+                        <ChevronRight size={20} />
+                      </button>
+                    )}
                   </div>
                </form>
             </div>
           </section>
 
+          {sweepEnabled && (
+            <section className="mb-12">
+              <SweepPanel base={input} onSelect={loadDerivedScenario} />
+            </section>
+          )}
+
           {/* Results Section */}
           <section>
-            <ResultsDisplay result={result} />
+            {comparing && comparedItems.length >= 2 ? (
+              <ComparisonView items={comparedItems} onClose={() => setComparing(false)} />
+            ) : (
+              <ResultsDisplay
+                result={current?.result ?? null}
+                units={units}
+                shape={current?.input.shape}
+                actions={current && (
+                  <ReportActions
+                    source={current}
+                    onPrint={setPrintSource}
+                    shareUrl={`${window.location.origin}${window.location.pathname}#${encodeScenario(current)}`}
+                  />
+                )}
+              />
+            )}
           </section>
 
+          {current && !comparing && (
+            <section className="mt-12">
+              <DeflectionPlanner input={current.input} result={current.result} units={units} onOpen={loadDerivedScenario} />
+            </section>
+          )}
+          </div>
+
         </main>
       </div>
+
+      {/* Outside the hidden app tree so only the report prints */}
+      {printSource && createPortal(
+        <div className="hidden print:block">
+          <PrintReport source={printSource} />
+        </div>,
+        document.body
+      )}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+/**
+ * Batch analyzer: runs every scenario in a JSON, JSON Lines or CSV file
+ * through the engine and writes one result row per scenario.
+ *
+ *   npm run analyze -- scenarios.csv -o results.jsonl --fields input.name,hazard.torino --steps
+ *
+ * Exits 1 when any row fails validation or analysis, and 2 when the command
+ * itself cannot run (bad flags, unreadable files).
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BatchFormat } from '../types';
+import { DEFAULT_BATCH_FIELDS } from '../constants';
+import { analyzeBatch, batchSucceeded, formatBatch, readMaterials, readScenarios, unknownFields } from '../services/batch';
+import { registerMaterial } from '../services/materials';
+
+const USAGE = `Usage: analyze <scenarios.json|.jsonl|.csv> [options]
+
+Options:
+  -o, --output <file>    Write results here instead of stdout
+  -f, --format <fmt>     jsonl or csv (default: from the output extension, else jsonl)
+      --fields <paths>   Comma-separated result paths, e.g. kineticEnergyMegatons,hazard.torino,input.name
+      --steps            Include the dimensional analysis steps
+  -m, --materials <file> JSON array of custom materials the scenarios refer to
+  -h, --help             Show this help`;
+
+const fail = (message: string): never => {
+  console.error(`analyze: ${message}`);
+  process.exit(2);
+};
+
+const read = (path: string): string => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch {
+    return fail(`cannot read ${path}`);
+  }
+};
+
+const main = () => {
+  let args: ReturnType<typeof parse>;
+  try {
+    args = parse();
+  } catch (err) {
+    return fail(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail(`expected one scenario file\n\n${USAGE}`);
+  const [source] = positionals;
+
+  const format = (values.format ?? (values.output && extname(values.output) === '.csv' ? 'csv' : 'jsonl')) as BatchFormat;
+  if (format !== 'jsonl' && format !== 'csv') fail(`unknown format "${format}"; use jsonl or csv`);
+
+  const fields = values.fields ? values.fields.split(',').map(f => f.trim()).filter(Boolean) : DEFAULT_BATCH_FIELDS;
+  const unknown = unknownFields(fields);
+  if (unknown.length > 0) fail(`unknown field${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+
+  if (values.materials) {
+    try {
+      readMaterials(read(values.materials)).forEach(registerMaterial);
+    } catch (err) {
+      fail(`${values.materials}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const extension = extname(source).toLowerCase();
+  let rows: ReturnType<typeof readScenarios> = [];
+  try {
+    rows = readScenarios(read(source), extension === '.csv' ? 'csv' : extension === '.jsonl' || extension === '.ndjson' ? 'jsonl' : 'json');
+  } catch (err) {
+    fail(`${source}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const options = { fields, steps: !!values.steps };
+  const records = analyzeBatch(rows, options);
+  const output = formatBatch(records, format, options);
+  if (values.output) writeFileSync(values.output, output);
+  else process.stdout.write(output);
+
+  records.filter(r => r.status !== 'ok').forEach(r => console.error(`row ${r.row}: ${r.errors.join('; ')}`));
+  const ok = records.filter(r => r.status === 'ok').length;
+  console.error(`${ok} of ${records.length} scenario${records.length === 1 ? '' : 's'} analysed.`);
+  if (!batchSucceeded(records)) process.exitCode = 1;
+};
+
+function parse() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      fields: { type: 'string' },
+      steps: { type: 'boolean' },
+      materials: { type: 'string', short: 'm' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+main();
@@ -0,0 +1,30 @@
+/**
+ * Reference suite: runs the engine on the observed events in
+ * data/referenceEvents and checks each output against its accepted range.
+ *
+ *   npm test
+ *
+ * Exits 1 when any check falls outside its range. Input checks, which only
+ * recompute ½mv² of the chosen reconstruction, are counted apart from the
+ * checks on the model.
+ */
+import { REFERENCE_METRICS } from '../constants';
+import { formatReferenceValue, isInputCheck, referenceSuitePassed, runReferenceSuite } from '../services/reference';
+
+const MARKS = { pass: 'ok  ', fail: 'FAIL' };
+
+const results = runReferenceSuite();
+results.forEach(({ event, checks }) => {
+  console.log(`\n${event.name} (${event.date})`);
+  checks.forEach(({ check, model, status }) => {
+    const { label, unit } = REFERENCE_METRICS[check.metric];
+    console.log(`  ${MARKS[status]} ${label}${isInputCheck(check) ? ' (input check)' : ''}: model ${formatReferenceValue(model)} ${unit}, observed ${formatReferenceValue(check.observed)} ${unit}, accepted ${formatReferenceValue(check.min)}-${formatReferenceValue(check.max)}`);
+  });
+});
+
+const all = results.flatMap(r => r.checks);
+const model = all.filter(c => !isInputCheck(c.check));
+const inputs = all.filter(c => isInputCheck(c.check));
+const count = (checks: typeof all, status: string) => checks.filter(c => c.status === status).length;
+console.log(`\n${count(model, 'pass')} passed, ${count(model, 'fail')} failed, of ${model.length} model checks; ${count(inputs, 'pass')} of ${inputs.length} input checks consistent.`);
+if (!referenceSuitePassed(results)) process.exitCode = 1;
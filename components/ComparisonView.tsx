@@ -0,0 +1,167 @@
+import React from 'react';
+import { HistoryItem } from '../types';
+import { COLORS, FIELD_LABELS, NUMERIC_FIELDS } from '../constants';
+import { diffSteps, percentDiff } from '../services/comparison';
+import { materialName } from '../services/materials';
+import { shapeLabel } from '../services/shape';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid, Cell } from 'recharts';
+import { GitCompare, X } from 'lucide-react';
+
+interface Props {
+  items: HistoryItem[];
+  onClose: () => void;
+}
+
+// Differences beyond these thresholds are highlighted
+const NOTABLE_DIFF = 10; // %
+const MAJOR_DIFF = 50;   // %
+
+const diffClass = (diff: number | null): string => {
+  if (diff === null || Math.abs(diff) < NOTABLE_DIFF) return 'text-slate-500';
+  if (Math.abs(diff) < MAJOR_DIFF) return diff > 0 ? 'text-amber-400' : 'text-sky-400';
+  return diff > 0 ? 'text-red-400 font-bold' : 'text-cyan-300 font-bold';
+};
+
+const formatDiff = (diff: number | null): string => {
+  if (diff === null) return '';
+  const sign = diff > 0 ? '+' : '';
+  return Math.abs(diff) >= 1000 ? `${sign}${diff.toExponential(1)}%` : `${sign}${diff.toFixed(1)}%`;
+};
+
+
+interface ChartDatum {
+  name: string;
+  energy: number;
+  crater: number;
+  fill: string;
+}
+
+const MetricChart: React.FC<{ data: ChartDatum[]; title: string; dataKey: 'energy' | 'crater'; unit: string; log?: boolean }> = ({ data, title, dataKey, unit, log }) => (
+  <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-800">
+    <p className="text-xs text-slate-500 uppercase font-bold mb-3">{title} ({unit})</p>
+    <div className="h-48 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical">
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+          <XAxis
+            type="number"
+            scale={log ? 'log' : 'auto'}
+            domain={log ? ['auto', 'auto'] : [0, 'auto']}
+            allowDataOverflow={log}
+            tick={{ fill: '#94a3b8', fontSize: 10 }}
+            tickFormatter={(v: number) => v.toPrecision(2)}
+          />
+          <YAxis dataKey="name" type="category" width={100} tick={{ fill: '#94a3b8', fontSize: 10 }} />
+          <Tooltip
+            cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+            contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
+            formatter={(value: number) => [`${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit}`, title]}
+          />
+          <Bar dataKey={dataKey} radius={[0, 4, 4, 0]} barSize={18}>
+            {data.map((entry, i) => <Cell key={i} fill={entry.fill} />)}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export const ComparisonView: React.FC<Props> = ({ items, onClose }) => {
+  const rows = diffSteps(items);
+  const colorOf = (i: number) => COLORS[i % COLORS.length];
+
+  const chartData: ChartDatum[] = items.map((item, i) => ({
+    name: item.label,
+    energy: item.result.kineticEnergyMegatons,
+    crater: item.result.craterSizeMeters,
+    fill: colorOf(i)
+  }));
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <GitCompare className="text-cyan-400" />
+          <h2 className="text-2xl font-display font-bold text-white uppercase tracking-wider">Scenario Comparison</h2>
+        </div>
+        <button onClick={onClose} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm">
+          <X size={16} /> Close
+        </button>
+      </div>
+
+      {/* Inputs side by side */}
+      <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6 overflow-x-auto">
+        <table className="w-full text-sm font-mono">
+          <thead>
+            <tr className="text-xs uppercase text-right">
+              <th className="text-left py-2 pr-4 text-slate-500">Input</th>
+              {items.map((item, i) => (
+                <th key={item.id} className="py-2 px-3" style={{ color: colorOf(i) }}>{item.label}{i === 0 ? ' (baseline)' : ''}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-slate-800 text-right">
+              <td className="text-left py-2 pr-4 text-slate-400">Composition</td>
+              {items.map(item => <td key={item.id} className="py-2 px-3 text-slate-300">{materialName(item.input.type)}</td>)}
+            </tr>
+            <tr className="border-t border-slate-800 text-right">
+              <td className="text-left py-2 pr-4 text-slate-400">Shape</td>
+              {items.map(item => <td key={item.id} className="py-2 px-3 text-slate-300">{shapeLabel(item.input.shape)}</td>)}
+            </tr>
+            {NUMERIC_FIELDS.map(field => (
+              <tr key={field} className="border-t border-slate-800 text-right">
+                <td className="text-left py-2 pr-4 text-slate-400">{FIELD_LABELS[field]}</td>
+                {items.map((item, i) => {
+                  const diff = i === 0 ? null : percentDiff(item.input[field], items[0].input[field]);
+                  return (
+                    <td key={item.id} className="py-2 px-3 text-slate-300">
+                      {item.input[field].toLocaleString()}
+                      {diff !== null && diff !== 0 && <span className={`ml-2 text-xs ${diffClass(diff)}`}>{formatDiff(diff)}</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Overlaid outputs */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <MetricChart data={chartData} title="Kinetic Energy" dataKey="energy" unit="MT" log />
+        <MetricChart data={chartData} title="Crater Diameter" dataKey="crater" unit="m" />
+      </div>
+
+      {/* Step-by-step diff */}
+      <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6 overflow-x-auto">
+        <h3 className="text-lg font-display font-bold text-cyan-400 uppercase tracking-wider mb-4">Dimensional Step Differences</h3>
+        <table className="w-full text-sm font-mono">
+          <thead>
+            <tr className="text-xs uppercase text-right">
+              <th className="text-left py-2 pr-4 text-slate-500">Step</th>
+              {items.map((item, i) => (
+                <th key={item.id} className="py-2 px-3" style={{ color: colorOf(i) }}>{item.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.step} className="border-t border-slate-800 text-right align-top">
+                <td className="text-left py-2 pr-4 text-slate-400">{row.step}</td>
+                {row.cells.map((cell, i) => (
+                  <td key={items[i].id} className="py-2 px-3 text-slate-300">
+                    <div>{cell.result ?? '—'}</div>
+                    {cell.percentDiff !== null && cell.percentDiff !== 0 && (
+                      <div className={`text-xs ${diffClass(cell.percentDiff)}`}>{formatDiff(cell.percentDiff)}</div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, AsteroidInput, DeflectionMethod, DeflectionOptions, UnitPreferences } from '../types';
+import { DART_REFERENCE, DEFAULT_DEFLECTION, DEFLECTION_METHODS } from '../constants';
+import { DART_DEFLECTION } from '../data/referenceEvents';
+import { planDeflection, validateDeflection } from '../services/deflection';
+import { binaryPeriodChange, evaluateReferenceDeflection } from '../services/reference';
+import { EARTH_RADIUS_KM } from '../services/encounter';
+import { convert, formatQuantity } from '../services/units';
+import { DimensionalStepCard } from './DimensionalStepCard';
+import { ArrowRight, CheckCircle, Rocket, ShieldAlert, XCircle } from 'lucide-react';
+
+interface Props {
+  input: AsteroidInput;
+  result: AnalysisResult;
+  units: UnitPreferences;
+  onOpen: (input: AsteroidInput) => void; // show the deflected trajectory as the main result
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:border-cyan-500 transition-all font-mono text-xs text-white";
+
+// Option key, label, and the unit shown in the form when it differs from the stored one
+type FieldSpec = { key: keyof Omit<DeflectionOptions, 'method'>; label: string; unit?: string; shown?: string };
+
+const COMMON_FIELDS: FieldSpec[] = [
+  { key: 'leadTime', label: 'Lead time', unit: 'd', shown: 'yr' },
+  { key: 'marginKm', label: 'Safety margin', unit: 'km' }
+];
+
+const METHOD_FIELDS: Record<DeflectionMethod, FieldSpec[]> = {
+  kinetic: [
+    { key: 'spacecraftMass', label: 'Impactor mass', unit: 'kg' },
+    { key: 'impactSpeed', label: 'Impact speed', unit: 'km/s' },
+    { key: 'beta', label: 'Momentum enhancement β' }
+  ],
+  tractor: [
+    { key: 'spacecraftMass', label: 'Tractor mass', unit: 'kg' },
+    { key: 'hoverDistance', label: 'Hover distance (body radii)' },
+    { key: 'towDuration', label: 'Tow duration', unit: 'd', shown: 'yr' }
+  ],
+  nuclear: [
+    { key: 'yieldMegatons', label: 'Yield', unit: 'Mt' },
+    { key: 'standoff', label: 'Standoff height (body radii)' }
+  ]
+};
+
+const RESOURCE_LABELS: Record<DeflectionMethod, string> = {
+  kinetic: 'Impactor mass needed',
+  tractor: 'Tractor mass needed',
+  nuclear: 'Yield needed'
+};
+
+const mmPerS = (value: number) => `${(value * 1000).toPrecision(3)} mm/s`;
+
+export const DeflectionPlanner: React.FC<Props> = ({ input, result, units, onOpen }) => {
+  const [options, setOptions] = useState<DeflectionOptions>(DEFAULT_DEFLECTION);
+  const errors = useMemo(() => validateDeflection(options), [options]);
+  const plan = useMemo(
+    () => errors.length === 0 ? planDeflection(input, result, options) : null,
+    [input, result, options, errors]
+  );
+  const dart = useMemo(() => evaluateReferenceDeflection(DART_DEFLECTION), []);
+
+  const shownValue = ({ key, unit, shown }: FieldSpec) => {
+    const value = options[key];
+    if (!Number.isFinite(value)) return '';
+    return parseFloat((unit && shown ? convert(value, unit, shown) : value).toPrecision(6));
+  };
+
+  const setField = ({ key, unit, shown }: FieldSpec, raw: string) => {
+    const value = parseFloat(raw);
+    setOptions(o => ({ ...o, [key]: unit && shown ? convert(value, shown, unit) : value }));
+  };
+
+  const applyDart = () => setOptions(o => ({
+    ...o,
+    method: 'kinetic',
+    spacecraftMass: DART_REFERENCE.spacecraftMass,
+    impactSpeed: DART_REFERENCE.impactSpeed,
+    beta: DART_REFERENCE.beta
+  }));
+
+  const resource = plan && (options.method === 'nuclear'
+    ? formatQuantity(plan.requiredResource, 'Mt', units)
+    : Number.isFinite(plan.requiredResource) ? formatQuantity(plan.requiredResource, 'kg', units) : 'Not reachable');
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="text-emerald-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Deflection Planner</h3>
+        </div>
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+          {(Object.keys(DEFLECTION_METHODS) as DeflectionMethod[]).map(method => (
+            <button
+              key={method}
+              type="button"
+              onClick={() => setOptions(o => ({ ...o, method }))}
+              className={`px-3 py-1.5 text-xs font-bold transition-colors ${options.method === method ? 'bg-emerald-700 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+            >
+              {DEFLECTION_METHODS[method].label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">{DEFLECTION_METHODS[options.method].description}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {[...COMMON_FIELDS, ...METHOD_FIELDS[options.method]].map(spec => (
+          <div key={spec.key} className="space-y-1">
+            <label className="text-[10px] text-slate-500 uppercase font-bold ml-1">
+              {spec.label}{spec.unit ? ` (${spec.shown ?? spec.unit})` : ''}
+            </label>
+            <input type="number" step="any" value={shownValue(spec)} onChange={e => setField(spec, e.target.value)} className={inputClass} />
+          </div>
+        ))}
+      </div>
+      {options.method === 'kinetic' && (
+        <button type="button" onClick={applyDart} className="flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300">
+          <Rocket size={12} /> Use the DART spacecraft
+        </button>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-400 space-y-1">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-slate-800/50 p-4 rounded-xl">
+              <div className="text-xs text-slate-500 uppercase">Required Δv</div>
+              <div className="text-2xl font-mono text-cyan-300 font-bold truncate">{mmPerS(plan.requiredDeltaV)}</div>
+            </div>
+            <div className="bg-slate-800/50 p-4 rounded-xl">
+              <div className="text-xs text-slate-500 uppercase">Achieved Δv</div>
+              <div className={`text-2xl font-mono font-bold truncate ${plan.succeeds ? 'text-emerald-400' : 'text-orange-400'}`}>{mmPerS(plan.achievedDeltaV)}</div>
+            </div>
+            <div className="bg-slate-800/50 p-4 rounded-xl">
+              <div className="text-xs text-slate-500 uppercase">b-Plane Shift</div>
+              <div className="text-2xl font-mono text-yellow-400 font-bold truncate">{formatQuantity(plan.achievedShiftKm, 'km', units)}</div>
+            </div>
+            <div className="bg-slate-800/50 p-4 rounded-xl">
+              <div className="text-xs text-slate-500 uppercase">{RESOURCE_LABELS[options.method]}</div>
+              <div className="text-2xl font-mono text-slate-200 font-bold truncate">{resource}</div>
+            </div>
+          </div>
+
+          {/* Re-run of the engine on the shifted trajectory */}
+          <div className={`flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 rounded-xl border ${plan.deflected.isHit ? 'border-red-800 bg-red-950/30' : 'border-emerald-800 bg-emerald-950/30'}`}>
+            <div className="flex items-center gap-3">
+              {plan.deflected.isHit ? <XCircle className="text-red-400" /> : <CheckCircle className="text-emerald-400" />}
+              <div>
+                <div className="text-sm font-bold text-white">
+                  {plan.deflected.isHit ? 'Deflected trajectory still impacts' : 'Deflected trajectory misses Earth'}
+                </div>
+                <div className="text-xs font-mono text-slate-400">
+                  Impact probability {result.impactProbability}% → {plan.deflected.impactProbability}%
+                  {!plan.deflected.isHit && ` · closest approach ${formatQuantity(plan.deflected.encounter.perigee - EARTH_RADIUS_KM, 'km', units)} altitude`}
+                </div>
+              </div>
+            </div>
+            <button type="button" onClick={() => onOpen(plan.deflectedInput)} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-sm text-white">
+              Open deflected scenario <ArrowRight size={16} />
+            </button>
+          </div>
+
+          <div className="bg-slate-900/30 p-4 rounded-2xl border border-slate-800 max-h-[480px] overflow-y-auto custom-scrollbar">
+            {plan.steps.map((step, index) => (
+              <DimensionalStepCard key={index} data={step} index={index} isLast={index === plan.steps.length - 1} units={units} />
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Reference case: the same kinetic impactor model applied to DART */}
+      <div className="border-t border-slate-800 pt-4">
+        <div className="text-xs uppercase font-bold text-slate-400 mb-2">DART reference · Dimorphos, 26 Sep 2022</div>
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 text-right">
+              <th className="text-left font-normal py-1">Quantity</th>
+              <th className="font-normal">Model</th>
+              <th className="font-normal">Measured</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            <tr className="border-t border-slate-800 text-right">
+              <td className="text-left py-1">Δv, β = {DART_REFERENCE.beta}</td>
+              <td>{dart.deltaV.toFixed(2)} mm/s</td>
+              <td>{DART_REFERENCE.measuredDeltaV.toFixed(2)} mm/s along track</td>
+            </tr>
+            <tr className="border-t border-slate-800 text-right">
+              <td className="text-left py-1">Orbit period change</td>
+              <td>−{dart.periodChange.toFixed(1)} min (−{binaryPeriodChange(DART_DEFLECTION, DART_REFERENCE.measuredDeltaV).toFixed(1)} from measured Δv)</td>
+              <td>−{DART_REFERENCE.measuredPeriodChange.toFixed(1)} ± {DART_REFERENCE.measuredPeriodChangeSigma.toFixed(1)} min</td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-[10px] text-slate-500 mt-2">
+          Dimorphos is built from its imaged shape at 2400 kg/m³, with β as Cheng et al. (2023) report it for that density. The planner puts
+          all momentum along the orbit; DART struck off that direction, so the model runs about 10% high.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,19 @@
 import React from 'react';
-import { DimensionalStep } from '../types';
+import { DimensionalStep, UnitPreferences } from '../types';
+import { formatQuantity, preferredUnit } from '../services/units';
 import { ArrowDown } from 'lucide-react';
 
 interface Props {
   data: DimensionalStep;
   index: number;
   isLast: boolean;
+  units: UnitPreferences;
 }
 
-export const DimensionalStepCard: React.FC<Props> = ({ data, index, isLast }) => {
+export const DimensionalStepCard: React.FC<Props> = ({ data, index, isLast, units }) => {
+  const { derivation } = data;
+  const converted = derivation && preferredUnit(derivation.unit, units, derivation.value) !== derivation.unit;
+
   return (
     <div className="relative flex flex-col items-center">
       <div className="w-full bg-slate-800/50 backdrop-blur-md border border-slate-700 p-4 rounded-xl hover:border-cyan-500 transition-colors duration-300">
@@ -24,7 +29,16 @@ export const DimensionalStepCard: React.FC<Props> = ({ data, index, isLast }) =>
           {data.explanation}
         </p>
 
-        <div className="flex justify-end">
+        {derivation && (
+          <div className="text-xs font-mono text-slate-500 mb-2 overflow-x-auto whitespace-nowrap" title="Units checked by the engine">
+            [{derivation.expression}] → {derivation.dimension} → <span className="text-cyan-500">{derivation.unit || 'dimensionless'} ✓</span>
+          </div>
+        )}
+
+        <div className="flex justify-end items-center gap-2">
+          {derivation && converted && (
+            <span className="text-slate-400 font-mono text-sm">≈ {formatQuantity(derivation.value, derivation.unit, units)}</span>
+          )}
           <span className="text-emerald-400 font-bold font-mono bg-emerald-900/20 px-2 py-1 rounded">
             = {data.result}
           </span>
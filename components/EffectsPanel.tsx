@@ -0,0 +1,104 @@
+import React from 'react';
+import { ImpactEffects } from '../types';
+import { Radiation } from 'lucide-react';
+
+interface Props {
+  effects: ImpactEffects;
+}
+
+const formatExposure = (joules: number): string => {
+  if (joules >= 1e6) return `${(joules / 1e6).toFixed(2)} MJ/m²`;
+  if (joules >= 1e3) return `${(joules / 1e3).toFixed(1)} kJ/m²`;
+  return `${joules.toFixed(0)} J/m²`;
+};
+
+const formatThickness = (meters: number): string => {
+  if (meters <= 0) return '—';
+  if (meters >= 1) return `${meters.toFixed(1)} m`;
+  if (meters >= 0.001) return `${(meters * 1000).toFixed(1)} mm`;
+  return '< 1 mm';
+};
+
+export const EffectsPanel: React.FC<Props> = ({ effects }) => {
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <Radiation className="text-rose-400" />
+        <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Impact Effects</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Released Energy</div>
+          <div className="text-2xl font-mono text-yellow-400 font-bold truncate">
+            {effects.energyMegatons.toLocaleString(undefined, { maximumFractionDigits: 2 })} MT
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Fireball Radius</div>
+          <div className="text-2xl font-mono text-orange-400 font-bold truncate">
+            {effects.fireballRadiusKm.toFixed(2)} km
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Burst Altitude</div>
+          <div className="text-2xl font-mono text-cyan-300 font-bold truncate">
+            {effects.burstAltitudeKm > 0 ? `${effects.burstAltitudeKm.toFixed(1)} km` : 'Surface'}
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Seismic Magnitude</div>
+          <div className="text-2xl font-mono text-rose-400 font-bold truncate">
+            {effects.seismicMagnitude === null ? 'None' : `M ${effects.seismicMagnitude.toFixed(1)}`}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-800">
+          <p className="text-xs text-slate-500 uppercase font-bold mb-3">Air Blast Overpressure</p>
+          {effects.overpressureRings.map(ring => (
+            <div key={ring.psi} className="flex justify-between text-sm font-mono py-1 border-b border-slate-800 last:border-0">
+              <span className="text-slate-400">{ring.psi} psi</span>
+              <span className="text-white">{ring.radiusKm > 0 ? `${ring.radiusKm.toFixed(2)} km` : 'Not reached'}</span>
+            </div>
+          ))}
+        </div>
+        <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-800">
+          <p className="text-xs text-slate-500 uppercase font-bold mb-3">Thermal Radiation</p>
+          {effects.thermalRings.map(ring => (
+            <div key={ring.label} className="flex justify-between text-sm font-mono py-1 border-b border-slate-800 last:border-0">
+              <span className="text-slate-400">{ring.label}</span>
+              <span className="text-white">{ring.radiusKm > 0 ? `${ring.radiusKm.toFixed(2)} km` : 'Not reached'}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm font-mono">
+          <thead>
+            <tr className="text-xs text-slate-500 uppercase text-right">
+              <th className="text-left py-2 pr-4">Distance</th>
+              <th className="py-2 px-2">Thermal</th>
+              <th className="py-2 px-2">Overpressure</th>
+              <th className="py-2 px-2">Seismic</th>
+              <th className="py-2 pl-2">Ejecta</th>
+            </tr>
+          </thead>
+          <tbody>
+            {effects.atDistance.map(row => (
+              <tr key={row.distanceKm} className="border-t border-slate-800 text-right text-slate-300">
+                <td className="text-left py-2 pr-4 text-cyan-300">{row.distanceKm.toLocaleString()} km</td>
+                <td className="py-2 px-2">{formatExposure(row.thermalExposure)}</td>
+                <td className="py-2 px-2">{row.overpressurePsi >= 0.01 ? `${row.overpressurePsi.toFixed(2)} psi` : '< 0.01 psi'}</td>
+                <td className="py-2 px-2">{row.seismicMagnitude === null || row.seismicMagnitude <= 0 ? '—' : `M ${row.seismicMagnitude.toFixed(1)}`}</td>
+                <td className="py-2 pl-2">{formatThickness(row.ejectaThicknessMeters)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
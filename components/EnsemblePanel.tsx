@@ -0,0 +1,72 @@
+import React from 'react';
+import { EnsembleMetric, EnsembleSummary } from '../types';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+
+interface Props {
+  ensemble: EnsembleSummary;
+}
+
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 1e4 || (value !== 0 && Math.abs(value) < 0.01)
+    ? value.toExponential(2)
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const MetricHistogram: React.FC<{ title: string; unit: string; metric: EnsembleMetric; color: string }> = ({ title, unit, metric, color }) => {
+  const data = metric.histogram.map(bin => ({
+    label: formatValue(metric.logScale ? Math.sqrt(bin.binStart * bin.binEnd) : (bin.binStart + bin.binEnd) / 2),
+    count: bin.count
+  }));
+
+  return (
+    <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-800">
+      <div className="flex justify-between items-baseline mb-3">
+        <p className="text-xs text-slate-500 uppercase font-bold">{title}{metric.logScale ? ' (log bins)' : ''}</p>
+        <span className="text-xs text-slate-500">{unit}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        {(['p5', 'p50', 'p95'] as const).map(key => (
+          <div key={key} className="bg-slate-900/60 rounded-lg p-2">
+            <div className="text-[10px] text-slate-500 uppercase">{key}</div>
+            <div className="text-sm font-mono font-bold text-white truncate">{formatValue(metric[key])}</div>
+          </div>
+        ))}
+      </div>
+      <div className="h-40 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="label" tick={{ fill: '#94a3b8', fontSize: 9 }} interval="preserveStartEnd" />
+            <YAxis tick={{ fill: '#94a3b8', fontSize: 10 }} width={30} allowDecimals={false} />
+            <Tooltip
+              cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
+            />
+            <Bar dataKey="count" fill={color} radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export const EnsemblePanel: React.FC<Props> = ({ ensemble }) => {
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="text-violet-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Uncertainty Ensemble</h3>
+        </div>
+        <div className="text-xs text-slate-400 font-mono">
+          N = {ensemble.samples.toLocaleString()} · seed {ensemble.seed} · {(ensemble.hitFraction * 100).toFixed(1)}% of samples hit
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <MetricHistogram title="Kinetic Energy" unit="MT" metric={ensemble.energy} color="#facc15" />
+        <MetricHistogram title="Crater Diameter" unit="m" metric={ensemble.crater} color="#f43f5e" />
+        <MetricHistogram title="Impact Probability" unit="%" metric={ensemble.impactProbability} color="#22d3ee" />
+      </div>
+    </div>
+  );
+};
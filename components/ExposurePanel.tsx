@@ -0,0 +1,65 @@
+import React from 'react';
+import { PopulationExposure, UnitPreferences } from '../types';
+import { POPULATION_CAVEAT } from '../constants';
+import { formatPeople } from '../services/exposure';
+import { formatQuantity } from '../services/units';
+import { Users } from 'lucide-react';
+
+interface Props {
+  exposure: PopulationExposure;
+  isHit: boolean;
+  hasOcean: boolean; // tsunami casualties are not modelled
+  units: UnitPreferences;
+}
+
+export const ExposurePanel: React.FC<Props> = ({ exposure, isHit, hasOcean, units }) => (
+  <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+    <div className="flex items-center gap-3 mb-6">
+      <Users className="text-rose-400" />
+      <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Population Exposure</h3>
+    </div>
+    <div className="grid grid-cols-3 gap-4 mb-6">
+      <div className="bg-slate-800/50 p-4 rounded-xl">
+        <div className="text-xs text-slate-500 uppercase">Exposed</div>
+        <div className="text-2xl font-mono text-slate-200 font-bold truncate">{formatPeople(exposure.population)}</div>
+      </div>
+      <div className="bg-slate-800/50 p-4 rounded-xl">
+        <div className="text-xs text-slate-500 uppercase">Fatalities</div>
+        <div className="text-2xl font-mono text-red-400 font-bold truncate">{formatPeople(exposure.fatalities)}</div>
+      </div>
+      <div className="bg-slate-800/50 p-4 rounded-xl">
+        <div className="text-xs text-slate-500 uppercase">Injuries</div>
+        <div className="text-2xl font-mono text-orange-400 font-bold truncate">{formatPeople(exposure.injuries)}</div>
+      </div>
+    </div>
+
+    <table className="w-full text-xs font-mono">
+      <thead>
+        <tr className="text-slate-500 text-right">
+          <th className="text-left font-normal py-1">Zone</th>
+          <th className="font-normal">Radius</th>
+          <th className="font-normal">People</th>
+          <th className="font-normal">Killed</th>
+          <th className="font-normal">Injured</th>
+        </tr>
+      </thead>
+      <tbody className="text-slate-300">
+        {exposure.zones.map(zone => (
+          <tr key={zone.label} className="border-t border-slate-800 text-right">
+            <td className="text-left py-1">{zone.label}</td>
+            <td>{formatQuantity(zone.radiusKm, 'km', units)}</td>
+            <td>{formatPeople(zone.population)}</td>
+            <td>{formatPeople(zone.fatalities)}</td>
+            <td>{formatPeople(zone.injuries)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <p className="text-[10px] text-slate-500 mt-4">
+      {!isHit && 'The trajectory misses; figures are for a strike at the selected site. '}
+      {POPULATION_CAVEAT} Each person counts once, in the worst zone they are in.
+      {hasOcean && ' Tsunami casualties on distant coasts are not included.'}
+    </p>
+  </div>
+);
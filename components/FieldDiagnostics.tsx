@@ -0,0 +1,33 @@
+import React from 'react';
+import { Diagnostic, DiagnosticSeverity } from '../types';
+import { AlertOctagon, AlertTriangle, Lightbulb } from 'lucide-react';
+
+interface Props {
+  diagnostics: Diagnostic[];
+  field: Diagnostic['field'];
+}
+
+const STYLES: Record<DiagnosticSeverity, { icon: typeof AlertOctagon; className: string }> = {
+  error: { icon: AlertOctagon, className: 'text-red-400' },
+  warning: { icon: AlertTriangle, className: 'text-amber-400' },
+  tip: { icon: Lightbulb, className: 'text-sky-400' }
+};
+
+export const FieldDiagnostics: React.FC<Props> = ({ diagnostics, field }) => {
+  const matching = diagnostics.filter(d => d.field === field);
+  if (matching.length === 0) return null;
+
+  return (
+    <ul className="space-y-1 ml-1">
+      {matching.map(d => {
+        const { icon: Icon, className } = STYLES[d.severity];
+        return (
+          <li key={d.message} className={`flex items-start gap-1.5 text-xs ${className}`}>
+            <Icon size={12} className="shrink-0 mt-0.5" />
+            <span>{d.message}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
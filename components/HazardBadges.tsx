@@ -0,0 +1,43 @@
+import React from 'react';
+import { HazardAssessment, TorinoZone } from '../types';
+import { PALERMO_BANDS, TORINO_ZONES } from '../constants';
+import { torinoLevel } from '../services/hazard';
+
+interface Props {
+  hazard: HazardAssessment;
+  compact?: boolean; // short labels for list entries
+}
+
+// The official Torino colours: white, green, yellow, orange, red
+const ZONE_STYLES: Record<TorinoZone, string> = {
+  none: 'bg-slate-200/10 text-slate-200 border-slate-500',
+  normal: 'bg-emerald-900/50 text-emerald-400 border-emerald-700',
+  attention: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  threatening: 'bg-orange-900/50 text-orange-400 border-orange-700',
+  certain: 'bg-red-900/50 text-red-400 border-red-700'
+};
+
+// Matching PALERMO_BANDS
+const PALERMO_STYLES = [
+  'bg-slate-800/50 text-slate-400 border-slate-700',
+  'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  'bg-red-900/50 text-red-400 border-red-700'
+];
+
+export const HazardBadges: React.FC<Props> = ({ hazard, compact }) => {
+  const { zone, description } = torinoLevel(hazard.torino);
+  const band = hazard.palermo === null ? 0 : PALERMO_BANDS.reduce((found, b, i) => hazard.palermo! >= b.min ? i : found, 0);
+  const palermoText = hazard.palermo === null ? '—' : hazard.palermo.toFixed(2);
+  const size = compact ? 'text-[10px] px-2 py-0.5' : 'text-xs px-3 py-1';
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <span className={`uppercase font-bold rounded border ${size} ${ZONE_STYLES[zone]}`} title={description}>
+        Torino {hazard.torino}{!compact && ` · ${TORINO_ZONES[zone]}`}
+      </span>
+      <span className={`uppercase font-bold rounded border ${size} ${PALERMO_STYLES[band]}`} title={PALERMO_BANDS[band].label}>
+        PS {palermoText}{!compact && hazard.palermo !== null && ` · ${PALERMO_BANDS[band].label}`}
+      </span>
+    </div>
+  );
+};
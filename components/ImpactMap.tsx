@@ -0,0 +1,113 @@
+import React from 'react';
+import { ImpactEffects } from '../types';
+import { WORLD_LAND_RINGS } from '../data/worldLand';
+import { geodesicCircle } from '../services/geography';
+
+interface Props {
+  latitude: number;
+  longitude: number;
+  effects?: ImpactEffects;
+  onSelect?: (latitude: number, longitude: number) => void;
+}
+
+// Equirectangular projection into a 360 x 180 viewBox
+const project = (lon: number, lat: number): [number, number] => [lon + 180, 90 - lat];
+
+const LAND_PATH = WORLD_LAND_RINGS.map(ring =>
+  ring.map(([lon, lat], i) => {
+    const [x, y] = project(lon, lat);
+    return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join('') + 'Z'
+).join('');
+
+// Break the outline wherever it wraps across the antimeridian
+const ringPath = (points: [number, number][]): string =>
+  points.map(([lon, lat], i) => {
+    const [x, y] = project(lon, lat);
+    const wraps = i > 0 && Math.abs(lon - points[i - 1][0]) > 180;
+    return `${i === 0 || wraps ? 'M' : 'L'}${x.toFixed(2)},${y.toFixed(2)}`;
+  }).join('');
+
+const KM_PER_DEGREE = 111.2;
+
+const OVERPRESSURE_COLORS: Record<number, string> = { 20: '#ef4444', 5: '#f97316', 1: '#facc15' };
+
+export const ImpactMap: React.FC<Props> = ({ latitude, longitude, effects, onSelect }) => {
+  const thermal = effects?.thermalRings.find(ring => ring.label === 'Third-degree burns');
+  const [sx, sy] = project(longitude, latitude);
+
+  // With damage rings, frame the largest ring instead of the whole globe
+  const largestKm = Math.max(0, thermal?.radiusKm ?? 0, ...(effects?.overpressureRings.map(ring => ring.radiusKm) ?? []));
+  const halfWidth = effects
+    ? Math.min(180, Math.max(4, (largestKm / KM_PER_DEGREE) * 2.5 / Math.max(0.2, Math.cos((latitude * Math.PI) / 180))))
+    : 180;
+  const view = effects
+    ? { x: sx - halfWidth, y: sy - halfWidth / 2, w: 2 * halfWidth, h: halfWidth }
+    : { x: 0, y: 0, w: 360, h: 180 };
+  const markerRadius = view.w / 220;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onSelect) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const lon = view.x + ((e.clientX - rect.left) / rect.width) * view.w - 180;
+    const lat = 90 - (view.y + ((e.clientY - rect.top) / rect.height) * view.h);
+    onSelect(parseFloat(lat.toFixed(2)), parseFloat(lon.toFixed(2)));
+  };
+
+  return (
+    <div className="w-full">
+      <svg
+        viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+        preserveAspectRatio="xMidYMid slice"
+        className={`w-full rounded-xl border border-slate-800 bg-slate-950 ${onSelect ? 'cursor-crosshair' : ''}`}
+        onClick={handleClick}
+      >
+        {/* Graticule */}
+        {[-60, -30, 0, 30, 60].map(lat => (
+          <line key={`lat${lat}`} x1={0} x2={360} y1={90 - lat} y2={90 - lat} stroke="#1e293b" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        ))}
+        {[-120, -60, 0, 60, 120].map(lon => (
+          <line key={`lon${lon}`} y1={0} y2={180} x1={lon + 180} x2={lon + 180} stroke="#1e293b" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        ))}
+
+        <path d={LAND_PATH} fill="#334155" fillRule="evenodd" stroke="#475569" strokeWidth={0.75} vectorEffect="non-scaling-stroke" />
+
+        {/* Damage rings, largest first */}
+        {thermal && thermal.radiusKm > 0 && (
+          <path d={ringPath(geodesicCircle(latitude, longitude, thermal.radiusKm))} fill="none" stroke="#a855f7" strokeWidth={1.5} strokeDasharray="5 3" vectorEffect="non-scaling-stroke" />
+        )}
+        {effects?.overpressureRings.filter(ring => ring.radiusKm > 0).reverse().map(ring => (
+          <path
+            key={ring.psi}
+            d={ringPath(geodesicCircle(latitude, longitude, ring.radiusKm))}
+            fill={OVERPRESSURE_COLORS[ring.psi] ?? '#facc15'}
+            fillOpacity={0.15}
+            stroke={OVERPRESSURE_COLORS[ring.psi] ?? '#facc15'}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* Impact site */}
+        <circle cx={sx} cy={sy} r={markerRadius} fill="#f43f5e" stroke="#fff" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      {effects && (
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-400">
+          {effects.overpressureRings.map(ring => (
+            <span key={ring.psi} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: OVERPRESSURE_COLORS[ring.psi] }}></span>
+              {ring.psi} psi · {ring.radiusKm.toFixed(1)} km
+            </span>
+          ))}
+          {thermal && (
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-purple-500"></span>
+              3rd-degree burns · {thermal.radiusKm.toFixed(1)} km
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
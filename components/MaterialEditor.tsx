@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { CompositionElement, Material } from '../types';
+import { COLORS, MATERIAL_TEMPLATES } from '../constants';
+import { bulkDensity } from '../services/materials';
+import { validateMaterial } from '../services/validation';
+import { Layers, Plus, Save, Trash2, X } from 'lucide-react';
+
+interface Props {
+  initial: Material; // a custom material to edit, or a fresh copy to create
+  starters: Material[]; // registry materials offered as starting points
+  isNew: boolean;
+  onSave: (material: Material) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:border-cyan-500 transition-all font-mono text-xs text-white";
+const labelClass = "text-[10px] text-slate-500 uppercase font-bold ml-1";
+
+export const MaterialEditor: React.FC<Props> = ({ initial, starters, isNew, onSave, onDelete, onCancel }) => {
+  const [draft, setDraft] = useState<Material>(initial);
+  const errors = validateMaterial(draft);
+
+  const setNumber = (key: 'grainDensity' | 'strength', raw: string) => setDraft(d => ({ ...d, [key]: parseFloat(raw) }));
+
+  const setComponent = (index: number, patch: Partial<CompositionElement>) =>
+    setDraft(d => ({ ...d, composition: d.composition.map((c, i) => i === index ? { ...c, ...patch } : c) }));
+
+  const addComponent = () => setDraft(d => ({
+    ...d,
+    composition: [...d.composition, { element: '', percentage: 0, fill: COLORS[d.composition.length % COLORS.length] }]
+  }));
+
+  const removeComponent = (index: number) =>
+    setDraft(d => ({ ...d, composition: d.composition.filter((_, i) => i !== index) }));
+
+  // Copy the physical properties only; the draft keeps its own id
+  const applyStarter = (key: string) => {
+    const template = MATERIAL_TEMPLATES.find(t => t.name === key) ?? starters.find(m => m.id === key);
+    if (!template) return;
+    setDraft(d => ({
+      ...d,
+      name: isNew ? template.name : d.name,
+      description: template.description,
+      grainDensity: template.grainDensity,
+      porosity: template.porosity,
+      strength: template.strength,
+      composition: template.composition.map(c => ({ ...c }))
+    }));
+  };
+
+  const density = bulkDensity(draft);
+
+  return (
+    <div className="md:col-span-2 lg:col-span-4 bg-slate-950/60 border border-slate-700 rounded-2xl p-4 space-y-4">
+      <div className="flex items-center gap-2 text-slate-300">
+        <Layers size={16} className="text-emerald-400" />
+        <span className="text-xs uppercase font-bold">{isNew ? 'New Material' : 'Edit Material'}</span>
+        <select value="" onChange={e => applyStarter(e.target.value)} className="ml-auto bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none">
+          <option value="" disabled>Start from...</option>
+          {MATERIAL_TEMPLATES.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+          {starters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <button type="button" onClick={onCancel} className="text-slate-400 hover:text-white" title="Close editor">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+        <div className="space-y-1 lg:col-span-2">
+          <label className={labelClass}>Name</label>
+          <input type="text" value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Grain Density (kg/m³)</label>
+          <input type="number" step="any" value={Number.isFinite(draft.grainDensity) ? draft.grainDensity : ''} onChange={e => setNumber('grainDensity', e.target.value)} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Porosity (%)</label>
+          <input
+            type="number"
+            step="any"
+            value={Number.isFinite(draft.porosity) ? parseFloat((draft.porosity * 100).toPrecision(10)) : ''}
+            onChange={e => setDraft(d => ({ ...d, porosity: parseFloat(e.target.value) / 100 }))}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Strength (Pa)</label>
+          <input type="number" step="any" value={Number.isFinite(draft.strength) ? draft.strength : ''} onChange={e => setNumber('strength', e.target.value)} className={inputClass} />
+        </div>
+        <div className="space-y-1 md:col-span-2 lg:col-span-5">
+          <label className={labelClass}>Description</label>
+          <input type="text" value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Composition (%)</span>
+          <button type="button" onClick={addComponent} className="flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300">
+            <Plus size={12} /> Component
+          </button>
+        </div>
+        {draft.composition.map((c, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: c.fill }}></span>
+            <input type="text" value={c.element} onChange={e => setComponent(i, { element: e.target.value })} placeholder="Component" className={inputClass} />
+            <input
+              type="number"
+              step="any"
+              value={Number.isFinite(c.percentage) ? c.percentage : ''}
+              onChange={e => setComponent(i, { percentage: parseFloat(e.target.value) })}
+              className={`${inputClass} w-24`}
+            />
+            <button type="button" onClick={() => removeComponent(i)} className="text-slate-500 hover:text-red-400" title="Remove component">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-slate-400 font-mono">
+        Bulk density ρ = ρ_grain × (1 − φ) = {Number.isFinite(density) ? density.toLocaleString(undefined, { maximumFractionDigits: 0 }) : '—'} kg/m³
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-400 space-y-1">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {!isNew && (
+          <button type="button" onClick={onDelete} className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-700 text-xs uppercase font-bold text-slate-400 hover:text-red-400 hover:border-red-500 transition-colors">
+            <Trash2 size={14} /> Delete
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={errors.length > 0}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-cyan-700 hover:bg-cyan-600 text-xs uppercase font-bold text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          <Save size={14} /> Save Material
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryItem, HistoryQuery, HistorySort, Material, ReportSource } from '../types';
+import { DEFAULT_HISTORY_QUERY } from '../constants';
+import { queryHistory } from '../services/missionLog';
+import { downloadText, historyToCsv } from '../services/report';
+import { ReportActions } from './ReportActions';
+import { HazardBadges } from './HazardBadges';
+import { History as HistoryIcon, X, Search, Pin, Pencil, Trash2, Check, SlidersHorizontal, GitCompare, Download } from 'lucide-react';
+
+interface Props {
+  items: HistoryItem[];
+  isOpen: boolean;
+  onClose: () => void;
+  onLoad: (item: HistoryItem) => void;
+  onRename: (id: string, label: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  selectedIds: string[];
+  onToggleSelect: (id: string) => void;
+  onCompare: () => void;
+  onPrint: (source: ReportSource) => void;
+  materials: Material[];
+}
+
+const controlClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-cyan-500";
+
+const parseBound = (value: string): number | null => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const MissionLog: React.FC<Props> = ({ items, isOpen, onClose, onLoad, onRename, onTogglePin, onDelete, selectedIds, onToggleSelect, onCompare, onPrint, materials }) => {
+  const [query, setQuery] = useState<HistoryQuery>(DEFAULT_HISTORY_QUERY);
+  const [showFilters, setShowFilters] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const visible = useMemo(() => queryHistory(items, query), [items, query]);
+
+  const startRename = (item: HistoryItem) => {
+    setEditingId(item.id);
+    setDraftLabel(item.label);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftLabel.trim()) onRename(editingId, draftLabel.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className={`fixed inset-y-0 right-0 w-80 bg-slate-950/95 backdrop-blur-xl border-l border-slate-800 transform transition-transform duration-300 z-50 ${isOpen ? 'translate-x-0' : 'translate-x-full'} lg:translate-x-0`}>
+      <div className="p-6 h-full flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-display font-bold text-cyan-400">Mission Logs</h2>
+          <button onClick={onClose} className="lg:hidden text-slate-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Search & Filters */}
+        <div className="space-y-2 mb-4">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input
+                type="search"
+                value={query.text}
+                onChange={e => setQuery(q => ({ ...q, text: e.target.value }))}
+                placeholder="Search missions..."
+                className={`${controlClass} w-full pl-7`}
+              />
+            </div>
+            <button
+              onClick={() => setShowFilters(f => !f)}
+              className={`p-2 rounded-lg border ${showFilters ? 'border-cyan-500 text-cyan-400' : 'border-slate-700 text-slate-400'} hover:text-white`}
+              title="Filters"
+            >
+              <SlidersHorizontal size={14} />
+            </button>
+            <button
+              onClick={() => downloadText('mission-log.csv', historyToCsv(items), 'text/csv')}
+              disabled={items.length === 0}
+              className="p-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white disabled:opacity-40"
+              title="Export all missions as CSV"
+            >
+              <Download size={14} />
+            </button>
+          </div>
+          {showFilters && (
+            <div className="grid grid-cols-2 gap-2">
+              <select value={query.outcome} onChange={e => setQuery(q => ({ ...q, outcome: e.target.value as HistoryQuery['outcome'] }))} className={controlClass}>
+                <option value="all">Hit & miss</option>
+                <option value="hit">Impacts</option>
+                <option value="miss">Misses</option>
+              </select>
+              <select value={query.type} onChange={e => setQuery(q => ({ ...q, type: e.target.value }))} className={controlClass}>
+                <option value="all">All types</option>
+                {materials.map(material => (
+                  <option key={material.id} value={material.id}>{material.name}</option>
+                ))}
+              </select>
+              <input type="number" step="any" placeholder="Min MT" value={query.minEnergy ?? ''} onChange={e => setQuery(q => ({ ...q, minEnergy: parseBound(e.target.value) }))} className={controlClass} />
+              <input type="number" step="any" placeholder="Max MT" value={query.maxEnergy ?? ''} onChange={e => setQuery(q => ({ ...q, maxEnergy: parseBound(e.target.value) }))} className={controlClass} />
+              <select value={query.sort} onChange={e => setQuery(q => ({ ...q, sort: e.target.value as HistorySort }))} className={`${controlClass} col-span-2`}>
+                <option value="newest">Newest first</option>
+                <option value="oldest">Oldest first</option>
+                <option value="energy">Highest energy</option>
+                <option value="probability">Highest probability</option>
+                <option value="name">Name A–Z</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        {selectedIds.length > 0 && (
+          <button
+            onClick={onCompare}
+            disabled={selectedIds.length < 2}
+            className="mb-4 w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-cyan-700 hover:bg-cyan-600 text-white text-xs font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <GitCompare size={14} />
+            {selectedIds.length < 2 ? 'Select another to compare' : `Compare ${selectedIds.length} scenarios`}
+          </button>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar">
+          {visible.length === 0 ? (
+            <div className="text-center text-slate-600 mt-10">
+              <HistoryIcon size={48} className="mx-auto mb-3 opacity-20" />
+              <p>{items.length === 0 ? 'No previous scans.' : 'No missions match.'}</p>
+            </div>
+          ) : (
+            visible.map(item => (
+              <div
+                key={item.id}
+                className={`w-full text-left p-4 rounded-xl bg-slate-900 border ${item.pinned ? 'border-cyan-800' : 'border-slate-800'} hover:border-cyan-500 hover:bg-slate-800 transition-all group relative overflow-hidden`}
+              >
+                <div className="flex justify-between items-start mb-1 relative z-10 gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(item.id)}
+                    onChange={() => onToggleSelect(item.id)}
+                    className="mt-0.5 w-3.5 h-3.5 accent-cyan-500 cursor-pointer"
+                    title="Select for comparison"
+                  />
+                  {editingId === item.id ? (
+                    <form onSubmit={e => { e.preventDefault(); commitRename(); }} className="flex-1 flex gap-1">
+                      <input
+                        autoFocus
+                        value={draftLabel}
+                        onChange={e => setDraftLabel(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => { if (e.key === 'Escape') setEditingId(null); }}
+                        className={`${controlClass} flex-1 min-w-0`}
+                      />
+                      <button type="submit" className="text-emerald-400"><Check size={14} /></button>
+                    </form>
+                  ) : (
+                    <button onClick={() => onLoad(item)} className="font-bold text-white text-sm group-hover:text-cyan-300 text-left truncate flex-1">
+                      {item.label}
+                    </button>
+                  )}
+                  <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${item.result.isHit ? 'bg-red-900/50 text-red-400' : 'bg-emerald-900/50 text-emerald-400'}`}>
+                    {item.result.isHit ? 'IMPACT' : 'MISS'}
+                  </span>
+                </div>
+                <div className="mb-1 relative z-10">
+                  <HazardBadges hazard={item.result.hazard} compact />
+                </div>
+                <div className="flex justify-between items-center relative z-10">
+                  <button onClick={() => onLoad(item)} className="text-xs text-slate-500 font-mono text-left">
+                    E: {item.result.kineticEnergyMegatons.toFixed(1)} MT · {new Date(item.createdAt).toLocaleDateString()}
+                  </button>
+                  <div className="flex gap-2 text-slate-500">
+                    <button onClick={() => onTogglePin(item.id)} className={item.pinned ? 'text-cyan-400' : 'hover:text-white'} title={item.pinned ? 'Unpin' : 'Pin'}>
+                      <Pin size={13} />
+                    </button>
+                    <button onClick={() => setExportingId(id => id === item.id ? null : item.id)} className={exportingId === item.id ? 'text-cyan-400' : 'hover:text-white'} title="Export report">
+                      <Download size={13} />
+                    </button>
+                    <button onClick={() => startRename(item)} className="hover:text-white" title="Rename">
+                      <Pencil size={13} />
+                    </button>
+                    <button onClick={() => onDelete(item.id)} className="hover:text-red-400" title="Delete">
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                </div>
+                {exportingId === item.id && (
+                  <div className="mt-3 relative z-10">
+                    <ReportActions source={item} onPrint={onPrint} compact />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
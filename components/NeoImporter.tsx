@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { AsteroidInput, Diagnostic, NeoRecord, NeoSource } from '../types';
+import { parseNeoCatalog } from '../services/neoImport';
+import { validateInput } from '../services/validation';
+import { FileUp, Search, X } from 'lucide-react';
+
+interface Props {
+  base: AsteroidInput; // current form, for fields the catalog does not supply
+  onApply: (fields: Partial<AsteroidInput>) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<NeoSource, string> = {
+  cneos: 'CNEOS',
+  sentry: 'Sentry',
+  sbdb: 'SBDB',
+  mpc: 'MPC'
+};
+
+// Rendering thousands of MPCORB rows at once stalls the page; search narrows it down
+const MAX_VISIBLE = 200;
+
+export const NeoImporter: React.FC<Props> = ({ base, onApply, onClose }) => {
+  const [records, setRecords] = useState<NeoRecord[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setRecords(parseNeoCatalog(await file.text()));
+      setError(null);
+    } catch (err) {
+      setRecords([]);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  // Only report problems with values the record itself supplies
+  const recordDiagnostics = (record: NeoRecord): Diagnostic[] =>
+    validateInput({ ...base, ...record.fields })
+      .filter(d => d.severity !== 'tip' && d.field !== null && d.field in record.fields);
+
+  const matches = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    return text ? records.filter(r => r.name.toLowerCase().includes(text)) : records;
+  }, [records, search]);
+
+  return (
+    <div className="mb-6 bg-slate-950/60 border border-slate-700 rounded-2xl p-4 space-y-4 relative z-10">
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-sm text-white cursor-pointer">
+          <FileUp size={16} className="text-cyan-400" />
+          <span>{fileName ?? 'Choose catalog file'}</span>
+          <input type="file" accept=".json,.csv,.txt,.dat" onChange={handleFile} className="hidden" />
+        </label>
+        <button type="button" onClick={onClose} className="text-slate-400 hover:text-white" title="Close importer">
+          <X size={20} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Accepts CNEOS close-approach and Sentry exports (CSV or API JSON), SBDB JSON and MPC orbit records.
+        Diameters missing from the file are derived from H with an assumed albedo.
+      </p>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {records.length > 0 && (
+        <>
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+            <input
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder={`Search ${records.length.toLocaleString()} objects...`}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-8 pr-3 py-2 text-xs text-white focus:outline-none focus:border-cyan-500"
+            />
+          </div>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-800">
+            {matches.slice(0, MAX_VISIBLE).map(record => (
+              <button
+                type="button"
+                key={record.id}
+                onClick={() => onApply(record.fields)}
+                className="w-full text-left px-3 py-2 hover:bg-slate-800 transition-colors"
+              >
+                <div className="flex justify-between items-baseline gap-2">
+                  <span className="text-sm font-bold text-white truncate">{record.name}</span>
+                  <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded bg-slate-800 text-cyan-400">{SOURCE_LABELS[record.source]}</span>
+                </div>
+                <div className="text-xs text-slate-500 font-mono flex flex-wrap gap-x-4">
+                  {record.absoluteMagnitude !== null && <span>H {record.absoluteMagnitude.toFixed(2)}</span>}
+                  {record.fields.diameter !== undefined && (
+                    <span>
+                      D {record.fields.diameter.toLocaleString()} m{record.diameterFromH ? ` (from H, p=${record.albedo})` : ''}
+                    </span>
+                  )}
+                  {record.vInfinity !== null && <span>v∞ {record.vInfinity.toFixed(2)} km/s</span>}
+                  {record.fields.distance !== undefined && <span>CA {record.fields.distance.toLocaleString()} km</span>}
+                  {record.closeApproachDate && <span>{record.closeApproachDate}</span>}
+                  {record.spectralClass && <span>Class {record.spectralClass}</span>}
+                </div>
+                {recordDiagnostics(record).map(d => (
+                  <div key={d.message} className={`text-xs ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>{d.message}</div>
+                ))}
+              </button>
+            ))}
+            {matches.length === 0 && <p className="text-center text-sm text-slate-600 py-4">No objects match.</p>}
+          </div>
+          {matches.length > MAX_VISIBLE && (
+            <p className="text-xs text-slate-500">Showing {MAX_VISIBLE} of {matches.length.toLocaleString()} matches; refine the search.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ReportSource } from '../types';
+import { FIELD_LABELS, NUMERIC_FIELDS, POPULATION_CAVEAT, TORINO_ZONES } from '../constants';
+import { derivationText, encounterTime, summaryText } from '../services/report';
+import { materialName } from '../services/materials';
+import { shapeLabel } from '../services/shape';
+import { formatTimeToEncounter, torinoLevel } from '../services/hazard';
+import { formatPeople } from '../services/exposure';
+
+interface Props {
+  source: ReportSource;
+}
+
+const fmt = (value: number, digits = 2): string => value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mb-6 break-inside-avoid">
+    <h2 className="text-lg font-bold border-b border-slate-400 mb-2 pb-1">{title}</h2>
+    {children}
+  </section>
+);
+
+const Rows: React.FC<{ rows: [string, string][] }> = ({ rows }) => (
+  <table className="w-full text-sm">
+    <tbody>
+      {rows.map(([label, value]) => (
+        <tr key={label} className="border-b border-slate-200">
+          <td className="py-1 pr-4 text-slate-600 w-1/2">{label}</td>
+          <td className="py-1 font-mono">{value}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * Paper layout of a report: black on white, no charts. Rendered only for
+ * the browser's print dialog, which can save it as PDF.
+ */
+export const PrintReport: React.FC<Props> = ({ source }) => {
+  const { label, input, result } = source;
+  const { entry, effects, site, ocean, ensemble } = result;
+
+  return (
+    <div className="bg-white text-black p-8 max-w-4xl mx-auto font-sans">
+      <header className="mb-6">
+        <h1 className="text-2xl font-bold">Cosmic Impact Report: {label}</h1>
+        <p className="text-xs text-slate-500">Generated {new Date(result.timestamp).toLocaleString()} by the local physics engine</p>
+      </header>
+
+      <Section title="Summary">
+        <pre className="text-xs whitespace-pre-wrap font-mono bg-slate-100 p-3 rounded">{summaryText(result.analysisSummary)}</pre>
+      </Section>
+
+      <div className="grid grid-cols-2 gap-8">
+        <Section title="Outcome">
+          <Rows rows={[
+            ['Trajectory', result.isHit ? 'Impact' : 'Miss'],
+            ['Impact probability', `${result.impactProbability}%`],
+            ['Kinetic energy', `${fmt(result.kineticEnergyMegatons)} MT`],
+            ['Time to encounter', formatTimeToEncounter(result.hazard.timeToImpact)],
+            [result.isHit ? 'Atmospheric entry time' : 'Closest approach time', encounterTime(result.timeline)],
+            ['Torino scale', `${result.hazard.torino} (${TORINO_ZONES[torinoLevel(result.hazard.torino).zone]})`],
+            ['Palermo scale', result.hazard.palermo === null ? 'Undefined' : result.hazard.palermo.toFixed(2)],
+            ['Atmospheric entry', entry.isAirburst ? `Airburst at ${fmt(entry.airburstAltitude ?? 0, 1)} km` : `Surface at ${fmt(entry.impactVelocity, 1)} km/s`],
+            ['Impact site', `${site.latitude.toFixed(2)}°N, ${site.longitude.toFixed(2)}°E (${site.terrain})`],
+            ['Crater diameter', result.craterSizeMeters > 0 ? `${fmt(result.craterSizeMeters, 0)} m` : 'None'],
+            ['Fireball radius', `${fmt(effects.fireballRadiusKm)} km`],
+            ['Seismic magnitude', effects.seismicMagnitude === null ? 'None' : `M ${effects.seismicMagnitude.toFixed(1)}`],
+            ['People exposed', formatPeople(result.exposure.population)],
+            ['Estimated casualties', `${formatPeople(result.exposure.fatalities)} killed, ${formatPeople(result.exposure.injuries)} injured`]
+          ]} />
+          <p className="text-xs text-slate-500 mt-2">{POPULATION_CAVEAT}</p>
+        </Section>
+
+        <Section title="Inputs">
+          <Rows rows={[
+            ['Name', input.name],
+            ['Composition', materialName(input.type)],
+            ['Shape', shapeLabel(input.shape)],
+            ...NUMERIC_FIELDS.map((field): [string, string] => [FIELD_LABELS[field], fmt(input[field], 4)])
+          ]} />
+        </Section>
+      </div>
+
+      <Section title="Blast and Thermal Effects">
+        <Rows rows={[
+          ...effects.overpressureRings.map((r): [string, string] => [`${r.psi} psi overpressure`, `${fmt(r.radiusKm)} km`]),
+          ...effects.thermalRings.map((r): [string, string] => [r.label, `${fmt(r.radiusKm)} km`])
+        ]} />
+      </Section>
+
+      {ocean && (
+        <Section title="Ocean Impact">
+          <Rows rows={[
+            ['Water cavity', `${fmt(ocean.cavityDiameter, 0)} m wide, ${fmt(ocean.cavityDepth, 0)} m deep`],
+            ['Seafloor crater', ocean.seafloorCrater ? `${fmt(ocean.seafloorCraterDiameter, 0)} m` : 'None'],
+            ...ocean.waveHeights.map((w): [string, string] => [`Wave at ${fmt(w.distanceKm, 0)} km`, `${fmt(w.amplitudeMeters)} m`])
+          ]} />
+        </Section>
+      )}
+
+      {ensemble && (
+        <Section title={`Uncertainty Ensemble (${ensemble.samples} samples, seed ${ensemble.seed})`}>
+          <Rows rows={[
+            ['Hit fraction', `${(ensemble.hitFraction * 100).toFixed(1)}%`],
+            ['Energy P5 / P50 / P95', `${fmt(ensemble.energy.p5)} / ${fmt(ensemble.energy.p50)} / ${fmt(ensemble.energy.p95)} MT`],
+            ['Crater P5 / P50 / P95', `${fmt(ensemble.crater.p5, 0)} / ${fmt(ensemble.crater.p50, 0)} / ${fmt(ensemble.crater.p95, 0)} m`]
+          ]} />
+        </Section>
+      )}
+
+      <Section title="Dimensional Analysis">
+        <ol className="space-y-3">
+          {result.dimensionalProcess.map((step, i) => (
+            <li key={i} className="break-inside-avoid text-sm">
+              <div className="font-bold">{i + 1}. {step.step}</div>
+              <div className="font-mono text-xs bg-slate-100 px-2 py-1 rounded my-1">{step.equation}</div>
+              <div className="text-slate-700">{step.explanation}</div>
+              <div className="font-mono">= {step.result}</div>
+              {step.derivation && <div className="font-mono text-xs text-slate-500">Units: {derivationText(step.derivation)}</div>}
+            </li>
+          ))}
+        </ol>
+      </Section>
+    </div>
+  );
+};
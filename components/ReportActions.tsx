@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { ReportSource } from '../types';
+import { downloadText, generateMarkdown, generateReportJson, reportFileName } from '../services/report';
+import { FileText, Braces, Printer, Link as LinkIcon } from 'lucide-react';
+
+interface Props {
+  source: ReportSource;
+  onPrint: (source: ReportSource) => void;
+  compact?: boolean; // smaller buttons, for the Mission Logs sidebar
+  shareUrl?: string; // adds a copy-link button
+}
+
+export const ReportActions: React.FC<Props> = ({ source, onPrint, compact, shareUrl }) => {
+  const [copied, setCopied] = useState(false);
+
+  const actions = [
+    {
+      label: 'Markdown',
+      icon: FileText,
+      run: () => downloadText(reportFileName(source.label, 'md'), generateMarkdown(source), 'text/markdown')
+    },
+    {
+      label: 'JSON',
+      icon: Braces,
+      run: () => downloadText(reportFileName(source.label, 'json'), JSON.stringify(generateReportJson(source), null, 2), 'application/json')
+    },
+    {
+      label: 'Print / PDF',
+      icon: Printer,
+      run: () => onPrint(source)
+    }
+  ];
+
+  if (shareUrl) {
+    actions.push({
+      label: copied ? 'Copied' : 'Copy Link',
+      icon: LinkIcon,
+      run: () => {
+        navigator.clipboard.writeText(shareUrl)
+          .then(() => { setCopied(true); setTimeout(() => setCopied(false), 2000); })
+          .catch(() => window.prompt('Copy this link:', shareUrl));
+      }
+    });
+  }
+
+  return (
+    <div className={`flex flex-wrap ${compact ? 'gap-1' : 'gap-2'}`}>
+      {actions.map(({ label, icon: Icon, run }) => (
+        <button
+          key={label}
+          type="button"
+          onClick={run}
+          title={label}
+          className={compact
+            ? 'flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-[10px] uppercase font-bold text-slate-300'
+            : 'flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-700 hover:border-cyan-500 text-xs uppercase font-bold text-slate-400 hover:text-white transition-colors'}
+        >
+          <Icon size={compact ? 12 : 14} />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
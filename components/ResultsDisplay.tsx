@@ -1,14 +1,30 @@
 import React from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, BodyShape, UnitPreferences } from '../types';
+import { ENERGY_UNITS } from '../constants';
+import { convert, formatQuantity } from '../services/units';
+import { formatDuration } from '../services/hazard';
+import { referenceCraters } from '../services/reference';
 import { DimensionalStepCard } from './DimensionalStepCard';
+import { EffectsPanel } from './EffectsPanel';
+import { EnsemblePanel } from './EnsemblePanel';
+import { TrajectoryViewer } from './TrajectoryViewer';
+import { ImpactMap } from './ImpactMap';
+import { TsunamiPanel } from './TsunamiPanel';
+import { ShapePreview } from './ShapePreview';
+import { HazardBadges } from './HazardBadges';
+import { ExposurePanel } from './ExposurePanel';
+import { TimelinePanel } from './TimelinePanel';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { AlertTriangle, CheckCircle, Activity, Globe, Zap } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Activity, Globe, Zap, Flame, MapPin } from 'lucide-react';
 
 interface Props {
   result: AnalysisResult | null;
+  actions?: React.ReactNode; // export controls shown under the summary
+  units: UnitPreferences;
+  shape?: BodyShape; // of the analysed input, for the 3D preview
 }
 
-export const ResultsDisplay: React.FC<Props> = ({ result }) => {
+export const ResultsDisplay: React.FC<Props> = ({ result, actions, units, shape }) => {
   if (!result) {
     return (
       <div className="h-full flex items-center justify-center flex-col text-slate-500 p-10 border-2 border-dashed border-slate-800 rounded-3xl bg-slate-900/30">
@@ -22,12 +38,11 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
   const impactColor = result.impactProbability > 50 ? 'text-red-500' : 'text-emerald-500';
   const ImpactIcon = result.impactProbability > 50 ? AlertTriangle : CheckCircle;
 
-  // Data for Crater Size comparison chart (log scale visual approximation)
+  // Data for Crater Size comparison chart: the observed craters from the validation set, by size
   const craterData = [
-    { name: 'Barringer Crater', size: 1200 },
-    { name: 'This Impact', size: result.craterSizeMeters },
-    { name: 'Chicxulub', size: 150000 },
-  ];
+    ...referenceCraters().map(crater => ({ name: crater.label, size: crater.diameter })),
+    { name: 'This Impact', size: result.craterSizeMeters }
+  ].sort((a, b) => a.size - b.size);
 
   return (
     <div className="space-y-8 animate-fade-in">
@@ -43,12 +58,21 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
                 </h2>
               </div>
               <p className="text-slate-400 max-w-xl">{result.analysisSummary}</p>
+              <div className="mt-4">
+                <HazardBadges hazard={result.hazard} />
+              </div>
+              {actions && <div className="mt-4">{actions}</div>}
             </div>
             <div className="text-right bg-slate-900/50 p-4 rounded-xl border border-slate-800 min-w-[150px]">
               <div className="text-sm text-slate-500 uppercase tracking-wider mb-1">Probability</div>
               <div className={`text-4xl font-mono font-bold ${impactColor}`}>
                 {result.impactProbability}%
               </div>
+              <div className="text-xs text-slate-500 font-mono mt-1">
+                {result.hazard.timeToImpact === null
+                  ? 'Never reaches the starting distance'
+                  : `${result.isHit ? 'Atmospheric entry' : 'Closest approach'} in ${formatDuration(result.hazard.timeToImpact)}`}
+              </div>
             </div>
           </div>
         </div>
@@ -71,6 +95,7 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
                 data={step} 
                 index={index} 
                 isLast={index === result.dimensionalProcess.length - 1} 
+                units={units}
               />
             ))}
           </div>
@@ -78,6 +103,9 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
 
         {/* Right Column: Data Visualization */}
         <div className="space-y-8">
+          {/* Body Shape */}
+          <ShapePreview body={result.body} shape={shape} units={units} />
+
           {/* Energy Card */}
           <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
             <div className="flex items-center gap-3 mb-6">
@@ -86,15 +114,15 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
             </div>
             <div className="grid grid-cols-2 gap-4 mb-6">
               <div className="bg-slate-800/50 p-4 rounded-xl">
-                <div className="text-xs text-slate-500 uppercase">Megatons (TNT)</div>
-                <div className="text-2xl font-mono text-yellow-400 font-bold truncate" title={result.kineticEnergyMegatons.toString()}>
-                  {result.kineticEnergyMegatons.toLocaleString(undefined, { maximumFractionDigits: 2 })} MT
+                <div className="text-xs text-slate-500 uppercase">{ENERGY_UNITS[units.energy]}</div>
+                <div className="text-2xl font-mono text-yellow-400 font-bold truncate" title={`${result.kineticEnergyMegatons} Mt`}>
+                  {formatQuantity(result.kineticEnergyMegatons, 'Mt', units)}
                 </div>
               </div>
               <div className="bg-slate-800/50 p-4 rounded-xl">
                 <div className="text-xs text-slate-500 uppercase">Hiroshima Equiv.</div>
                 <div className="text-2xl font-mono text-orange-400 font-bold truncate">
-                  ~{(result.kineticEnergyMegatons * 66).toLocaleString(undefined, { maximumFractionDigits: 0 })}x
+                  ~{convert(result.kineticEnergyMegatons, 'Mt', 'Hiroshima').toLocaleString(undefined, { maximumFractionDigits: 0 })}x
                 </div>
               </div>
             </div>
@@ -135,6 +163,62 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
             </div>
           </div>
 
+          {/* Population Exposure */}
+          <ExposurePanel exposure={result.exposure} isHit={result.isHit} hasOcean={result.ocean !== null} units={units} />
+
+          {/* Atmospheric Entry */}
+          <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <Flame className="text-orange-400" />
+              <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Atmospheric Entry</h3>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-slate-800/50 p-4 rounded-xl">
+                <div className="text-xs text-slate-500 uppercase">Breakup Altitude</div>
+                <div className="text-2xl font-mono text-cyan-300 font-bold truncate">
+                  {result.entry.breakupAltitude === null ? 'Intact' : formatQuantity(result.entry.breakupAltitude, 'km', units)}
+                </div>
+              </div>
+              <div className="bg-slate-800/50 p-4 rounded-xl">
+                <div className="text-xs text-slate-500 uppercase">Outcome</div>
+                <div className={`text-2xl font-mono font-bold truncate ${result.entry.isAirburst ? 'text-orange-400' : 'text-red-400'}`}>
+                  {result.entry.isAirburst ? 'Airburst' : 'Ground Impact'}
+                </div>
+              </div>
+              {result.entry.isAirburst ? (
+                <>
+                  <div className="bg-slate-800/50 p-4 rounded-xl">
+                    <div className="text-xs text-slate-500 uppercase">Burst Altitude</div>
+                    <div className="text-2xl font-mono text-orange-300 font-bold truncate">
+                      {formatQuantity(result.entry.airburstAltitude!, 'km', units)}
+                    </div>
+                  </div>
+                  <div className="bg-slate-800/50 p-4 rounded-xl">
+                    <div className="text-xs text-slate-500 uppercase">Burst Yield</div>
+                    <div className="text-2xl font-mono text-yellow-400 font-bold truncate">
+                      {formatQuantity(result.entry.airburstYieldMegatons, 'Mt', units)}
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="bg-slate-800/50 p-4 rounded-xl">
+                    <div className="text-xs text-slate-500 uppercase">Residual Velocity</div>
+                    <div className="text-2xl font-mono text-orange-300 font-bold truncate">
+                      {formatQuantity(result.entry.impactVelocity, 'km/s', units)}
+                    </div>
+                  </div>
+                  <div className="bg-slate-800/50 p-4 rounded-xl">
+                    <div className="text-xs text-slate-500 uppercase">Ground Energy</div>
+                    <div className="text-2xl font-mono text-yellow-400 font-bold truncate">
+                      {formatQuantity(result.entry.impactEnergyMegatons, 'Mt', units)}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
           {/* Crater Comparison */}
           <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
             <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider mb-6">Crater Impact Size (m)</h3>
@@ -155,6 +239,35 @@ export const ResultsDisplay: React.FC<Props> = ({ result }) => {
           </div>
         </div>
       </div>
+
+      {/* Encounter Timeline */}
+      <TimelinePanel timeline={result.timeline} isHit={result.isHit} units={units} />
+
+      {/* Encounter Geometry */}
+      <TrajectoryViewer encounter={result.encounter} />
+
+      {/* Impact Site */}
+      <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+          <div className="flex items-center gap-3">
+            <MapPin className="text-rose-400" />
+            <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Impact Site</h3>
+          </div>
+          <div className="text-xs text-slate-400 font-mono">
+            {result.site.latitude.toFixed(2)}°, {result.site.longitude.toFixed(2)}° · {result.site.terrain === 'land' ? 'Land target (crust)' : 'Ocean target (water)'}
+          </div>
+        </div>
+        <ImpactMap latitude={result.site.latitude} longitude={result.site.longitude} effects={result.effects} />
+      </div>
+
+      {/* Damage Effects */}
+      <EffectsPanel effects={result.effects} />
+
+      {/* Ocean Impact */}
+      {result.ocean && <TsunamiPanel ocean={result.ocean} />}
+
+      {/* Monte Carlo Ensemble */}
+      {result.ensemble && <EnsemblePanel ensemble={result.ensemble} />}
     </div>
   );
 };
\ No newline at end of file
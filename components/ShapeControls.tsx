@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { BodyShape, Diagnostic, EllipsoidShape } from '../types';
+import { convert } from '../services/units';
+import { ellipsoidVolume, equivalentDiameter, meshVolume, parseShapeModel, shapeLabel } from '../services/shape';
+import { FieldDiagnostics } from './FieldDiagnostics';
+import { Box, FileUp } from 'lucide-react';
+
+interface Props {
+  shape?: BodyShape;
+  diameter: number; // m, the current volume-equivalent diameter
+  lengthUnit: string; // display unit for axes
+  diagnostics: Diagnostic[];
+  onChange: (shape: BodyShape | undefined, diameter: number) => void;
+}
+
+type ShapeKind = 'sphere' | BodyShape['kind'];
+
+const KIND_LABELS: Record<ShapeKind, string> = {
+  sphere: 'Sphere',
+  ellipsoid: 'Ellipsoid',
+  mesh: 'Shape Model'
+};
+
+const AXES = ['a', 'b', 'c'] as const;
+
+// Shape model files rarely state their unit; radar and spacecraft models are mostly in km
+const MODEL_UNITS = ['km', 'm'];
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:border-cyan-500 transition-all font-mono text-xs text-white";
+
+export const ShapeControls: React.FC<Props> = ({ shape, diameter, lengthUnit, diagnostics, onChange }) => {
+  const [modelUnit, setModelUnit] = useState('km');
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const kind: ShapeKind = shape?.kind ?? 'sphere';
+
+  const setEllipsoid = (next: EllipsoidShape) => {
+    const volume = ellipsoidVolume(next);
+    // Keep the last good diameter while an axis is being retyped
+    onChange(next, volume > 0 ? equivalentDiameter(volume) : diameter);
+  };
+
+  const handleKind = (next: ShapeKind) => {
+    setError(null);
+    if (next === 'sphere') onChange(undefined, diameter);
+    // Start from the current sphere so the mass does not jump
+    if (next === 'ellipsoid') setEllipsoid({ kind: 'ellipsoid', a: diameter, b: diameter, c: diameter });
+    if (next === 'mesh') fileRef.current?.click();
+  };
+
+  const handleAxis = (axis: typeof AXES[number], raw: string) => {
+    if (shape?.kind !== 'ellipsoid') return;
+    setEllipsoid({ ...shape, [axis]: convert(parseFloat(raw), lengthUnit, 'm') });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const mesh = parseShapeModel(await file.text(), file.name, convert(1, modelUnit, 'm'));
+      setError(null);
+      onChange(mesh, equivalentDiameter(meshVolume(mesh)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the shape model.');
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="md:col-span-2 lg:col-span-4 space-y-3 border-t border-slate-800 pt-4">
+      <div className="flex flex-wrap items-center gap-2 text-slate-400">
+        <Box size={16} className="text-amber-400" />
+        <span className="text-xs uppercase font-bold">Body Shape</span>
+        <div className="ml-auto flex rounded-lg border border-slate-700 overflow-hidden">
+          {(Object.keys(KIND_LABELS) as ShapeKind[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => handleKind(option)}
+              className={`px-3 py-1 text-[10px] uppercase font-bold transition-colors ${kind === option ? 'bg-amber-700 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+            >
+              {KIND_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {shape?.kind === 'ellipsoid' && (
+        <div className="grid grid-cols-3 gap-3">
+          {AXES.map(axis => (
+            <div key={axis} className="space-y-1">
+              <label className="text-[10px] text-slate-500 uppercase font-bold ml-1">Axis {axis} ({lengthUnit})</label>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                value={Number.isFinite(shape[axis]) ? parseFloat(convert(shape[axis], 'm', lengthUnit).toPrecision(10)) : ''}
+                onChange={e => handleAxis(axis, e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs text-white cursor-pointer">
+          <FileUp size={14} className="text-amber-400" />
+          <span>{shape?.kind === 'mesh' ? 'Replace shape model' : 'Upload OBJ or vertex list'}</span>
+          <input ref={fileRef} type="file" accept=".obj,.txt,.xyz,.csv" onChange={handleFile} className="hidden" />
+        </label>
+        <label className="flex items-center gap-2 text-[10px] text-slate-500 uppercase font-bold">
+          File units
+          <select value={modelUnit} onChange={e => setModelUnit(e.target.value)} className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none">
+            {MODEL_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+          </select>
+        </label>
+        {shape && <span className="text-xs text-slate-400 font-mono">{shapeLabel(shape)}</span>}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <FieldDiagnostics diagnostics={diagnostics} field="shape" />
+    </div>
+  );
+};
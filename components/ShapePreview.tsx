@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BodyGeometry, BodyShape, UnitPreferences, Vector3 } from '../types';
+import { previewMesh, shapeLabel } from '../services/shape';
+import { formatQuantity } from '../services/units';
+import { Box, RotateCcw } from 'lucide-react';
+
+interface Props {
+  body: BodyGeometry;
+  shape?: BodyShape;
+  units: UnitPreferences;
+}
+
+const HEIGHT = 260;
+const INITIAL_VIEW = { yaw: -0.6, pitch: 0.35 };
+const LIGHT: Vector3 = [-0.45, -0.6, 0.66]; // from upper left, towards the viewer
+
+export const ShapePreview: React.FC<Props> = ({ body, shape, units }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [width, setWidth] = useState(400);
+  const [view, setView] = useState(INITIAL_VIEW);
+
+  const mesh = useMemo(() => previewMesh(body.equivalentDiameter, shape), [body.equivalentDiameter, shape]);
+
+  useEffect(() => {
+    const measure = () => {
+      if (containerRef.current) setWidth(containerRef.current.clientWidth);
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Orthographic projection with flat shading; faces are painted back to front
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, width, HEIGHT);
+
+    const cy = Math.cos(view.yaw), sy = Math.sin(view.yaw);
+    const cp = Math.cos(view.pitch), sp = Math.sin(view.pitch);
+    // Yaw about the body's z axis, then pitch towards the viewer; screen y is up, depth is +y
+    const rotated = mesh.vertices.map(([x, y, z]): Vector3 => {
+      const x1 = x * cy - y * sy;
+      const y1 = x * sy + y * cy;
+      return [x1, y1 * cp - z * sp, y1 * sp + z * cp];
+    });
+    const reach = Math.max(...rotated.map(v => Math.hypot(...v))) || 1;
+    const scale = (Math.min(width, HEIGHT) / 2) * 0.85 / reach;
+
+    const faces = mesh.faces.map(face => {
+      const [p, q, r] = face.map(i => rotated[i]);
+      const u: Vector3 = [q[0] - p[0], q[1] - p[1], q[2] - p[2]];
+      const w: Vector3 = [r[0] - p[0], r[1] - p[1], r[2] - p[2]];
+      const n: Vector3 = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+      const len = Math.hypot(...n) || 1;
+      // Winding is not guaranteed, so light both sides alike
+      const light = Math.abs(n[0] * LIGHT[0] + n[1] * LIGHT[1] + n[2] * LIGHT[2]) / len;
+      return { points: [p, q, r], depth: p[1] + q[1] + r[1], light };
+    }).sort((f, g) => g.depth - f.depth);
+
+    faces.forEach(({ points, light }) => {
+      const shade = Math.round(50 + 150 * light);
+      ctx.fillStyle = ctx.strokeStyle = `rgb(${shade}, ${Math.round(shade * 0.9)}, ${Math.round(shade * 0.78)})`;
+      ctx.beginPath();
+      points.forEach(([x, , z], i) => {
+        const sx = width / 2 + x * scale;
+        const sz = HEIGHT / 2 - z * scale;
+        if (i === 0) ctx.moveTo(sx, sz); else ctx.lineTo(sx, sz);
+      });
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    });
+  }, [mesh, view, width]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView(v => ({
+      yaw: v.yaw + (e.clientX - last.x) * 0.01,
+      pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, v.pitch + (e.clientY - last.y) * 0.01))
+    }));
+  };
+
+  const [a, b, c] = body.extents;
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Box className="text-amber-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Body Shape</h3>
+        </div>
+        <button type="button" onClick={() => setView(INITIAL_VIEW)} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300" title="Reset view">
+          <RotateCcw size={16} />
+        </button>
+      </div>
+      <div ref={containerRef} className="w-full rounded-xl overflow-hidden border border-slate-800">
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: HEIGHT, touchAction: 'none' }}
+          className="cursor-grab active:cursor-grabbing"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-4 text-xs font-mono text-slate-400">
+        <span className="col-span-2 text-slate-300">{shapeLabel(shape)}</span>
+        <span>Extent {[a, b, c].map(x => formatQuantity(x, 'm', units)).join(' × ')}</span>
+        <span className="text-right">D_eq {formatQuantity(body.equivalentDiameter, 'm', units)}</span>
+        <span>Volume {formatQuantity(body.volume, 'm³', units)}</span>
+        <span className="text-right">Drag to rotate</span>
+      </div>
+    </div>
+  );
+};
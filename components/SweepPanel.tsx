@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AsteroidInput, NumericInputField, SweepAxis, SweepCell, SweepConfig, SweepMetric, SweepResult } from '../types';
+import { DEFAULT_SWEEP, FIELD_LABELS, MAX_SWEEP_STEPS, NUMERIC_FIELDS, SWEEP_METRICS } from '../constants';
+import { isAbortError, sweepInBackground } from '../services/compute';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { Grid3x3, Play, X } from 'lucide-react';
+
+interface Props {
+  base: AsteroidInput;
+  onSelect: (input: AsteroidInput) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:border-cyan-500 transition-all font-mono text-xs text-white";
+
+// Inferno-like ramp, dark for low values
+const RAMP = [[15, 23, 42], [59, 7, 100], [157, 23, 77], [234, 88, 12], [250, 204, 21]];
+
+const rampColor = (f: number): string => {
+  const t = Math.min(Math.max(f, 0), 1) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(t), RAMP.length - 2);
+  const [a, b] = [RAMP[i], RAMP[i + 1]];
+  const mix = (k: number) => Math.round(a[k] + (b[k] - a[k]) * (t - i));
+  return `rgb(${mix(0)}, ${mix(1)}, ${mix(2)})`;
+};
+
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 1e4 || (value !== 0 && Math.abs(value) < 0.01)
+    ? value.toExponential(2)
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const AxisControls: React.FC<{ label: string; axis: SweepAxis; onChange: (axis: SweepAxis) => void }> = ({ label, axis, onChange }) => (
+  <div className="bg-slate-950/50 border border-slate-800 rounded-xl p-3 space-y-2">
+    <div className="flex justify-between items-center gap-2">
+      <span className="text-xs text-slate-400 font-bold uppercase">{label}</span>
+      <select
+        value={axis.field}
+        onChange={e => onChange({ ...axis, field: e.target.value as NumericInputField })}
+        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white cursor-pointer"
+      >
+        {NUMERIC_FIELDS.map(field => <option key={field} value={field}>{FIELD_LABELS[field]}</option>)}
+      </select>
+    </div>
+    <div className="grid grid-cols-3 gap-2">
+      <input type="number" step="any" value={axis.min} title="min" onChange={e => onChange({ ...axis, min: parseFloat(e.target.value) })} className={inputClass} />
+      <input type="number" step="any" value={axis.max} title="max" onChange={e => onChange({ ...axis, max: parseFloat(e.target.value) })} className={inputClass} />
+      <input type="number" min="2" max={MAX_SWEEP_STEPS} value={axis.steps} title="steps" onChange={e => onChange({ ...axis, steps: parseInt(e.target.value, 10) || 0 })} className={inputClass} />
+    </div>
+    <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer w-fit">
+      <input type="checkbox" checked={axis.log} onChange={e => onChange({ ...axis, log: e.target.checked })} className="accent-cyan-500" />
+      Log spacing
+    </label>
+  </div>
+);
+
+const Heatmap: React.FC<{ result: SweepResult; metric: SweepMetric; onSelect: (cell: SweepCell) => void }> = ({ result, metric, onSelect }) => {
+  const { config, xValues, yValues, cells } = result;
+  const { unit, log } = SWEEP_METRICS[metric];
+  const scaled = (v: number) => (log ? (v > 0 ? Math.log10(v) : NaN) : v);
+
+  const finite = cells.map(c => scaled(c[metric])).filter(Number.isFinite);
+  const lo = finite.length ? Math.min(...finite) : 0;
+  const hi = finite.length ? Math.max(...finite) : 0;
+  const colorOf = (v: number) => {
+    const s = scaled(v);
+    if (!Number.isFinite(s)) return '#020617';
+    return rampColor(hi > lo ? (s - lo) / (hi - lo) : 0.5);
+  };
+
+  const W = 640, H = 400, left = 70, bottom = 40, top = 10, right = 10;
+  const cw = (W - left - right) / xValues.length;
+  const ch = (H - top - bottom) / yValues.length;
+  const tickEvery = (n: number) => Math.max(1, Math.ceil(n / 6));
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto select-none">
+        {cells.map(cell => (
+          <rect
+            key={`${cell.xIndex}-${cell.yIndex}`}
+            x={left + cell.xIndex * cw}
+            // Row 0 (smallest y) at the bottom
+            y={top + (yValues.length - 1 - cell.yIndex) * ch}
+            width={cw + 0.5}
+            height={ch + 0.5}
+            fill={colorOf(cell[metric])}
+            className="cursor-pointer hover:opacity-70"
+            onClick={() => onSelect(cell)}
+          >
+            <title>
+              {`${FIELD_LABELS[config.x.field]}: ${formatValue(xValues[cell.xIndex])}\n${FIELD_LABELS[config.y!.field]}: ${formatValue(yValues[cell.yIndex])}\n${SWEEP_METRICS[metric].label}: ${formatValue(cell[metric])} ${unit}${cell.isHit ? '' : ' (miss)'}`}
+            </title>
+          </rect>
+        ))}
+        {xValues.map((v, i) => i % tickEvery(xValues.length) === 0 && (
+          <text key={`x${i}`} x={left + (i + 0.5) * cw} y={H - bottom + 14} textAnchor="middle" fill="#94a3b8" fontSize={10}>{formatValue(v)}</text>
+        ))}
+        {yValues.map((v, j) => j % tickEvery(yValues.length) === 0 && (
+          <text key={`y${j}`} x={left - 6} y={top + (yValues.length - 0.5 - j) * ch + 3} textAnchor="end" fill="#94a3b8" fontSize={10}>{formatValue(v)}</text>
+        ))}
+        <text x={left + (W - left - right) / 2} y={H - 6} textAnchor="middle" fill="#cbd5e1" fontSize={11}>{FIELD_LABELS[config.x.field]}</text>
+        <text x={12} y={top + (H - top - bottom) / 2} textAnchor="middle" fill="#cbd5e1" fontSize={11} transform={`rotate(-90 12 ${top + (H - top - bottom) / 2})`}>{FIELD_LABELS[config.y!.field]}</text>
+      </svg>
+      <div className="flex items-center gap-3 text-xs text-slate-400 font-mono">
+        <span>{formatValue(log ? Math.pow(10, lo) : lo)}</span>
+        <div className="flex-1 h-2 rounded" style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(rampColor).join(', ')})` }} />
+        <span>{formatValue(log ? Math.pow(10, hi) : hi)} {unit}{log ? ' (log)' : ''}</span>
+      </div>
+    </div>
+  );
+};
+
+export const SweepPanel: React.FC<Props> = ({ base, onSelect }) => {
+  const [config, setConfig] = useState<SweepConfig>(DEFAULT_SWEEP);
+  const [twoD, setTwoD] = useState(true);
+  const [metric, setMetric] = useState<SweepMetric>('energy');
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  // Closing the panel stops a sweep still in flight
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setProgress(0);
+    try {
+      const sweep = await sweepInBackground(base, { x: config.x, y: twoD ? config.y : null }, { signal: controller.signal, onProgress: setProgress });
+      setResult(sweep);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert("Parameter sweep failed.");
+    } finally {
+      if (abort.current === controller) {
+        abort.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const { label, unit, log } = SWEEP_METRICS[metric];
+  const lineData = result && !result.config.y
+    ? result.cells.map(cell => ({ x: result.xValues[cell.xIndex], value: cell[metric] }))
+    : [];
+  const lineLog = log && lineData.every(d => d.value > 0);
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Grid3x3 className="text-amber-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Parameter Sweep</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={twoD ? '2d' : '1d'} onChange={e => setTwoD(e.target.value === '2d')} className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white cursor-pointer">
+            <option value="1d">1D · line</option>
+            <option value="2d">2D · heatmap</option>
+          </select>
+          <select value={metric} onChange={e => setMetric(e.target.value as SweepMetric)} className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white cursor-pointer">
+            {(Object.keys(SWEEP_METRICS) as SweepMetric[]).map(key => <option key={key} value={key}>{SWEEP_METRICS[key].label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <AxisControls label="X axis" axis={config.x} onChange={x => setConfig(c => ({ ...c, x }))} />
+        {twoD && config.y && <AxisControls label="Y axis" axis={config.y} onChange={y => setConfig(c => ({ ...c, y }))} />}
+      </div>
+      <p className="text-xs text-slate-500">Fields not swept are taken from the telemetry form. Range: min · max · steps (up to {MAX_SWEEP_STEPS}).</p>
+
+      {progress !== null ? (
+        <button
+          onClick={() => abort.current?.abort()}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white text-sm font-bold"
+        >
+          <X size={16} />
+          Cancel · Sweeping... {Math.round(progress * 100)}%
+        </button>
+      ) : (
+        <button
+          onClick={handleRun}
+          disabled={twoD && config.y?.field === config.x.field}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-amber-600 hover:bg-amber-500 text-white text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Play size={16} />
+          Run Sweep
+        </button>
+      )}
+
+      {result && result.config.y && (
+        <Heatmap result={result} metric={metric} onSelect={cell => onSelect(cell.input)} />
+      )}
+
+      {result && !result.config.y && (
+        <div className="h-72 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={lineData}
+              className="cursor-pointer"
+              onClick={state => {
+                const index = state?.activeTooltipIndex;
+                if (index !== undefined && result.cells[index]) onSelect(result.cells[index].input);
+              }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis
+                dataKey="x"
+                type="number"
+                scale={result.config.x.log ? 'log' : 'auto'}
+                domain={['dataMin', 'dataMax']}
+                tick={{ fill: '#94a3b8', fontSize: 10 }}
+                tickFormatter={formatValue}
+              />
+              <YAxis
+                type="number"
+                scale={lineLog ? 'log' : 'auto'}
+                domain={['auto', 'auto']}
+                tick={{ fill: '#94a3b8', fontSize: 10 }}
+                tickFormatter={formatValue}
+                width={60}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
+                formatter={(value: number) => [`${formatValue(value)} ${unit}`, label]}
+                labelFormatter={(x: number) => `${FIELD_LABELS[result.config.x.field]}: ${formatValue(x)}`}
+              />
+              <Line type="monotone" dataKey="value" stroke="#f59e0b" strokeWidth={2} dot={{ r: 2, fill: '#f59e0b' }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {result && <p className="text-xs text-slate-500">Click a {result.config.y ? 'cell' : 'point'} to load that scenario.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { EncounterTimeline, UnitPreferences } from '../types';
+import { TIMELINE_PHASES } from '../constants';
+import { EARTH_RADIUS_KM } from '../services/encounter';
+import { formatDuration } from '../services/hazard';
+import { formatClock, formatTimestamp, timelineArrival } from '../services/timeline';
+import { formatQuantity } from '../services/units';
+import { Timer } from 'lucide-react';
+
+interface Props {
+  timeline: EncounterTimeline;
+  isHit: boolean;
+  units: UnitPreferences;
+}
+
+export const TimelinePanel: React.FC<Props> = ({ timeline, isHit, units }) => {
+  const arrival = timelineArrival(timeline);
+  const arrivalLabel = isHit ? 'atmospheric entry' : 'closest approach';
+
+  // Tick once a second, and only when there is a real date to count down to
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!arrival?.timestamp) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [arrival?.timestamp]);
+  const remaining = arrival?.timestamp ? (Date.parse(arrival.timestamp) - now) / 1000 : null;
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+        <div className="flex items-center gap-3">
+          <Timer className="text-cyan-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Encounter Timeline</h3>
+        </div>
+        <div className="text-xs text-slate-400 font-mono">
+          {timeline.epoch ? `Epoch ${formatTimestamp(timeline.epoch)}` : 'No epoch set · times are from the analysis epoch'}
+        </div>
+      </div>
+
+      {!arrival ? (
+        <p className="text-sm text-slate-400">
+          Closest approach lies beyond the starting distance, so the flyby never passes the position given for the epoch and there
+          is nothing to time. Raise the distance or lower the impact parameter.
+        </p>
+      ) : <>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-slate-800/50 p-4 rounded-xl">
+            <div className="text-xs text-slate-500 uppercase">Warning Time</div>
+            <div className={`text-2xl font-mono font-bold truncate ${isHit ? 'text-red-400' : 'text-slate-200'}`}>{formatDuration(timeline.warningTime!)}</div>
+            <div className="text-[10px] text-slate-500">from the epoch to {arrivalLabel}</div>
+          </div>
+          <div className="bg-slate-800/50 p-4 rounded-xl">
+            <div className="text-xs text-slate-500 uppercase">{isHit ? 'Entry' : 'Closest Approach'} Time</div>
+            <div className="text-xl font-mono text-slate-200 font-bold truncate">
+              {arrival.timestamp ? formatTimestamp(arrival.timestamp) : '—'}
+            </div>
+            <div className="text-[10px] text-slate-500">{arrival.timestamp ? `T${formatClock(arrival.time)} after the epoch` : 'Set an epoch to date the encounter'}</div>
+          </div>
+          <div className="bg-slate-800/50 p-4 rounded-xl">
+            <div className="text-xs text-slate-500 uppercase">Countdown</div>
+            <div className="text-2xl font-mono text-cyan-400 font-bold truncate">
+              {remaining === null ? '—' : remaining > 0 ? `T${formatClock(-remaining)}` : 'Passed'}
+            </div>
+            <div className="text-[10px] text-slate-500">
+              {remaining === null ? 'Needs an epoch' : remaining > 0 ? `until ${arrivalLabel}, from now` : `${formatDuration(-remaining)} ago`}
+            </div>
+          </div>
+        </div>
+
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 text-right">
+              <th className="text-left font-normal py-1">Phase</th>
+              <th className="font-normal">From Epoch</th>
+              <th className="font-normal">Date</th>
+              <th className="font-normal">Altitude</th>
+              <th className="font-normal">Speed</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {timeline.events.map(event => (
+              <tr key={event.phase} className={`border-t border-slate-800 text-right ${event.time < 0 ? 'text-slate-500' : ''}`}>
+                <td className="text-left py-1">{TIMELINE_PHASES[event.phase]}</td>
+                <td>{formatClock(event.time)}</td>
+                <td>{event.timestamp ? formatTimestamp(event.timestamp) : '—'}</td>
+                <td>{formatQuantity(event.range - EARTH_RADIUS_KM, 'km', units)}</td>
+                <td>{event.speed === null ? '—' : formatQuantity(event.speed, 'km/s', units)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-[10px] text-slate-500 mt-4">
+          Two-body flyby times from Kepler's equation; beyond the Hill sphere the Sun's pull makes them approximate. Greyed phases came before the epoch.
+          The flight through the air is from the entry simulation.
+        </p>
+      </>}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EncounterGeometry } from '../types';
+import { MOON_DISTANCE_KM } from '../constants';
+import { EARTH_RADIUS_KM, anomalyAtRange, positionAtAnomaly, anomalyAtTime } from '../services/encounter';
+import { Orbit, Play, Pause, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+
+interface Props {
+  encounter: EncounterGeometry;
+}
+
+const HEIGHT = 380;
+const PATH_SAMPLES = 400;
+const PLAYBACK_FRAMES = 600; // frames to sweep the whole window
+const MOON_ANGLE = (3 * Math.PI) / 4; // Moon drawn at a fixed illustrative phase
+
+const formatOffset = (seconds: number): string => {
+  const sign = seconds < 0 ? 'T−' : 'T+';
+  const s = Math.abs(Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  return `${sign}${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${sec.toString().padStart(2, '0')}`;
+};
+
+export const TrajectoryViewer: React.FC<Props> = ({ encounter }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(600);
+  const [zoom, setZoom] = useState(1);
+  const [playing, setPlaying] = useState(false);
+
+  // Time window: from the epoch range inbound to impact, or the mirrored outbound leg
+  const timeline = useMemo(() => {
+    const startF = anomalyAtRange(encounter, encounter.range);
+    let start = positionAtAnomaly(encounter, startF).t;
+    if (start > -60) start = -6 * 3600;
+    const impacts = encounter.perigee <= EARTH_RADIUS_KM;
+    const closestF = impacts ? anomalyAtRange(encounter, EARTH_RADIUS_KM) : 0;
+    const closest = positionAtAnomaly(encounter, closestF);
+    const end = impacts ? closest.t : -start;
+    const endF = anomalyAtTime(encounter, end);
+    const firstF = anomalyAtTime(encounter, start);
+    const path = Array.from({ length: PATH_SAMPLES + 1 }, (_, i) =>
+      positionAtAnomaly(encounter, firstF + ((endF - firstF) * i) / PATH_SAMPLES)
+    );
+    return { start, end, closest, impacts, path };
+  }, [encounter]);
+
+  const [time, setTime] = useState(timeline.start);
+
+  useEffect(() => {
+    setTime(timeline.start);
+    setPlaying(false);
+    setZoom(1);
+  }, [timeline]);
+
+  // Track container width
+  useEffect(() => {
+    const measure = () => {
+      if (containerRef.current) setWidth(containerRef.current.clientWidth);
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom(z => Math.min(500, Math.max(0.2, z * (e.deltaY < 0 ? 1.2 : 1 / 1.2))));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Playback
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const step = (timeline.end - timeline.start) / PLAYBACK_FRAMES;
+    const tick = () => {
+      setTime(t => {
+        const next = t + step;
+        if (next >= timeline.end) {
+          setPlaying(false);
+          return timeline.end;
+        }
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, timeline]);
+
+  const current = useMemo(() => positionAtAnomaly(encounter, anomalyAtTime(encounter, time)), [encounter, time]);
+
+  // Draw
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const cx = width / 2;
+    const cy = HEIGHT / 2;
+    const extent = Math.max(encounter.range, MOON_DISTANCE_KM) * 1.1;
+    const scale = ((Math.min(width, HEIGHT) / 2) / extent) * zoom; // px per km
+    const toScreen = (x: number, y: number) => [cx + x * scale, cy - y * scale] as const;
+
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, width, HEIGHT);
+
+    // Moon orbit and Moon
+    ctx.setLineDash([4, 6]);
+    ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+    ctx.beginPath();
+    ctx.arc(cx, cy, MOON_DISTANCE_KM * scale, 0, Math.PI * 2);
+    ctx.stroke();
+    const [mx, my] = toScreen(MOON_DISTANCE_KM * Math.cos(MOON_ANGLE), MOON_DISTANCE_KM * Math.sin(MOON_ANGLE));
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#cbd5e1';
+    ctx.beginPath();
+    ctx.arc(mx, my, Math.max(3, 1737 * scale), 0, Math.PI * 2);
+    ctx.fill();
+    ctx.font = '11px Inter, sans-serif';
+    ctx.fillText('Moon · 384,400 km', mx + 8, my - 8);
+
+    // Gravitational capture radius
+    ctx.setLineDash([2, 4]);
+    ctx.strokeStyle = 'rgba(244, 63, 94, 0.5)';
+    ctx.beginPath();
+    ctx.arc(cx, cy, encounter.captureRadius * scale, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Earth
+    ctx.fillStyle = '#0ea5e9';
+    ctx.beginPath();
+    ctx.arc(cx, cy, Math.max(3, EARTH_RADIUS_KM * scale), 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillText('Earth', cx + Math.max(3, EARTH_RADIUS_KM * scale) + 4, cy + 4);
+
+    // Approach path
+    ctx.strokeStyle = '#facc15';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    timeline.path.forEach((p, i) => {
+      const [px, py] = toScreen(p.x, p.y);
+      if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+    });
+    ctx.stroke();
+    ctx.lineWidth = 1;
+
+    // Closest approach / impact point
+    const [qx, qy] = toScreen(timeline.closest.x, timeline.closest.y);
+    ctx.strokeStyle = timeline.impacts ? '#f43f5e' : '#34d399';
+    ctx.beginPath();
+    ctx.moveTo(qx - 6, qy - 6); ctx.lineTo(qx + 6, qy + 6);
+    ctx.moveTo(qx + 6, qy - 6); ctx.lineTo(qx - 6, qy + 6);
+    ctx.stroke();
+    ctx.fillStyle = timeline.impacts ? '#fda4af' : '#6ee7b7';
+    ctx.fillText(
+      timeline.impacts ? 'Impact' : `Closest approach · ${Math.round(encounter.perigee - EARTH_RADIUS_KM).toLocaleString()} km altitude`,
+      qx + 10, qy + 14
+    );
+
+    // Asteroid
+    const [ax, ay] = toScreen(current.x, current.y);
+    ctx.fillStyle = '#f97316';
+    ctx.beginPath();
+    ctx.arc(ax, ay, 5, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Scale bar
+    const barKm = Math.pow(10, Math.floor(Math.log10(120 / scale)));
+    ctx.strokeStyle = '#94a3b8';
+    ctx.beginPath();
+    ctx.moveTo(16, HEIGHT - 16); ctx.lineTo(16 + barKm * scale, HEIGHT - 16);
+    ctx.stroke();
+    ctx.fillStyle = '#94a3b8';
+    ctx.fillText(`${barKm.toLocaleString()} km`, 16, HEIGHT - 22);
+  }, [width, zoom, encounter, timeline, current]);
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-3">
+          <Orbit className="text-cyan-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Approach Trajectory</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => setZoom(z => Math.min(500, z * 1.5))} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300" title="Zoom in">
+            <ZoomIn size={16} />
+          </button>
+          <button type="button" onClick={() => setZoom(z => Math.max(0.2, z / 1.5))} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300" title="Zoom out">
+            <ZoomOut size={16} />
+          </button>
+          <button type="button" onClick={() => setZoom(1)} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300" title="Fit">
+            <Maximize size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="w-full rounded-xl overflow-hidden border border-slate-800">
+        <canvas ref={canvasRef} style={{ width: '100%', height: HEIGHT }} />
+      </div>
+
+      <div className="flex items-center gap-4 mt-4">
+        <button
+          type="button"
+          onClick={() => {
+            if (time >= timeline.end) setTime(timeline.start);
+            setPlaying(p => !p);
+          }}
+          className="p-2 rounded-lg bg-cyan-700 hover:bg-cyan-600 text-white"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <input
+          type="range"
+          min={timeline.start}
+          max={timeline.end}
+          step={(timeline.end - timeline.start) / 1000}
+          value={time}
+          onChange={e => { setPlaying(false); setTime(parseFloat(e.target.value)); }}
+          className="flex-1 accent-cyan-500"
+        />
+        <div className="text-xs font-mono text-slate-300 text-right min-w-[170px]">
+          <div>{formatOffset(time - timeline.closest.t)}</div>
+          <div className="text-slate-500">r = {Math.round(current.r).toLocaleString()} km</div>
+        </div>
+      </div>
+    </div>
+  );
+};
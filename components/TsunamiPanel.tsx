@@ -0,0 +1,80 @@
+import React from 'react';
+import { OceanImpact } from '../types';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { Waves } from 'lucide-react';
+
+interface Props {
+  ocean: OceanImpact;
+}
+
+export const TsunamiPanel: React.FC<Props> = ({ ocean }) => {
+  const data = ocean.waveHeights.filter(w => w.amplitudeMeters > 0);
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <Waves className="text-sky-400" />
+        <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Ocean Impact & Tsunami</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Water Cavity</div>
+          <div className="text-2xl font-mono text-sky-300 font-bold truncate">
+            {(ocean.cavityDiameter / 1000).toFixed(2)} km
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Cavity Depth / Water</div>
+          <div className="text-2xl font-mono text-sky-300 font-bold truncate">
+            {ocean.cavityDepth.toFixed(0)} / {ocean.waterDepth.toFixed(0)} m
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Seafloor Crater</div>
+          <div className={`text-2xl font-mono font-bold truncate ${ocean.seafloorCrater ? 'text-red-400' : 'text-emerald-400'}`}>
+            {ocean.seafloorCrater ? `${ocean.seafloorCraterDiameter.toLocaleString(undefined, { maximumFractionDigits: 0 })} m` : 'None'}
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-xl">
+          <div className="text-xs text-slate-500 uppercase">Initial Wave</div>
+          <div className="text-2xl font-mono text-yellow-400 font-bold truncate">
+            {Math.max(ocean.rimWaveAmplitude, ocean.collapseWaveAmplitude).toFixed(1)} m
+          </div>
+        </div>
+      </div>
+
+      <p className="text-center text-sm text-slate-400 mb-2">Wave Amplitude vs Distance (deep water)</p>
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis
+              dataKey="distanceKm"
+              type="number"
+              scale="log"
+              domain={['dataMin', 'dataMax']}
+              ticks={data.map(w => w.distanceKm)}
+              tick={{ fill: '#94a3b8', fontSize: 10 }}
+              tickFormatter={(v: number) => `${v.toLocaleString()} km`}
+            />
+            <YAxis
+              type="number"
+              scale="log"
+              domain={['auto', 'auto']}
+              tick={{ fill: '#94a3b8', fontSize: 10 }}
+              tickFormatter={(v: number) => `${v.toPrecision(2)} m`}
+              width={60}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
+              formatter={(value: number) => [`${value.toFixed(2)} m`, 'Amplitude']}
+              labelFormatter={(label: number) => `${label.toLocaleString()} km`}
+            />
+            <Line type="monotone" dataKey="amplitudeMeters" stroke="#38bdf8" strokeWidth={2} dot={{ r: 3, fill: '#38bdf8' }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
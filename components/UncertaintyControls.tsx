@@ -0,0 +1,106 @@
+import React from 'react';
+import { InputDistribution, NumericInputField, UncertaintyOptions } from '../types';
+import { UNCERTAIN_FIELDS, FIELD_LABELS, INPUT_LIMITS } from '../constants';
+
+interface Props {
+  value: UncertaintyOptions;
+  nominal: Record<NumericInputField, number>;
+  onChange: (next: UncertaintyOptions) => void;
+}
+
+type DistributionKind = InputDistribution['kind'] | 'fixed';
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 focus:outline-none focus:border-cyan-500 transition-all font-mono text-xs text-white";
+
+// Starting parameters when a field is switched to a new distribution; uniform bounds stay inside the field's limits
+const defaultDistribution = (kind: InputDistribution['kind'], field: NumericInputField, nominal: number): InputDistribution => {
+  const limits = INPUT_LIMITS[field];
+  switch (kind) {
+    case 'normal':
+      return { kind, sigma: nominal * 0.1 };
+    case 'lognormal':
+      return { kind, factor: 2 };
+    case 'uniform':
+      return { kind, min: Math.max(limits.min, nominal * 0.5), max: Math.min(limits.max, nominal * 1.5) };
+  }
+};
+
+export const UncertaintyControls: React.FC<Props> = ({ value, nominal, onChange }) => {
+  const setDistribution = (field: NumericInputField, dist: InputDistribution | undefined) => {
+    const distributions = { ...value.distributions };
+    if (dist) distributions[field] = dist; else delete distributions[field];
+    onChange({ ...value, distributions });
+  };
+
+  const handleKindChange = (field: NumericInputField, kind: DistributionKind) => {
+    setDistribution(field, kind === 'fixed' ? undefined : defaultDistribution(kind, field, nominal[field]));
+  };
+
+  const handleParamChange = (field: NumericInputField, param: string, raw: string) => {
+    const dist = value.distributions[field];
+    if (!dist) return;
+    setDistribution(field, { ...dist, [param]: parseFloat(raw) } as InputDistribution);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 max-w-md">
+        <div className="space-y-1">
+          <label className="text-xs text-slate-500 uppercase font-bold ml-1">Samples</label>
+          <input
+            type="number"
+            value={value.samples}
+            min="1"
+            max="10000"
+            onChange={e => onChange({ ...value, samples: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs text-slate-500 uppercase font-bold ml-1">Seed</label>
+          <input
+            type="number"
+            value={value.seed}
+            onChange={e => onChange({ ...value, seed: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {UNCERTAIN_FIELDS.map(field => {
+          const dist = value.distributions[field];
+          return (
+            <div key={field} className="bg-slate-950/50 border border-slate-800 rounded-xl p-3 space-y-2">
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-xs text-slate-400 font-bold">{FIELD_LABELS[field]}</span>
+                <select
+                  value={dist?.kind ?? 'fixed'}
+                  onChange={e => handleKindChange(field, e.target.value as DistributionKind)}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white cursor-pointer"
+                >
+                  <option value="fixed">Fixed</option>
+                  <option value="normal">Normal</option>
+                  <option value="lognormal">Log-normal</option>
+                  <option value="uniform">Uniform</option>
+                </select>
+              </div>
+              {dist?.kind === 'normal' && (
+                <input type="number" step="any" value={dist.sigma} title="σ" onChange={e => handleParamChange(field, 'sigma', e.target.value)} className={inputClass} />
+              )}
+              {dist?.kind === 'lognormal' && (
+                <input type="number" step="any" min="1" value={dist.factor} title="1σ factor" onChange={e => handleParamChange(field, 'factor', e.target.value)} className={inputClass} />
+              )}
+              {dist?.kind === 'uniform' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="number" step="any" value={dist.min} title="min" onChange={e => handleParamChange(field, 'min', e.target.value)} className={inputClass} />
+                  <input type="number" step="any" value={dist.max} title="max" onChange={e => handleParamChange(field, 'max', e.target.value)} className={inputClass} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
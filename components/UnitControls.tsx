@@ -0,0 +1,38 @@
+import React from 'react';
+import { EnergyUnit, UnitPreferences, UnitSystem } from '../types';
+import { ENERGY_UNITS, UNIT_SYSTEMS } from '../constants';
+import { Ruler } from 'lucide-react';
+
+interface Props {
+  value: UnitPreferences;
+  onChange: (next: UnitPreferences) => void;
+}
+
+const selectClass = "bg-transparent text-xs text-slate-300 focus:outline-none cursor-pointer";
+
+export const UnitControls: React.FC<Props> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 rounded-full border border-slate-700 text-xs text-slate-400">
+    <Ruler size={14} />
+    <select
+      value={value.system}
+      onChange={e => onChange({ ...value, system: e.target.value as UnitSystem })}
+      className={selectClass}
+      title="Unit system for inputs and results"
+    >
+      {(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map(system => (
+        <option key={system} value={system} className="bg-slate-900">{UNIT_SYSTEMS[system].label}</option>
+      ))}
+    </select>
+    <span className="text-slate-600">·</span>
+    <select
+      value={value.energy}
+      onChange={e => onChange({ ...value, energy: e.target.value as EnergyUnit })}
+      className={selectClass}
+      title="Energy unit"
+    >
+      {(Object.keys(ENERGY_UNITS) as EnergyUnit[]).map(unit => (
+        <option key={unit} value={unit} className="bg-slate-900">{ENERGY_UNITS[unit]}</option>
+      ))}
+    </select>
+  </div>
+);
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { AsteroidInput, ReferenceStatus } from '../types';
+import { REFERENCE_METRICS } from '../constants';
+import { formatReferenceValue, isInputCheck, runReferenceSuite } from '../services/reference';
+import { ShieldCheck, ChevronRight, X } from 'lucide-react';
+
+interface Props {
+  onOpen: (input: AsteroidInput) => void; // load a reference event into the analyzer
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ReferenceStatus, { label: string; className: string }> = {
+  pass: { label: 'In range', className: 'bg-emerald-900/50 text-emerald-400 border-emerald-700' },
+  fail: { label: 'Out of range', className: 'bg-red-900/50 text-red-400 border-red-700' }
+};
+
+export const ValidationPage: React.FC<Props> = ({ onOpen, onClose }) => {
+  const results = useMemo(() => runReferenceSuite(), []);
+  const checks = results.flatMap(r => r.checks).filter(c => !isInputCheck(c.check));
+  const inputChecks = results.flatMap(r => r.checks).filter(c => isInputCheck(c.check));
+  const count = (status: ReferenceStatus) => checks.filter(c => c.status === status).length;
+
+  return (
+    <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="text-emerald-400" />
+          <h3 className="text-xl font-display font-bold text-white uppercase tracking-wider">Model Validation</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-400 font-mono">
+            {count('pass')} of {checks.length} model checks in range{count('fail') > 0 && ` · ${count('fail')} out of range`}
+            {` · inputs ${inputChecks.filter(c => c.status === 'pass').length} of ${inputChecks.length} consistent`}
+          </span>
+          <button onClick={onClose} className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-700 text-xs uppercase font-bold text-slate-400 hover:text-white hover:border-cyan-500 transition-colors">
+            <X size={14} /> Close
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-400">
+        The engine run on published reconstructions of real events, next to what was observed. Each accepted range is the
+        observed spread widened by the tolerance stated with it. Crater checks use the transient crater the scaling law predicts,
+        before the rim collapses. Energy rows are input checks: they recompute ½mv² of the reconstruction and test no model physics.
+      </p>
+
+      {results.map(({ event, checks: eventChecks }) => (
+        <div key={event.id} className="bg-slate-800/30 p-4 rounded-xl border border-slate-800">
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-2 mb-3">
+            <div>
+              <div className="text-sm font-bold text-white">{event.name} <span className="text-slate-500 font-normal">· {event.date}</span></div>
+              <p className="text-xs text-slate-400 mt-1 max-w-2xl">{event.description}</p>
+            </div>
+            {event.input && (
+              <button
+                onClick={() => onOpen(event.input!)}
+                className="shrink-0 flex items-center gap-1 text-xs uppercase font-bold text-cyan-400 hover:text-white"
+              >
+                Open in analyzer <ChevronRight size={14} />
+              </button>
+            )}
+          </div>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-500 text-right">
+                <th className="text-left font-normal py-1">Quantity</th>
+                <th className="font-normal">Model</th>
+                <th className="font-normal">Observed</th>
+                <th className="font-normal">Accepted</th>
+                <th className="font-normal">Status</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {eventChecks.map(({ check, model, status }) => {
+                const { label, unit } = REFERENCE_METRICS[check.metric];
+                return (
+                  <React.Fragment key={check.metric}>
+                    <tr className="border-t border-slate-800 text-right">
+                      <td className="text-left py-1">{label} ({unit}){isInputCheck(check) && <span className="text-slate-500"> · input check</span>}</td>
+                      <td>{formatReferenceValue(model)}</td>
+                      <td>{formatReferenceValue(check.observed)}</td>
+                      <td>{formatReferenceValue(check.min)} – {formatReferenceValue(check.max)}</td>
+                      <td>
+                        <span className={`uppercase font-bold rounded border text-[10px] px-2 py-0.5 ${STATUS_STYLES[status].className}`}>
+                          {STATUS_STYLES[status].label}
+                        </span>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td colSpan={5} className="text-[10px] text-slate-500 font-sans pb-2">
+                        {check.source}
+                      </td>
+                    </tr>
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,18 +1,312 @@
-import { AsteroidType } from "./types";
+import { AsteroidType, DeflectionMethod, DeflectionOptions, EnergyUnit, HistoryQuery, Material, NumericInputField, ReferenceMetric, SweepConfig, SweepMetric, TimelinePhase, TorinoZone, UncertaintyOptions, UnitPreferences, UnitSystem } from "./types";
 
 export const DEFAULT_INPUT = {
   name: 'Neo-X1',
   diameter: 50,
   velocity: 17,
   distance: 384400, // Distance to moon approx
+  impactParameter: 20000, // b-plane offset, km
+  impactParameterSigma: 2500, // km
+  entryAngle: 45, // degrees, most probable impact angle
+  latitude: 35.03, // Arizona, near Meteor Crater
+  longitude: -111.02,
+  waterDepth: 3700, // m, mean ocean depth
   type: AsteroidType.STONY
 };
 
-export const ASTEROID_TYPES = [
-  { value: AsteroidType.STONY, label: '🪨 Stony (S-Type)', desc: 'Common, silicate rock' },
-  { value: AsteroidType.METALLIC, label: '⚙️ Metallic (M-Type)', desc: 'Dense, iron-nickel' },
-  { value: AsteroidType.ICY, label: '❄️ Icy (Comet)', desc: 'Low density, volatile' },
-  { value: AsteroidType.CARBONACEOUS, label: '🌑 Carbonaceous (C-Type)', desc: 'Dark, primitive' },
+export const MOON_DISTANCE_KM = 384400;
+
+// Grain density and porosity give the same bulk densities the engine has always used
+export const BUILT_IN_MATERIALS: Material[] = [
+  {
+    id: AsteroidType.STONY,
+    name: '🪨 Stony (S-Type)',
+    description: 'Common, silicate rock',
+    grainDensity: 3375,
+    porosity: 0.2,
+    strength: 5e6, // ordinary chondrite, Chelyabinsk-like
+    composition: [
+      { element: 'Silicates', percentage: 70, fill: '#a8a29e' },
+      { element: 'Iron/Nickel', percentage: 15, fill: '#94a3b8' },
+      { element: 'Pyroxene', percentage: 10, fill: '#d6d3d1' },
+      { element: 'Olivine', percentage: 5, fill: '#86efac' }
+    ],
+    builtIn: true
+  },
+  {
+    id: AsteroidType.METALLIC,
+    name: '⚙️ Metallic (M-Type)',
+    description: 'Dense, iron-nickel',
+    grainDensity: 7870,
+    porosity: 0,
+    strength: 5e7,
+    composition: [
+      { element: 'Iron', percentage: 85, fill: '#64748b' },
+      { element: 'Nickel', percentage: 14, fill: '#cbd5e1' },
+      { element: 'Iridium', percentage: 1, fill: '#f1f5f9' }
+    ],
+    builtIn: true
+  },
+  {
+    id: AsteroidType.ICY,
+    name: '❄️ Icy (Comet)',
+    description: 'Low density, volatile',
+    grainDensity: 2000,
+    porosity: 0.5,
+    strength: 1e5, // cometary ice/dust aggregate
+    composition: [
+      { element: 'Water Ice', percentage: 60, fill: '#bfdbfe' },
+      { element: 'CO2 Ice', percentage: 20, fill: '#e0f2fe' },
+      { element: 'Dust', percentage: 15, fill: '#7dd3fc' },
+      { element: 'Organics', percentage: 5, fill: '#0ea5e9' }
+    ],
+    builtIn: true
+  },
+  {
+    id: AsteroidType.CARBONACEOUS,
+    name: '🌑 Carbonaceous (C-Type)',
+    description: 'Dark, primitive',
+    grainDensity: 2600,
+    porosity: 0.5,
+    strength: 1e6, // weak, porous C-type
+    composition: [
+      { element: 'Carbon', percentage: 45, fill: '#475569' },
+      { element: 'Water', percentage: 20, fill: '#334155' },
+      { element: 'Silicates', percentage: 25, fill: '#94a3b8' },
+      { element: 'Sulfides', percentage: 10, fill: '#fbbf24' }
+    ],
+    builtIn: true
+  }
+];
+
+// Starting points for custom bodies in the material editor; not selectable as-is
+export const MATERIAL_TEMPLATES: Omit<Material, 'id' | 'builtIn'>[] = [
+  {
+    name: 'Rubble Pile',
+    description: 'Gravitationally bound aggregate, Bennu/Ryugu-like',
+    grainDensity: 3000,
+    porosity: 0.4,
+    strength: 1e3,
+    composition: [
+      { element: 'Silicates', percentage: 75, fill: '#a8a29e' },
+      { element: 'Iron/Nickel', percentage: 10, fill: '#94a3b8' },
+      { element: 'Regolith Fines', percentage: 15, fill: '#d6d3d1' }
+    ]
+  },
+  {
+    name: 'Enstatite Chondrite',
+    description: 'Reduced E-type, metal-rich and dense',
+    grainDensity: 3700,
+    porosity: 0.05,
+    strength: 1e7,
+    composition: [
+      { element: 'Enstatite', percentage: 60, fill: '#e7e5e4' },
+      { element: 'Iron/Nickel', percentage: 25, fill: '#94a3b8' },
+      { element: 'Troilite', percentage: 8, fill: '#fbbf24' },
+      { element: 'Plagioclase', percentage: 7, fill: '#d6d3d1' }
+    ]
+  }
+];
+
+export const NUMERIC_FIELDS: NumericInputField[] = ['diameter', 'velocity', 'distance', 'impactParameter', 'impactParameterSigma', 'entryAngle', 'latitude', 'longitude', 'waterDepth'];
+
+// Positive physical quantities the Monte Carlo ensemble may perturb
+export const UNCERTAIN_FIELDS: NumericInputField[] = ['diameter', 'velocity', 'distance', 'impactParameter', 'impactParameterSigma', 'entryAngle', 'waterDepth'];
+
+export const FIELD_LABELS: Record<NumericInputField, string> = {
+  diameter: 'Diameter (m)',
+  velocity: 'Velocity (km/s)',
+  distance: 'Distance (km)',
+  impactParameter: 'Impact Parameter b (km)',
+  impactParameterSigma: 'b Uncertainty σ (km)',
+  entryAngle: 'Entry Angle (°)',
+  latitude: 'Latitude (°N)',
+  longitude: 'Longitude (°E)',
+  waterDepth: 'Water Depth (m)'
+};
+
+// Accepted range for each input, mirroring the form's min/max attributes
+export const INPUT_LIMITS: Record<NumericInputField, { min: number; max: number }> = {
+  diameter: { min: 1, max: 1e6 },
+  velocity: { min: 0.1, max: 100 },
+  distance: { min: 0, max: 1e10 },
+  impactParameter: { min: 0, max: 1e10 },
+  impactParameterSigma: { min: 0, max: 1e10 },
+  entryAngle: { min: 1, max: 90 },
+  latitude: { min: -90, max: 90 },
+  longitude: { min: -180, max: 180 },
+  waterDepth: { min: 0, max: 11000 } // Challenger Deep
+};
+
+// Unit each input is stored and computed in
+export const FIELD_UNITS: Partial<Record<NumericInputField, string>> = {
+  diameter: 'm',
+  velocity: 'km/s',
+  distance: 'km',
+  impactParameter: 'km',
+  impactParameterSigma: 'km',
+  waterDepth: 'm'
+};
+
+export const DEFAULT_UNITS: UnitPreferences = { system: 'metric', energy: 'Mt' };
+
+// Engine units swapped out under each system; anything unlisted is shown as computed
+export const UNIT_SYSTEMS: Record<UnitSystem, { label: string; units: Record<string, string> }> = {
+  metric: { label: 'Metric', units: {} },
+  imperial: {
+    label: 'Imperial',
+    units: { m: 'ft', km: 'mi', 'm³': 'ft³', kg: 'lb', 'm/s': 'ft/s', 'km/s': 'mi/s', 'kg/m³': 'lb/ft³', Pa: 'psi' }
+  },
+  lunar: { label: 'Lunar Distances', units: { km: 'LD' } },
+  au: { label: 'Astronomical Units', units: { km: 'AU' } }
+};
+
+export const ENERGY_UNITS: Record<EnergyUnit, string> = {
+  J: 'Joules',
+  kt: 'Kilotons TNT',
+  Mt: 'Megatons TNT',
+  Hiroshima: 'Hiroshima Equiv.'
+};
+
+export const DEFAULT_UNCERTAINTY: UncertaintyOptions = {
+  samples: 500,
+  seed: 1,
+  distributions: {
+    diameter: { kind: 'lognormal', factor: 2 } // NEO diameters are often known only to a factor of 2
+  }
+};
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  text: '',
+  outcome: 'all',
+  type: 'all',
+  minEnergy: null,
+  maxEnergy: null,
+  sort: 'newest'
+};
+
+// Columns the batch analyzer writes unless --fields picks others
+export const DEFAULT_BATCH_FIELDS = [
+  'input.name', 'input.type', 'isHit', 'impactProbability', 'kineticEnergyMegatons', 'craterSizeMeters',
+  'site.terrain', 'entry.isAirburst', 'entry.airburstAltitude', 'effects.seismicMagnitude',
+  'hazard.torino', 'hazard.palermo', 'timeline.warningTime', 'exposure.population', 'exposure.fatalities', 'exposure.injuries'
+];
+
+export const DEFAULT_SWEEP: SweepConfig = {
+  x: { field: 'diameter', min: 10, max: 1000, steps: 20, log: true },
+  y: { field: 'velocity', min: 11.2, max: 72, steps: 20, log: false } // Earth escape to head-on retrograde
+};
+
+export const MAX_SWEEP_STEPS = 50;
+
+export const SWEEP_METRICS: Record<SweepMetric, { label: string; unit: string; log: boolean }> = {
+  energy: { label: 'Kinetic Energy', unit: 'MT', log: true },
+  crater: { label: 'Crater Diameter', unit: 'm', log: false },
+  probability: { label: 'Impact Probability', unit: '%', log: false }
+};
+
+export const DEFLECTION_METHODS: Record<DeflectionMethod, { label: string; description: string }> = {
+  kinetic: { label: 'Kinetic Impactor', description: 'Ram a spacecraft into the body; ejecta thrown off the crater add momentum (β).' },
+  tractor: { label: 'Gravity Tractor', description: 'Hover a heavy spacecraft beside the body and let gravity tow it.' },
+  nuclear: { label: 'Nuclear Standoff', description: 'Detonate above the surface; vaporised surface material recoils the body.' }
+};
+
+export const DEFAULT_DEFLECTION: DeflectionOptions = {
+  method: 'kinetic',
+  leadTime: 3652.5, // ten years
+  marginKm: 6371, // one Earth radius of clearance
+  spacecraftMass: 579.4, // DART at impact
+  impactSpeed: 6.1449,
+  beta: 3.61,
+  hoverDistance: 1.5,
+  towDuration: 1826, // five years
+  yieldMegatons: 1,
+  standoff: 0.4 // near the optimum for neutron coupling
+};
+
+// DART and the Didymos-Dimorphos binary (Cheng et al. 2023; Thomas et al. 2023)
+export const DART_REFERENCE = {
+  spacecraftMass: 579.4, // kg at impact
+  impactSpeed: 6.1449, // km/s
+  beta: 3.61, // +0.19/-0.25 (Cheng et al. 2023), for a bulk density of 2400 kg/m^3
+  orbitRadius: 1.189, // km, Dimorphos about Didymos
+  orbitPeriod: 11.921, // h, before impact
+  measuredDeltaV: 2.70, // mm/s, along track
+  measuredPeriodChange: 33.0, // min, shortening
+  measuredPeriodChangeSigma: 1.0
+};
+
+// Input checks only recompute ½mv² of the chosen reconstruction, so they test the inputs, not the model
+export const REFERENCE_METRICS: Record<ReferenceMetric, { label: string; unit: string; inputCheck?: boolean }> = {
+  energy: { label: 'Kinetic energy', unit: 'MT', inputCheck: true },
+  craterDiameter: { label: 'Transient crater diameter', unit: 'm' },
+  airburstAltitude: { label: 'Airburst altitude', unit: 'km' },
+  dartDeltaV: { label: 'Δv along track', unit: 'mm/s' },
+  dartPeriodChange: { label: 'Orbit period shortening', unit: 'min' }
+};
+
+// Share of people killed, and of survivors injured, in each damage zone; everyone takes
+// the worst zone they are in. Blast rates follow OTA (1979), "The Effects of Nuclear War",
+// with the 1-5 psi band between its 1-2 and 2-5 psi rates. Thermal rates assume
+// about half the population is outdoors and exposed.
+export const CASUALTY_RATES = {
+  crater: { fatality: 1, injury: 0 },
+  fireball: { fatality: 1, injury: 0 },
+  overpressure: {
+    20: { fatality: 0.98, injury: 1 },
+    5: { fatality: 0.5, injury: 0.8 },
+    1: { fatality: 0.025, injury: 0.36 }
+  } as Record<number, { fatality: number; injury: number }>,
+  thermal: {
+    'Clothing ignites': { fatality: 0.4, injury: 0.67 },
+    'Third-degree burns': { fatality: 0.2, injury: 0.38 },
+    'Second-degree burns': { fatality: 0, injury: 0.15 }
+  } as Record<string, { fatality: number; injury: number }>
+};
+
+// Shown beside every exposure and casualty figure; see data/populationGrid
+export const POPULATION_CAVEAT =
+  'Population is from a synthetic 0.5° grid built from approximate 2020 national totals and ~200 city cores, not a census raster. ' +
+  'Local counts can be off by a factor of a few, so treat exposure and casualty figures as rough.';
+
+// Torino scale levels, abridged from the 2005 revised descriptions (Morrison et al. 2004)
+export const TORINO_LEVELS: { zone: TorinoZone; description: string }[] = [
+  { zone: 'none', description: 'The chance of collision is zero or effectively zero, or the object would burn up in the atmosphere.' },
+  { zone: 'normal', description: 'A routine discovery; the chance of collision is extremely unlikely.' },
+  { zone: 'attention', description: 'A somewhat close but not highly unusual pass; collision is very unlikely.' },
+  { zone: 'attention', description: 'A close encounter with a 1% or greater chance of collision capable of localized destruction.' },
+  { zone: 'attention', description: 'A close encounter with a 1% or greater chance of collision capable of regional devastation.' },
+  { zone: 'threatening', description: 'A close encounter posing a serious but still uncertain threat of regional devastation.' },
+  { zone: 'threatening', description: 'A close encounter by a large object posing a serious but still uncertain threat of a global catastrophe.' },
+  { zone: 'threatening', description: 'A very close encounter by a large object posing an unprecedented but still uncertain threat of a global catastrophe.' },
+  { zone: 'certain', description: 'A collision is certain, capable of localized destruction.' },
+  { zone: 'certain', description: 'A collision is certain, capable of unprecedented regional devastation.' },
+  { zone: 'certain', description: 'A collision is certain, capable of a global climatic catastrophe.' }
+];
+
+export const TORINO_ZONES: Record<TorinoZone, string> = {
+  none: 'No Hazard',
+  normal: 'Normal',
+  attention: 'Meriting Attention',
+  threatening: 'Threatening',
+  certain: 'Certain Collision'
+};
+
+export const TIMELINE_PHASES: Record<TimelinePhase, string> = {
+  hill: 'Enters Hill sphere',
+  lunar: 'Crosses lunar distance',
+  epoch: 'Analysis epoch',
+  atmosphere: 'Atmospheric interface',
+  airburst: 'Airburst',
+  impact: 'Ground impact',
+  perigee: 'Closest approach'
+};
+
+// Palermo scale bands, lower bound inclusive
+export const PALERMO_BANDS = [
+  { min: -Infinity, label: 'No likely consequences' },
+  { min: -2, label: 'Merits careful monitoring' },
+  { min: 0, label: 'Above the background hazard' }
 ];
 
 export const COLORS = ['#8884d8', '#83a6ed', '#8dd1e1', '#82ca9d', '#a4de6c', '#d0ed57'];
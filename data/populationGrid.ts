@@ -0,0 +1,378 @@
+/**
+ * Offline population density grid, 0.5° cells, rows from 90°N southward and
+ * columns from 180°W eastward (GPW-style layout, 2020 epoch).
+ *
+ * This is a coarse synthetic stand-in for a downsampled GPW raster: approximate
+ * national and regional 2020 totals spread over the bundled land outline, with
+ * ~200 metropolitan areas added as Gaussian cores. Expect local densities to be
+ * off by a factor of a few; the world total is about 7.7 billion. A real raster
+ * can be dropped in with the same encoding.
+ *
+ * Encoding: one character per cell, level = index in POPULATION_LEVELS + 1,
+ * density = 10^(level / 10 - 1.1) people/km²; ".n" is a run of n empty cells.
+ */
+export const POPULATION_RESOLUTION = 0.5; // degrees
+export const POPULATION_LEVELS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+export const POPULATION_ROWS: string[] = [
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '.195ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBAAA.486',
+  '.186ABBBBBBABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.486',
+  '.177ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.9AAABBBBBBBBBBBBBBBBBB.464',
+  '.180BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.9ABBBBBBBBBBBBBBBBBBBB.464',
+  '.169ABBBBBBB.6ABBBBBAAAABBBBBBBBBBBBBBBBBBBBBBBBBBBBA.7ABBBBBBBBBBBBBBBBBBBBBBBBBB.464',
+  '.167BBBBBBBBBBBBBBBAA.11ABBBBBBBBBBBBBBBBBBBBBBB.6BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.464',
+  '.168ABBBBBBBBBBBBBBBBA.1ABBBBBBBBBBBBBBBBBBBBBBBBBAA.14BBBBBBBBBBBBBBBBBBBBBBBBBBB.464',
+  '.173BBBBBBBBBBBBBA.3BBBBBBBBBBBBBBBBBA.19AABBBBBBBBBBBBBBBBBBBBBBBBBBB.464',
+  '.137A.13BBBBBBA.5AA.8BBBBBBBBBBA.2AABBBBBBBBBBBBBBBBBBBB.12AABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.464',
+  '.156ABBA.4BBBB.20BBBBBBBBBBBBBBBBBBA.7BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.464',
+  '.134BBBBA.45BBA.2ABBBBBBBBBBBBBA.13AABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.311ADC.150',
+  '.121BBBBBB.57BBBBBBBBBBBBBBBBA.22AABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.307DFFFFFFFD.148',
+  '.117ABBBBBBBB.41BBBBBA.8BBBBBBBBBBBBBBBBBBBBBA.16ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.235ACDDDD.65FFFFFFFFFFFFACEFFFFFD.137',
+  '.115ABBBBA.7ABAA.8BBB.14ABBBBBB.9BBBBB.44AAAAAAAAAA.2AAAABBBBBBBBBBBBBBBBBB.225BCDDDDDDEFFFFEDC.53CC.3CFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFE.133',
+  '.126ABBBBBBBBB.5ABBAABB.7AAABBBBBB.10ABBBBA.61ABBBBBBBBBBBBBB.224FFFFFFFEDCB.49ACCFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.47EFFFFFFFFFEDCC.71',
+  '.125ABBBBAAAAABBBBBBBBBBBBA.10ABBBBB.3ABBBA.3BBBBBBBBBBBBBBBBBBBBBBBBA.43BBBBBBBBBBBBB.224FEDA.50ACCEFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFE.46CEFFFFFFFFFFFFFA.2AEDDCCCA.60',
+  '.133ABBBA.31AAA.5AABBBBBBBBBBBBBBABBBBA.46ABBBBBBBBBB.224A.51CFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEC.51ADDDCCCCCCCCA.7CCCB.60',
+  '.111AAAAAAA.129BBBBBBBBB.276DFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.140',
+  '.112BBBBBBBBBBBBBBB.42BBBBBBBBB.70BBBBBBBB.265CFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFD.1CDFFFFECCA.8CCCCCCCC.27CDDDB.74',
+  '.111ABBBBBBBBBBBBBB.21ABB.8BBBBBB.4BBBBBBBBA.5ABBBB.3AABBBBB.2BBBBBBA.43BBBBBBB.265FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFCCC.5FFFFFFFFFFC.23CCCCCCC.73',
+  '.110BBBBBBBBBBBBA.2ABBBBB.1AABB.3AB.3BBBBA.9ABBBBBA.3ABBBB.8BBBBBBA.1BBBBBBBBB.6A.45ABBBBB.242FFFFFFF.4DF.10FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.21AEFFFDCCC.72',
+  '.109BBBBBBBBBBB.3BBBBBBBBBBBBBBBBBBB.3BBBBA.7ABBBBBBBBA.2ABB.8BBBBBBBBBBBBBBBBBB.3ABBBBBA.42BBBBBB.241EFFFFFFFE.3DFD.1AEFFFFFAAFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.20FFFFFFFFFFFFFFFFFFFFF.61',
+  '.110ABBBBBBBB.3BBBBBBBBBBBBBBBBBBBBBABBBBBB.10ABBBBB.3AAA.8BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.38BBBBBBB.240FFFFFFFFF.2DFFF.1FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.6ED.4CD.4AA.1FFFFFFFFFFFFFFFFFFFFFE.59',
+  '.113BBBA.8ABBBBBBBBBBBBBBBBBBBBBBBBA.17BBBBBB.8ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBABBB.38BB.238FFFFFFFFFFD.1CFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFD.3FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFD.54CE',
+  '.124BBBBBBAABBBBBBBBBBBBBBBBBBBB.15BBBBBBBB.7BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.188JMMMMMMMMMMMMMJ.71FFFFFFFFFFFFD.2FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.39CC',
+  '.104B.29BBBBBBBBBBBBBBBBBBBBBA.11BBBBBBBBBA.11ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.28BBBBB.144DKMMMMMMMMMMMMMMMMMMMJ.72FFFFFFFFFFFF.2FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.21A.18',
+  '.100BAABBBB.3B.3AAA.9ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.5BBA.4BBBBBA.13AAAAAA.11BBBBBBBBBBBBBBBBBBA.26BBBBB.141JMMMMMMMMMMMMMMMMMMMMMMMMKMML.54DFFFDC.8FFFFFFFFFFFE.1FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.4CCCDDCA.3AA.4FFFFFFFFFFFFFEC.5',
+  '.100BBBBBBBBBBBBBBBBBBBBA.10ABBBBBBBBBBBBBAAAAABBBBB.7ABABBB.3ABBBBBBB.10BBBBBBBA.10BBBBBBBBBBBBBBBBBB.170KMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMJJD.46CFFFFFFFFFA.4AFFFFFFFFFC.1EFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFC.3FFFFFFFFFFFFFFFFFE.1',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBAAAA.3BBAAAA.32ABBBBBBB.1BBB.6BBBBBBBB.12ABBBBBBBBBBBBB.169DMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMLG.10G.16DKMML.6JMMK.2FFFFFFFFFFFFD.3DFFFFFFFFC.2FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.12BBBBBBB.13BBBA.4BBBBBBBBBBBBA.4BBBBBBBB.17BBBBBBBBBBBB.29BB.134DMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMG.7IMMMMK.8KMMMMMMJKMMMMMMMMMMFFFFFFFFFFFFFFFFDFFFFFFFFFF.2FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.8AA.3BBBBBBBBBBB.8BBBBA.1BBBBBBBBBBBBBBA.3ABBBBBBBBA.9BBBA.4BBBBBBBBBBBBBBBA.23BBB.133MMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMML.5DMMMMMG.2DKMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFD.2DFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.1BBBBBBBBBBB.9AA.6ABBBBBBBBBBBBBBBBA.20ABBB.131DMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMJ.4IMMMJ.4MMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFC.2FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.19BBBBBBBBBBBBBBBBBBBAAA.17ABB.130HMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMG.5IMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFF.2CFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.24ABBBBBBBBBBB.3ABBBBBBB.18BBB.56KOOOMD.2GMMIDLNPPPP.54KMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMJ.3JMMMMMMMG.1JMMMMLMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.25BBBBBBBBBBBB.5BBBBB.20BB.55IPPPPPPNOPPPPPPPPPPOD.52MMMMMMMMMMMMMMMMMMMMMLJ.1JMMMMMMMMMMMMMMMMMMMMM.10LMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.2BB.18AAABBBBBBBBBBBBBB.6AA.22A.58DOPPPPPPPPPPPPPPPPL.49HMMMMMMMMMMMMMMMMMMMMJ.6KMMMMMMMMMMMMMMMMMMM.4G.4DMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.3BBBBBB.9ABBBBBBBBBBBBBBBBBBBBBBB.85GNOPPPPPPPPPPPPPPPPMD.48KMMMMMMMMMMMMMMMMMMMMM.5KMMMMMMMMMMMMMMMMMMMMM.3MMMMMIGMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFA',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.4ABBBBBBBBA.16ABBBBBBBBBBBBBBB.85DMPPPPPPPPPPPPNLD.48JMMMMMMMMMMMMMMMMMMMMMMK.3KMMMMMMMMMMMMMMMMMMMMMMMMMIDMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFC.3',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.8ABBBB.3ABBB.17BBBBBBBBBBBBBB.85IJMNOOPPONKD.50GMMMMMMMMMMMMMMMMMMMMMMK.3LMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFA.2',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.39BBBBBBA.2BBBB.144GLMMMMMMMMMMMMMMMMMMMMMMK.3DMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFA.1',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.17AA.25BBBBB.146DLMMMMMMMMMMMMMMMMMMMMMMMH.5MMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF.1',
+  '.100BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.26A.3BBBA.4A.11ABB.143KMMMMMMMMMMMMMMMMMMMMMMMMG.6MMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFC.1DFFFFFFFFFFFFFFFFFFFFFFFFD.2CCC.1',
+  '.28IJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.27A.3BBBBBBBBBBB.46FGGGGGGGGGGGGG.95ZZZZZZZZZZZZZZZZZZZZZZZZZ.7QZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSS.2SSSSSSSSSSSSSSSSSSSSSQJ.9',
+  '.28FJJJJJJJJJJJJJJJJJJJJJJJJJJJJJHJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.32ABBBBBBBBBBBB.45FGGGGGGGGGGGC.95ZZZZZZZZZZZZZZZZZZZZZZZZY.7UZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSQ.5SSSSSN.2RSSSSSSSSSSSSSSSSSSJ.13',
+  '.29IJJJJJJJJJJJJJJJJJJJJJJJJJJGGIJJJJIGDGIJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.34BBBBBBBBBBBBBBBA.43AAABFGGGGF.96ZZZZZZZZZZZZZZZZZZZZZZZZZX.6UZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSR.7MSRJ.2QSSSSSSSSSSSSSSSSSSJ.15',
+  '.25EIIG.1FJJJJJJJJJJJJJJJJJJJJJJJJCDJJJJJJJ.5FHJJJIJJJJJJJJJJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.34BBBBBBBBBBBBBBBA.48DGGFB.96ZZZZZZZZZZZZZZZZZZZZZZZZZZZU.6WZZZZZZXWW.2TZZfliaZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSM.12RSSSSSSSSSSSSN.1MSSR.18',
+  '.26CEC.3ED.1EJJJJJJJJJJJJJJJJJG.2IJJJHGD.13CFHIJJJJJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.34BBBBBBBBBBBBBBBB.9BA.138YZZZZZZZZZZZZZZZZZZZZZZZZZZT.7UWQ.2QWQ.3WZajqndZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSS.12QSSSSSPRSP.1PM.6J.19',
+  '.35AJJJJJJJJJJJJJJJJG.3DGD.21AHJJJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.33BBBBBBBBBBBBBBBBB.8BBB.138QZZZZZZZZZUZZZZZZZZZZZZZZll.9UYYYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSQJ.3SSSSSSSR.9MSSSSSSQ.33',
+  '.36GGADGJIIHIJJJJJJJA.28AHJJJJJJJJJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBAA.31BBBBBBBBBBBBBBBBBBA.4ABBBBBA.116bbbb.17ZZZZZZZX.3ZZZZZZZZZZZZXQ.10UYYYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSJ.17PPPPM.11RSSSSSSQ.34',
+  '.44CJJJJJJI.33DGGGGIIJJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.31BBBBBBBBBBBBBBBBBBB.1ABBBBBBBBA.114fhhgb.18UZZZYQ.4WZZZZZZZZZZX.13SYYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSM.33MSSSSSSSN.35',
+  '.44FJJJJHCEHJIE.36IJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.32BBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.112ehhhdcee.24TQ.1ZZZZZZZZZZT.10XU.2YYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSQ.32QSSSSSSSSSSSQM.33',
+  '.43HJJJD.2CJJJG.37AJJJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.32BBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.110Vhhhhhhhf.21WXZZ.2UZZZZZZZZZ.9SYYYU.1YYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSJ.32MSSSSSSSSSSSSSQ.33',
+  '.40AGJJIGA.4EF.41GJJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.25BBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.110bghhhhhhc.20ZZZZZQ.2YZZZZZZZZ.9YYYYYYYYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZenSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSM.33NSSSSSSSSSSSSSSP.33',
+  '.39HJJJG.51EJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.23BBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.111chhhhhc.21ZZZZZY.2NZZZZZZZQ.9YYYYYYYYYYYYYYYZZZZZZZZZZZZZZZaejkhbZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSQ.35SSSSSSSSSSSSSSSM.33',
+  '.35EIJJIIHC.52AJJJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.19BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.109bgghhhhfY.19ZZZZQNXYZZZZZ.13YYYYYYYYYYYYYYYZZZZZZZZZZZZZZZbkrsofZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSJ.36SSSSSSSSSSSSS.36',
+  '.33FIJHE.58CHJJBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBA.14ABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB.104Vbc.1VYghhhhhg.19XZZZ.2WYYRWWQ.12UYYYYYYYYYYYYYYYZZZZZZZZZZZZZZZZdijgbZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWlfWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSN.37MSSSSSSSSSSSSS.36',
+  '.30DIIIF.63AJOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOI.4HNOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOMF.97eghhgZ.1defhhhhfV.18hhhY.2VY.8aeeeY.1beeeeeeeeYYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWidWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSPPM.37SSSSSSSSSSSSR.36',
+  '.30A.62C.2A.2IOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOI.5MOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOON.95cghhhhgY.4chhhhhe.17hhhhhbfhhhY.1bdeeeeeeeeeeeeeeeeeYYYYYYYYYZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSJ.2RSRJ.3KN.25SSSSSSSSSSM.38',
+  '.93EJJF.3IOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOM.6OOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOMH.92Zhhhhhhf.6hmhhhgV.13hhehhoohhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSM.2MQ.25QSSSSSSSSQ.39',
+  '.94IJ.5LOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOO.6MOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOJ.92fhhhhhg.2chgghoihhhe.8cggggghhhhkkhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSccccccccccccccccccccccccccccccccccSSSSSSSSSSSSPOSSJ.24JSSSSSSSSJ.39',
+  '.95HF.4FMOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOL.5JOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOL.92fhhhhgZ.2chhhhjmhhhhfeZ.4XgggggghhhhhhhhhhipmhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSccccccccccccccccccccccccccccccccccSSSSSSSSSSSSSQSSP.25SSSSS.43',
+  '.96F.6CNOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOH.4LOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOL.91chhhhfc.2VcghhhkohhhhhhZ.4gpkgggghhhhhhhhhhinlhheeeeeeeeeeenoeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSccccccccccccccccccccccccccccccccccSSSSSSSSSSSSSQSSP.25SSSSS.43',
+  '.104OOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOL.2COOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOONIIC.90deecV.4bghhhhhhhlqoic.4dggggglmhhhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSSSNPSSP.25NSSSN.43',
+  '.104LOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOONMOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOONMLILON.102dfhhhhhlpoid.2egggggghooihhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSSQ.1GRSR.26SR.45',
+  '.103KKMNOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOL.3MONC.100ZghhgggfeeeeY.1hdgggphgggggddhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZggZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSSM.2QSSK.72',
+  '.103LOONNLMOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOMLLLLLLMNNNNMI.3KOOJ.100ZgfeeV.8fhdggggggggggddhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZmnZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSS.3QSSQ.72',
+  '.104FJOOOMFNOPOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOH.4LNMJ.8COOOOM.2C.104a.2XcddddggggggggggddhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSS.3QSSSO.71',
+  '.106CKOOOLNohOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOOMKCFIIJC.1CKMNH.6NOOOOONNOM.103dddddddimkeddddddddddhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSS.3SSQQQJ.70',
+  '.108IMWWV.1SWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYOOOOOOOOOOOOOOOOOOOOOOOOOOJ.1JNOOOOOI.9CNOOOOOOOOONH.96XddddccdddddemrphddddddddddhhhhhhhhhhhhheeeeeeeeeeeeeeeeeeZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSQ.2MSR.74',
+  '.110QVTKKWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYOOOOOOOOOOOOOOOOOOOOOOOOOHLOOOOOOOJ.10FOOOOOOOOOOOOC.95UddddddddddddegfdddddddddddhhhhhlphhhhhheeogeeeeeeeeeeeeeeccccccccccccZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSSJ.3SP.74',
+  '.111WWWbqdWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYOOOOOOOOOOOOOOOOOOOOOOOOINOOOOOOOO.11MNNNNNNOOOMOOL.96XcddddddddddddddddddddddddfffffffffffffffffeeehkeeeeeeeeeccccccccccccZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSSJ.4SO.74',
+  '.111TWWZgXWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXXXXXXXXXXWRWXXXXXOOOOI.17HOIHOOL.99XddddddddddddddddddddddfffffffffffffffffeeehkeeeeeeeeeccccccccccccZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSSJ.4GSSM.73',
+  '.111PWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXXXXXXXXXXWXXXXXXXOOOOMLI.5K.9IC.1HMN.102dddddddddddddddddddddffffffffffffffffffffeeeeeeeeeeeccccccccccccZZZZZZZZZZZZZZTTZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSSSSSJ.5KSRR.73',
+  '.112WWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXOOOOOILNNK.1KOJ.116UddddddddddddddddddddffffffffffffffffffffeeeeeeeeeeeccccccccccccZQ.1WZZZZZZV.4QZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccffccccccccccccccccSSSSSSQ.7P.1O.73',
+  '.112WWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXXXYmjXXXXXXXXXXXXOOOOOONLLMNOOMC.116ddddddddddddddddddddgmffffffffffffffffffeeeeeeeeeeeccccccccccccW.4TZZZZT.4ZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMcccccccccccdpqecccccccccccccccSSSSSN.84',
+  '.112WWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYbmaYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXXXYmjXXXXXXXXXXXXNLLLNOOOOONMF.118ddddddddddddddddddddipgfffff.2ffffffffffcccccccccccccccccccccca.5ZZZZZZZZVZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccddccccccccccccccccSSSSN.8SW.75',
+  '.112WWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYdobYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXXXXXXXXXXXXXXXXXV.2KOOOOMJC.121ddddddddddddddddddddffffffff.2WWafffffffccccccccccccccddccccca.7VZZZV.3WZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccccSSSM.9WYW.74',
+  '.112WWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXYXXXXXXXXXXXXXXXXXXXXWUO.2JOOOLC.124dddddddddddddddddddddfffffffW.4dffffffccccccccccccccfnccccb.9T.8TZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWdccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccdcccccccccccccccccccSS.11YYYYWRRV.69',
+  '.111QWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXYmreXXXXXXXXXXXXXXXXWTO.5HONH.112XbaaaaX.6Zddddddddddddddddddc.4fffffff.4ffffffccccccccccccccccccccY.20VZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWipccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMcccccccccdqhccccccccccccccccccQ.11MYYYYYYYY.69',
+  '.111UWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXdhYXXXXXXXXXXXXXXXXO.121Xddddddddddddddddddddddddddbacddd.6affffffe.4affffcccccccccccccccccccW.23ZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWncWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMccccccccccccccccccccccccccccca.10UXoeYYYYYXV.69',
+  '.111WWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYbaYXXXXXXXXXXXXXXXXXXXXXfa.122cddddddddddddddddddddddddU.10Zd.2fffffffc.5Zffccccccccccccccccccc.26ZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMcccccccceeeeeeeeeeeeeccT.1XcX.11RYZgZYYYX.72',
+  '.111UWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYdliZYYYYYZpmYXXXXXXXXXXXXXXXXXXXXZqlL.122dddddddddddddddddddddddd.11efW.2dfhhffff.7acccccccccccccccccc.27ZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWcccccccccccccccccccccccccMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMMcccccchfeeeeeeeeeeeeeb.17SYYX.1PWYM.72',
+  '.111TWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYiroaYYYYYYYYYXXXXXXXXXXXXXXXZZXXXXXXUL.121dddddddddddddddddddddgke.11cd.4ZooffffffZ.5TYYYYYYYYYYYYYYYYYW.7YZZZZZZZT.10ZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiijrofeeeeeeeeeee.19MXXT.77',
+  '.111TWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYbaYYYYYYYYYYXXXXXXXXXXXXXYgmmfWVSL.124dddddddddddddddddddddlq.13a.6cfffffffeW.3ZYYYYYYYYYYYYYYYYZkrphXWYZZZZZZZZZZZYT.2TU.1XZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWXoXWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiddeeeeeeeeeeee.20aee.77',
+  '.111UWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXXbmsrkZT.126dddddddddfmhdddddddb.14beeX.7WpfffffffW.1aYYYYYYYYYXVVVYYY.2lrjfffffffffffffffffffZZZZZZZZZZZZZZZZZZZZbZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiijjiiiiiiiihhiicceeeeeeeeeeeY.19Ugggb.76',
+  '.111UWWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXamjn.130dddddddddhqkddddddc.15Zffc.9Zffffcff.1WYYYYYYXYYW.3WVYYagfdffffflhffffffffffffZZZZZZZZZZZZZZZZZZZZocZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiimqpkiiiiih.2diicceeeeeeeeec.21Uggge.76',
+  '.112WWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWmnWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXXcpiY.129Zdddddddddddddddddd.16Zffc.10Wffd.2Z.3YYYYYY.6UYYYYcccffffgqkffffffffffffZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiijosrpmiiiZ.2Ziii.2beeeeeea.24gggf.76',
+  '.112TWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWXXWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXigXXVWL.129ddddddddddddddddddd.16XecZ.11affc.5XYYYYYX.5UYYYYffffffffffffffffffffffZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiijmosqjiZ.3jriZ.4dofeea.23Uggge.76',
+  '.112KWWWWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXYpnVXV.131pgdddddddddddddddddU.16T.13afdW.6YYYYYX.6YYYYffffffffffffffffffffffZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiijkg.6k.7ekfeeed.22egggU.76',
+  '.113QceXWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXWTXU.131ZdddddddddddddddddX.25X.2TZaff.9YYYYZl.4SYYYYfffffffffffffffffffffffffffffffffZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZbbbbbbbbbbbbbbbbbbbbbbbWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiinoiiiiiic.14jjjjjjg.20ZgggZ.77',
+  '.114gsdWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXTT.133ddddddddddddddddd.25TfffffdW.10XYYYZn.5VYYYfffffffffffffffffffffffffffffffffZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZbbbbbbbbbbbbbbbbbbbbbbbWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiimpiilliiiiiiii.2cig.8ikqqkjja.18cgggg.78',
+  '.115aXWWWOOOOOOOOOOOOOOOOOOOOOOWWWWWWWWWWYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYXXXXXXXXXXXUO.133cccccccccccccccW.14WZX.2WccZT.3Tadffc.11PYYYU.7YYYfffffffffffffffffffffffffffffffffbbbbbbbZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZbbbbbbbbbbbbbbbbbbbbbbbWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiii.7aoojjjj.14b.1Xfggggg.78',
+  '.115KWWWWOOOOOOOOOOOOOOOOOOOOOOWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbaS.133TWW.1WcccccccccT.5TZajocccccccccccccccT.5TcZ.12XYYS.8YYfffffffffffffffffffffffffffffffffbbbbbbbZZZZZZZZZZZZZZZZZZZZZZaZZZZZZZbbbbbbbbbbbbbbbbbbbbbbbWWWWWWWWWWWWWWWWWWWWWWWWWccccccccccccccccccccccccciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiimriiiiiiiihf.7ijjjjjj.13agfgghijif.78',
+  '.116TWWWOOOOOOOOOOOOOOOOOOOOOOWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbW.138XccW.9ZccccccccccccccccccccZ.22PVP.11cfe.3ffffb.2cffffffffffffffffffbbbbbbbZZZZaecZZZZZZZZZZZZZZhpZZZZZZZbbbbbbbbbbbbbbbbbbbbbbbWWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSScciiiiiiipiiiiiiiiiiiiiiiiiiiiiiiiiijiiiiirl.10ijjjjjj.13fggghkopne.78',
+  '.117UWWWWWWWWWWWWWWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbY.139ccT.6acccccccccccccccccccccccc.25P.24eeeeeeeeeeeeebbbbbbbbbbbbZZZZgrobZZZZZZZZZZZZZZZZZZZZZZbbbbbbbbbbbbbbjjjjjjjjjjWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSScciiiiiiikiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiii.12jjjjjj.8ZabZbgihginrtqi.78',
+  '.118UWWWWWWWWWWWWWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbaP.138Zcccccccccccccccccccccccccccccccccc.25UVWXWS.18aeeeeeeeeeeeeebbbbbbbbbbbbZZZZbjgaZZZZZZZZZZZZZZZZZZZZZZbbbbbbbbbbbbbbjjjjjjjjjjWWWWWWWWWWWWWWWWWWWWWWWWSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiZ.13jjjjmp.5Zfgggimmkrphhlprn.79',
+  '.118QWWXZdaXWWWWWWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbbbbbbbbaZT.138Tcccccccccccccccccccccccccccccccccca.50eeeeeeeeeeeeebbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbepcbjjjjjjjjjjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiilkiiiiiiimriiiiiiiiiiif.12djjjf.6cggggglrsmlifffgb.80',
+  '.119QQWlrmZWWWWWWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbdbbbbbbbbbbbbZ.141ccccccccccccccccccccccccccccccccccc.50ddddddddeeeeeebbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbckbbjjjjjjjjjjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiirpiiiiiiiiiiiiiiiiiiiiii.12f.7ZfggfbcdXnojd.86',
+  '.123okYWWWWWWWWXkgWWWWWWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbblqcbbbbbbbbbXV.140ojcccccccccccccccccccccccccccccccccccc.48XdmddddddeeeeeebbchebbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbbbbbjjjjmpjjjjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiii.19koeaXfgggbdgb.87',
+  '.124QWWWWWWWWWXokWWWWWWWWWXXXXXXXXXXXXXXXXXXXZeYXXXXXXXXbbbbbbbbbbbbbbbdbbbbbbbbbY.140aciecccccccccccccccccccccccccccccccccccccT.46ddlddddddeeeeeebbfrmbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbbbbbjjjjkkjjjjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiih.17inkgeageXb.91',
+  '.125qkWWWWWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXireXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbbaW.140accccccccccccccccccccccccccccccccccccccccccYYYYT.12VYYWT.23UdddddddddeeeeeebbbdcbbbbbbbZZZZZanZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbbbbbjjjjjjjjjjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiic.16eggge.1cU.93',
+  '.125agWWWWWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXYbXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbbZP.141cccccccccccccccccccccccccccccccccccccccccccYYYYYYW.9YYYYYYYT.21pfgdddddddbbbbbbbbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbbbbbjjjjjjkkkjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiikrmiiija.16cgga.96',
+  '.126TWWWVWWWWWWWWWWWWWWWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbba.142TcccccccccccccccccccccccccccccccccccccccccccYYYYYYYO.7VYYYYYYYYYY.19kdngddddddbbbbbbbbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbbbbbjjjjklmrokiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiijrijokijmpp.16cgf.97',
+  '.126QbccW.1QZccccccccccccXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbW.142bcccccccccccccccccccccccccccccccccccccccccccYYYYYYYYYVO.4OYYYYYYYYYY.8Iqmhhhgd.2dddddddddddbbbbbbbbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbbbbbbbbbbjjjjlplqnkiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiosts.16afZ.97',
+  '.127ZccZ.2XccccccccccccXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbbbbbbbbbbbbbbbbbbbbbP.142ccccccccccccccccccccccccccccccccccccccccccccYYYYYYYYYYYYW.2WYYYYYYYYYY.8Bihjkjhh.2dddddddddddbbbbbbbbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbgggggggggggjjjjjkkjiiiiiiiiiSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSSScciiiiiiioqjiiiiiiiiiiiiiiiiikrmiiiiiiiiiikmpm.116',
+  '.128bcZ.3bcccccccccccXXXXXXXXXXXXXXXXXXXXXXZcXXXXXXbbbbaXVVWWVWZbbabbbbbV.142ZcccccccccccccccccccccccccccccccccccccccccccYYYYYYYYYYYYYYYYYYYYYYYYYY.9hioroih.2dddddddddddbbbbbbbbbbbbbbbbbbZZZZZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbgggggggggggjjjjjjjjlllllllllcccccccccccccccclSSSSSSSSSSSSSSSSSSSSScciiiiiiimoiiijjiiiiiiiiiiiiijnkiiiiiiiiimsjja.116',
+  '.128VbcY.2WcccccccccccXXXXXXXXXXXXXXXXXXXXXXkrbWUUVWZbbbbV.7YYPTabbbZ.142NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhiornihNNNNdddddddddbbbbbbbbbbbbbbbbbYQ.2YZZZZZRRRRRRRRRRRRRRZZZZZZZbbbbbgggggggggggjjjjjjjjlllllllllcccccccccccccccclSSSSSSSSSSSSSSSSSSSSScciiiiiiiiiiijqrliiiiiiiiiiiiiiiiiiiiiiiiijiiic.115',
+  '.129QacY.2ZccccccccccXXXXXXXXXXXXXXXXXXXXXXYbQ.6TZZYT.11TabbaP.140NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhijihhNNNNdddddddddbbbbbbbbbbbbbbbbbZ.4ZZZZZRRRRRRRRRRRRRRZZZZZZZ.5gggggggggggjjjjjjjjllnonllllccccccccccccccccleeeeeeeeeeeeeeeeeeSSScciiiiiiiiiiijppkiiiiiiiiiiiiiiiiiiiiiiiiiiiii.116',
+  '.131acY.1QbcccccccccXXXXXXXXXXXXXXXXXXXXXXVL.24YbbbZ.138ENNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNbbbbbbbbbbbbbbbbbbZZZZZZZZZ.4TZZZZZZZZZZZZZZZZZZZZZZZZZ.5ggggggggggglllllllllmrsqmlllccccccccccccccccleeeeeeeeeeeeeeeeeeSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiii.116',
+  '.131ZcbT.1VbccccccccXXXXXXXXXXXXXXXXXXXXVO.26Zbbbb.137LNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhMNNNbbbbbbbbbbbbbbbbbbZZZZZZZZZT.4ZZZZZZZZZZZZZZZZZZZZZZZZZ.5ggggggggggglllllllllmqrpllllccccccccccccccccleeeeeeeeeeeeeeeeeeSSScciiiiiiiiiiiiiiiiiiiiiiiiiqmiiiiiiiiiiiiiiiig.116',
+  '.129QZbccZ.2TXcccccccXXXXXXXXXXXXXXXXXXXW.28ZbbbbT.133ENNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNLK.1ZbbbbbbbbbbbbbbbbbZZZZZZZZZZQ.4YZZZZZZZZZZZZZZZZZZZZZZZ.5gggggggggggllllllllllmmlllllccccccccccmcccccleeeeeeeeeeeeeeeeeeSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiii.118',
+  '.130YbcccZ.3bccccccXXXXXXXXXXXXXXXXXXXR.28SabbbY.133NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNE.3bbbbbbbbbbbbbbbbbZZZZZZZZZZZQ.5VZZZZZZZZZZZZZZZZZZZZZ.5gggggggggggllllllllmllllllllcdccccccccccccccleeeeeeeeeeeeeeeeeeSSScciiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiZ.118',
+  '.132Ybcca.2QacccccXXXXXXXXXXXXXXXXXXXR.29YbbbZ.2ZZWX.126MNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNN.4bbbbbbbbbbbbbbbbZZZZZZZZZZZZW.5QZZZZQ.2ZZZZZZZZZZZZZ.5gggggggggggllllllllqlllllllliokcccccccccccccleeeeeeeeeeeeeeeeee.5iiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiig.119',
+  '.134ZbcQ.3bccccXXXXXXXXXXXXXYXXXXXT.30abbe.2P.2Y.125NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNE.3VbbbbbbbbbbbbbbbZZZZZZZZZZZZY.1T.9Z.1ZZZZZZZZZZZZZ.5ggggggggggglllllllllllllllllpllllllllllllllllmmmmmmmmeeeeeeeeee.5iiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiipi.120',
+  '.135ZcY.3accccccccccccccccgqccccca.30Taer.130LNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNN.4bbbbbbbbbbbbbbbZZZZZZZZZZZZXXZV.7ZZ.1TZZZZZZZZZZZZ.5ghhgggggggglllllllllllllllllllllllllllpllllllmmmmmmmmeeeeeeeeee.5iiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiikf.120',
+  '.135ZcbT.3WbcccccccccccccccecccccW.31WaX.3VS.125NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNL.4bbbbbbbbbbbbbbZZZZadZZZZZZZZZV.6oaZ.5QWZZZZZZZ.4Gfppigggggggllllllllllllllllllllllllllllllllllmmmmmmmmeeeeeeeeee.5iiiiipiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiii.3im.116',
+  '.135XbcZ.4Vccccccccccccccccccccb.38ZZ.124ENNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNS.3abbbbbbbbbbbbbbbbbjrebbbbbbbb.6bbbbS.19jskgggggggllllllllllllllllllllllllllllllllllmmmmmmmmeeeeeeeeee.5iiiiimiiiiiiiiiiiiiiiiiiiiiiiiiiiiijmi.3doq.116',
+  '.136QabY.4VbccccccccccccccccccZ.163INNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNbS.2SbbbbbbbbbbbbbbbbbcgbbbbbbbbbYYbbYbbbbbbS.19khgggggggllllllllllllllllllllllllllllllllllmmnqpnmmeeeeeeeeee.5iiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiiijoZ.2Zklh.116',
+  '.138YcZ.4QacccccccccccccccccZ.163NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNbS.4WbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbZV.16DAlllllllllllllllllllllllllllllllllllllllllmmotrnmmaaaaaaaaaaaaaaaaaiiiiiiiiiiiiiiiiiiiiiiiikiiiiiiiif.4illc.116',
+  '.139ZbT.4QbccccccccccccccccZ.29Xnaaa.128LNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNb.6bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbS.18llllllloqllllllllllllllllllllllllllllllmnmnpommmaaaaaaaaaaaaaaaaaggggggggggggggggggiiiiiourkiiiih.6jlj.117',
+  '.139QV.6QbcccccccccccccccX.26Xegefggggd.126NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNbbV.4SbbbbbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbbbbbS.18jlllllnplllllplllllllllllllllllllllllmsqmmmmmnmaaaaaaaaaaaaaaaaaggggggggggggggqgggiiiiimrsrjihZ.7ilg.117',
+  '.40WU.106YcccccccccccccccX.25Ufda.1Uefgggfgfa.121INNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNhhhhhhhNNNNbbbZ.4bbbbbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbbbbba.18illllllllllllllllllllllllllllllllllllmqpmmmd.1smaaaaaaaaaaaaaaaaaggggggggggggggggggiiiiiiilt.11Zj.118',
+  '.41R.1UU.103Qbccccccccccccccb.25aZ.7beffggdU.119NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXX.4nbbbbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbbbbb.19bllllllllllllllllllllllllllllllllllllllm.1di.2dmaaaaaaaaaaaaaaaaaggggggggggggggggggiiiihc.134',
+  '.43WXUU.102acccccccccccccccW.13QYbbcccX.15ZgggfcX.117NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXU.3obbbbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbbbbW.20blllllsnlllllllllllplllllllllllllll.10maaaaaaaaaaaaaaaaagggggggggphggb.3gii.138',
+  '.46Ub.101bcchqcccccccccccZ.13bcccccbX.16bdgggfda.115NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXO.3SbbbbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbbbZ.23hi.2mllllllllllllllllllllllllllll.10jaaaaaaaaaaaaaaaaagggggggggmhg.5gic.138',
+  '.48XR.98WccccfccccccdhfcccY.12ccccccW.18Uegggggb.115NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXO.4YbbbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbbV.28llllllllllllllllllllllllllllg.11Zaaaaaaaaaaaaaaaaggggggggggg.6aia.138',
+  '.47Rdd.99bcccccccccdkqofcccT.10Tcccccb.19XX.2ZaU.2cfedfeb.107NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXU.6bbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbb.29nmllllllllllllllllllllllllj.14Xaaaaaaaaaaaaaaagggggggggg.5Xefih.138',
+  '.48cb.99QaccccccccdlrpocccZ.9QbcccccbQ.28dgggggea.105NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXX.6SbbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbbb.29trmllllllllllllllllllllll.17aaaaaaaaaaaaaaagggggggggg.5eggia.138',
+  '.151WbcccccccfkijccccZYT.4WZbcccccca.26ZX.1UogggingfX.103NNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXXO.6bbbbbbbbOOOOOOOOOOOOOOOOOOOOOObbYV.29oqqmllllllllllllllllllll.18Waaaaaaaaaaaaaagggggggggg.5eggf.139',
+  '.152QZbcccccccccccccccbXabcddddddddbW.18ZddeZ.3efedfgfbgiac.2cggc.98KNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNNXXXXXXU.5SbbbbbbbOOOOOOOOOOOOOOOOOOOOOObS.32lpmlllllllllllllllllll.20aaaaaaaaaaaaaaggggggggggg.4Tba.21hhfe.115',
+  '.155Qaccccccccccccccccccdddddddda.20WaaX.8ab.7X.101abbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXS.5YbbbbbbOOOOOOOOOOOOOOOOOOOOOMW.33llllllllllnnlllllllll.21Waaaaaaaaaaaaagggggggggggb.26ajjjg.115',
+  '.157Vaccccccccccccccccdddddddda.143bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXb.6abbbbbOOOOOOOOOOOOOOOOOOOON.35llllllllllqqlllllllh.23aabhaaaaaaaaaggggggggggggX.25djjji.115',
+  '.159TZbbccccccccccccddddddddZ.142Vbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbS.6bbbbbbbbbbbbbbbbbbbbbbaSV.36illlllllllllllllllk.23XaaeqbaaaaaaaagggggggggggggX.24djjji.115',
+  '.162QZbccccbabcccdddddddb.144bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXbZ.6bbbbbbbbbbbbbbbbbbbb.41elllllllllllllllli.24aaaab.1Raaaaaaaggggggggggggggd.22bgjjje.115',
+  '.165VZYT.3YbcdddddddbacaacdccZ.134Zbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXjnYXXXXXXXXXXbbS.5bbbcbbbbbbbbbbbbbbba.42llllllllllllll.27RZaW.3aaaaaaagggggggggggggggb.21djjje.116',
+  '.173VbdddddddddddddddddcY.131Sbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXjnYXXXXXXXXXXbbbY.4bbbobbbbbbbbbbbbbbV.43blllllllllllle.34aaaaaaagggggggggggggggg.21XjkkX.116',
+  '.174Qcddmlddddddddddddda.130bobbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXXXccccccccccccccccS.2ZccccccccccbbbbW.47kllllllllllle.34Zaaaaaagggggggggggggggg.22gqrc.116',
+  '.175RbddddddddddddddddZ.131Sbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb.12XXXXXXXXXXXXXXXXXXXXXXcccccccccccccccccS.2ccccccccccbbW.50lllllllllllh.34Uaaabhhggggggggggggggggd.22mohggb.113',
+  '.177UXadddddddddddddR.132bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbb.12XXXXXXXXXXXXXXXXXXXXXXcccccccccccccccccc.2cccccccccZV.52lllllllllllk.35aaacqqggggggggggggggggf.22eigijji.112',
+  '.181RZbZcddddddc.133bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbb.12XXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccc.1ccccccZX.55klllloqlllms.35Xaabgeggggggggggggggggg.21aig.1XdiiX.111',
+  '.184Ucddddddd.133bbbbbbbbbbbbbbbbbllbbbbbbbbbbbcbbbbbbbbffffffffffffffffffffffffbbb.12XXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccZcccS.58gllllprlllmp.36aaa.1Wggggggggggggggggg.22gi.3XgeX.110',
+  '.185Rbdddddc.22LVT.2L.105Ybbbbbbbbbbbbbbbbbbbbbbbbbbbbbmkbbbbbbbfffffffffffklfffffffffffbbb.12XXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccc.63llllllllll.36Waaa.4dgggggggggggggg.23e.5Xii.109',
+  '.186Rcdddda.21RWXT.1TV.106bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbfffffffffffklfffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccS.12VZaX.47elllllllll.37aaa.5eggggggggggggd.24XgdX.2ejd.108',
+  '.187RcdddY.17RTUVXXUOTWXXVL.104SbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXcccccccccccccccccccccS.6SZaaaaaa.49lllllllll.37aaY.6gggggghkggge.20aX.4jjb.1dihf.108',
+  '.188adddc.16VXXXXXXWWXXXXXVL.1ZQ.3ORTUTTWQ.91bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXcccccccccccccccccccccc.2Xcccccaaaaaa.49ellllllll.37aa.7bgggggmrgga.21hd.4ighhXhd.109',
+  '.188addddZ.14QXXXXXXXTVXXXXXXXboXURTWXXW.1VWQ.91XbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaaaaa.50lllllllg.37aa.9Xgggghb.22dh.5Xgji.1eb.109',
+  '.188UaYdddb.5RX.6TXXXXXXXLOXXXXXXXXXXXXXXXXXWWT.93SmcbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaaaaZ.50jlllllb.1d.36gg.11gggd.22bg.6XjiX.2ab.108',
+  '.191RbddZ.2RZcdcaR.2SWXXXXXXXVVXXXXXXXXXXXXXXXXXXXXT.93SbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXcccccccccccoccccccccccccccccccaaaaaV.50bllllleXjh.34bggf.9dggd.22ehX.7ee.4je.107',
+  '.192YddddcddbRZdcYTXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXVQ.93abbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXcccccccccccmccccccccccccccccccaaaaa.52lllk.2ejjf.33ggggb.9gX.22Xe.10aX.1hjjh.107',
+  '.193ZbacddZ.3bddXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX.93XbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffffffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaaaZ.53ll.3gjji.33ggggg.43Xgihijjji.107',
+  '.196Rcdb.3addXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX.94bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbffggffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaaa.59gjjjf.32X.1ggg.43hjihjjjjj.107',
+  '.198aW.3RcdXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX.95bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbghokffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaaZ.59hjjjg.34Xgge.41Xiba.1ijjij.107',
+  '.204QXXXYXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX.96VbbbbbbbbbbbbbbbbbbbodbbbbbbbiqngffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaaR.59mjjjd.35egggb.29ae.12ajji.1h.107',
+  '.205WXXphXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX.97SbbbbbbbbbbbbbbbbbbbbbbbbbbbiqngffffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaaY.61hig.37dddda.27Zcjb.12gjjbX.107',
+  '.205WXXYXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX.99abbbbbbbbbbbfebbbbbbnbbV.6efffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaa.102dddddc.25Yccjiga.11ahX.108',
+  '.205WXXXXYgeXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQNE.84XbbbbbbbbbbonbbbbbbY.10fffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccaU.92XbbaZQ.4ddddddb.22QZcccjjjjd.121',
+  '.205VXXXXcroYXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQPJ.84Sbbbbba.6VbbV.12WffffffffffffffffffbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccccY.94bcccbQ.4dddddd.21VcccccjjiX.122',
+  '.205WXXXXYjhXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQPK.85SYX.25XbbSS.1bbobbccbbbbbbbbaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXcccccccccccccccccccccccccccccc.95QbcccbQ.3dddddd.20QccccccccY.123',
+  '.205TXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQO.119RajaammaaaaaaaaaaaaaaaaaaaaXXXXXXXXXXXXXXXXXXXXXXccccccccccccccccccccccccccccc.97QbcccnQ.2bdeddd.19QbcccccccX.124',
+  '.204OXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQE.120aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaaaaaaaaaaa.100accdcX.2irfdd.18Tbcccccccb.125',
+  '.203RWXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQM.120aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaaaaaaaaaaR.100QccccdW.1Zkedda.14TbcccccccccccX.124',
+  '.202SXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQP.120aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaaaaaaanaR.102TbccddXXUdddd.14Zccccccccccccc.19Q.104',
+  '.202VXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQO.118Uaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaaaaaaaf.105QbcdddddXbdic.9TcaaccccccccccccccT.13Q.4bT.103',
+  '.201UYZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQH.117YaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaaaaaaR.107WcddddddXard.9bccccccccccccccccccV.3XY.5QaT.3QccX.102',
+  '.199QYZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQO.118UaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaadddddddeddddddddddddddddaaaaaZ.110bcccccccQ.11cccccccccccccccccbWW.2accccbbbcY.4QccW.102',
+  '.199RZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQP.119aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddgoddddddddddddddddaaaaV.111ZccccccccV.10cccccccccccccccccT.3YbYWWWWZZW.6cYT.102',
+  '.199XZZflZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQPPPM.115aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaaV.113acccccccW.10bcccccccccccccccc.4bT.14aQ.7Q.95',
+  '.198QZZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQPJONK.110YaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddddaaY.115bccccccV.10Zcccccccccccccccc.4cY.2TXZY.8QZ.4WZaccbZ.92',
+  '.198XZZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYVP.107Xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaadddddddddddddddqfdddddddaa.116Vccccccca.10bcccccccccccccbQ.3XccZbccV.15YccccccW.91',
+  '.198XZZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYU.107aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaadddddddddddddddedddddddddZ.117acccccccQ.10bccccccccccccV.4ZccccaT.18WccccZ.5YZZV.82',
+  '.198XaoZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYM.1P.104Raaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaadddddddddddddddddddddddd.119QcccccccbWQ.8bcccccccccccc.5bcccca.20XZZba.3WcccccbYQ.79',
+  '.198NQXZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYXYYYWTSSSM.98Waaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddd.121Wccccccccb.8Zcccccccccccc.4XcccYccX.11ZZZV.4ZbccbQ.1TccccccccccVQ.17QUO.56',
+  '.199UZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYU.98ZaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaddddddddddddddddddddddZ.122YccccccccV.10VcaWbcccca.4QccbTccb.7abTQbbbbcT.2QbccccZbccccccccccXXWTL.16UT.55',
+  '.198WZZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYpf.97Zaaaaaaacfcaaaaaaaaaaaaaaaaaaaaaaaaaadddddddddddddddddddddd.124Zccccccc.17bcaW.6cbQbccQ.6VZQ.5TW.3YcWbcccccccccccccXXXXXVTL.14TT.54',
+  '.197SZZZZZZZZZZZZXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYZYU.97ZaaaaaakrlbaaaaaaaaaaaaaaaaaaaaaaaaadddddddddddddddddddddZ.125acccccb.17Q.9bb.2ccb.20Q.2ZccccccccccccXXXXXXXXR.12VSWL.53',
+  '.197UZZZZZZZZZZZZWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYVM.96RRRRRShpjTRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddc.127Vbcccb.27bb.2aZcZ.25WbccccccccXXXXXXXXXS.10LWUQ.54',
+  '.197QWWWWWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYXXR.93IRRRRRUZVRRRRRRRRRRRRRRRRaaaaaaaaaadddddddddddddddddddd.130bccb.26Qcb.3YcX.27VbccccccXXXXXXXXXW.4LL.1QRLXXR.4T.50',
+  '.197KWWWWWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYX.94RRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaadddddddddddddddddddd.130QbbZW.26WT.4Q.22YZ.6bcccccXXXXXXXXXXWTL.1QWWXXXVL.5VT.49',
+  '.197PVWWWWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYY.94RRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaadddddddddddddddddddd.133jptqmj.51bX.6VcccccXXXXXXXXXXXXXS.2RUUQ.7LWR.48',
+  '.199UWWWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYY.94IRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaadddddddddddddddddddhr.132nnporoliiinnmkc.42X.8cccccXXXXXXXXXXXXTQ.14QV.1T.46',
+  '.200UWWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYY.95QRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddg.133fooooooooooooq.50QbccccXXXXXXXXXXXXS.18QT.1OL.42',
+  '.200KWWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYfl.94LRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddd.135fklikmoooooonmlT.45TccccccXXXXXXUSVXXXXU.20LVT.41',
+  '.201QWWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYjl.95bTRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddd.142ilnnnnoocaQ.2QaXW.1QYZQ.1WZ.5TWWT.20ZbbWZbcXXXXWL.3LWXXXU.21TT.1S.38',
+  '.202UWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYY.96reRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddd.149iZT.2VccbZQTbbbbZX.3QbccaQ.25QbXXXXW.5LXXXXL.23UR.37',
+  '.202QWWWWWWWWWWWWWWWWWWWWQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYYU.95VjXRRRRRRRRRRRRRRRRRRRRaaaaaaaaaadddddddddddddddddddddX.159T.7QacbX.30RRUTO.6QXXXWT.20TSLVL.36',
+  '.203VWWWWWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYYU.97SRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaadddddddddddddddddddddd.158ZcbT.5acY.44RXXXXU.19SWTOO.36',
+  '.203SWWWWWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYYU.98QRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddddc.158QZW.5bW.46LSUWWWR.20LS.36',
+  '.204VWWWWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYYU.100RRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddddd.203RO.13LSO.21T.36',
+  '.204QYXWWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYX.101RRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddddd.203WV.74',
+  '.205ooYWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYYP.101RRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaddddddddddddddddddddddd.202OXWL.73',
+  '.205iqZWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYYYV.101LRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaa.34OY.166AAAAA.2A.11AA.74',
+  '.206XWWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYnl.101IRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaa.34UaW.161AAAAAAAAAAAA.11AA.74',
+  '.206KVWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYh.102RRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaa.34Zaa.161AAAAAAAAAAA.12AAA.73',
+  '.207VWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRQQQQQQQQQQQQQQQQQQYYYYYYYYYYYYYYYYYYYM.101NRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaX.13OYaaaU.159AAAAAAAAAAAA.11AAAA.73',
+  '.207SWWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZ.102RRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaY.13TaaaaU.152AA.4AAAAAAAAAAAA.13AAA.1MK.70',
+  '.208UWWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZ.102RRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa.12TZaaaaX.150AAAAA.3AAAAAAAAAAA.14AAAARRL.69',
+  '.209TWWWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZaZZZZZZZZZZZZZZZZZS.100IRRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaobaaaaaaaaaaaaaaaaaaaaaaaU.11Waaaaaaa.149AAAAAAAAAAAAAAAAAAAAA.13AAAARRP.69',
+  '.210PVWWWWWWWWWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZgqZZZZZZZZZZZZZZZZZR.100QRRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaacaaaaaaaaaaaaaaaaaaaaaaaa.10UYaaaaaaXY.148AAAAAAAAAAAAAAAAAAAAAAA.11AAAAARRQ.69',
+  '.212SWWWWWWWWWWjSRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZbZZZZZZZZZZZZZZZZZ.101RRRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaR.7RYaaaaaaaaaZ.149AAAAAAAAAAAAAAAAAAAAAAAAAA.8AAAAARRR.69',
+  '.213KTWWWWWWWWjSRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZY.101RRRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaR.8WaaaaaaaaaaZ.148AAAAAAAAAAAAAAAAAAAAAAAAAAAA.7AAAAARRRM.68',
+  '.215KTWWWWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZX.101RRRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaaaaaaaaaaaaaaaaZR.10Zaaaaaaaaaa.146A.2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.4AAAAAARRRRF.67',
+  '.217UWWWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZW.101RRRRRRRRRRRRRRRRRRRRRRRRRaaaaaaaaaaaaaclaaaaaaaaaaaa.13aaaaaaaaaaZ.146AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.2AAAAAAARRRRM.67',
+  '.218QVWWWRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZN.101WQQQQQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaaaaZ.14aaaaaaaaaaY.146AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRL.67',
+  '.219PQRRRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZY.103NQQQQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaaaY.15ZaaaaalmaaU.145AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRP.67',
+  '.219NQRRRRRRRRRRRRRRRRRRRRRRRRZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZZW.104QQQQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaaR.16Uaaaaaccaa.145AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRPL.65',
+  '.219NQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZZZZZZZlpZZZZZZZS.104PQQQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaU.17OaaaaaaaaY.144AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRPF.63',
+  '.219KQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZZZZZZZgjZZZZZZV.106QQQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaa.18XaaaaaaaaT.140AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.64',
+  '.219KQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZZZZZZZZZZZZZZY.107PQQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaa.17Raaaaaaaaa.139AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.63',
+  '.219KQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZZZZZZZZZZZZZZT.108QQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaY.15RYaaaaaaaaY.135AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.62',
+  '.219KQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZZZZZZZZZZZZZZS.108KQQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaa.15UaaaaaaaaaT.134AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.61',
+  '.219NQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZZZZZZZZbhdZYS.110OQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaaW.14Xaaaaaaaaa.133AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.61',
+  '.219NQRRRRRRRRRRRRRRRRRRRRRRRRVVVVVVVZZZZZZZZZZZZZchfaZZZktobQ.111NQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaa.15XaaaaaaaaY.132AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.59',
+  '.219PQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZZZblqofZZXee.114NQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaa.15OaaaaaaaaV.132AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.59',
+  '.219PQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZZZblrpfWN.117NQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaaU.15YaaaaaaaO.132AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.58',
+  '.219QQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZZZaehV.120HQQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaaa.16XaaaaaaZ.132AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.57',
+  '.218HQQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZZZZU.123QQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaaaW.17TaaaaaaU.133AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.56',
+  '.218KQQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZapaZS.124QQQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaaaR.20TYaaXO.134AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRO.54',
+  '.218MQQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZhZU.125OQQQQQQQQQQQQQQQQQQaaaaaaaceaaaaaaaaY.163AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRR.54',
+  '.218NQQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZZ.127QQQQQQQQQQQQQQQQQQaaaaaaanpbaaaaaaaa.163AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRL.53',
+  '.218OQQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZY.127QQQQQQQQQQQQQQQQQQaaaaaaabbaaaaaaaaa.162AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRM.53',
+  '.218PQQQQQQQQQQQQQQQQVVVVVVVVVVVVVVVVVZZZZZZZZZZZ.127PQQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaY.162AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRki.53',
+  '.218QQQQQQQQQQQQQQQQQQQQQQQQQQZZZZZZZZZZZZZZZZZZY.128QQQQQQQQQQQQQQQQQaaaaaaaaaaaaaaaaaU.163AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRfh.53',
+  '.217MQQQQQQQQQQQQQQQQQQQQQQQQQQZZZZZZZZZZZZZZZZZZX.128Raaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa.164AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRRK.52',
+  '.217PQQQQQQQQQQQQQQQQQQQQQQQQQQZZZZZZZZZZZZZZZZZZQ.129XaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaZ.165AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRR.53',
+  '.217QQQQQQQQQQQQQQQQQQQQQQQQQQQZZZZZZZZZZZZZZZZYN.131aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaX.166AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRQ.53',
+  '.217PQQQQQQQQQQQQQQQQQQQQQQQQQQZZZZZZZZZZZZalaZQ.132Raaaaaaaaaaaaaaaaaaaaaaaaaaaoj.167AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRO.53',
+  '.217PQQQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTZZaobW.134Zaaaaaaaaaaaaaaaaaaaaaaaaaaa.168QRRRAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRL.53',
+  '.216LQQQQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTZZZZZN.135aaaaaaaaaaaaaaaaaaaaaaaaaa.169ORRRAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRRL.53',
+  '.216KQQQQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTZZZZS.136UaaaaaaaaaaaaaaaaaaaaaaaaR.169FRRRAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRR.54',
+  '.216EQQQQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTZZYN.138aaaaaaaaaaaaaaaaaaaaaaaR.171nWRAAAAAAAAAAAAAAAAAAAAAA.8AAAAAAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRP.54',
+  '.217PQQQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTZW.140aaaaaaaaaaaaaaaaaaaaaa.173cSRAAAAAAAAAAAAAAAAA.17AAAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRRRI.54',
+  '.216EQSQQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTZ.141aaaaaaaaaaaaaaaaaaaaa.174ORRAAAAAAAAAAAAAAA.20AAAAAAARRRRRRRRRRRRRRRRRRRRRRRRRRRQM.55',
+  '.216McqiQQQQQQQQQQQQQQQQQQQQQQQQTTTTTTTTTTV.141aaaaaaaaaaaaaaaaaaaU.175PRRAAAAAAAAAAAAAA.22AAAA.2RRRRRRRRRRRRRRRRRRRRRRRRRRTI.56',
+  '.216OZnfQQQQQQQQQQQQQQQQQQQQQRYZVTTTTTTTTO.142plaaaaaaaaaaaaaaX.177RRRRAAAAAAA.3A.26AA.3RRRRRRRRRRRRRRRRRRRRRRRRRgq.57',
+  '.215NWWWWWWWWWWbbbbbbbbbbbbbbbeokiUTTTTTTQ.144faaaaaZR.185ORRRAAAAA.32A.3ARRRRRRRRRRRRRRRRRRRRRRRRRXZ.57',
+  '.215TWWWWWWWWWWbbbbbbbbbbbbbbbgqre.1LnSSSN.146UaZ.190FORAA.40NRRRRRRRRRRRRRRRRRRRRRRRRP.43RT.13',
+  '.214KWWWWWWWWWWWbbbbbbbbbbbbbbbbgidW.390NRRRRRRRRRRRRRRRRRRRRRRRRM.44UUQ.11',
+  '.214SWWWWWWWWWWWbbbbbbbbbbbbbbbbbbbW.390KLPRRRRRRRRRRRRRRRRRRRRRO.45JUU.11',
+  '.214VWWWWWWWWWWWbbbbbbbbbbbbbbbbbbbaT.392QRRRRRRRRRRRRRRRRRRRRM.46NUP.10',
+  '.213NWWWWWWWWWWWWbbbbbbbbbbbbbbbbbbbbX.392MRRRRRRRRRRRRRRRRRRRR.48RmQR.8',
+  '.212NVWWWWWWWWWWWWbbbbbbbbbbbbbbbbbbbaO.392FRRRRRRRRRTSRRRRRRRRQ.49UUU.8',
+  '.212KWWWWWWWWWWWWWbbbbbbbbbbbbbbbbbbbV.394NRRRRRRRUpnSRRRRPOOK.49SVVTQ.1ST.3',
+  '.213WWWWWWWWWWWWWbbbbbbbbbbbbbbbbbaV.396INPQRRRPQYRRRPI.53TVVVVVVU.3',
+  '.213UWWWWWWWWWWWWbbbbbbbbbaZZZYYXR.402FNM.2FOQN.54MUVVVVVVR.3',
+  '.213TWWWWWWWWWWWWbbbbbbbbbZ.471NVVVVVUQQJ.3',
+  '.212PWWWWWWWWWWWWWbbbbbbbbbY.472QUVVVU.6',
+  '.212TWWWWWWWWWWWWWbbbbbbbbbY.474UVVS.6',
+  '.212UWWWWWWWWWWWWWbbbbZabbaX.468PU.1J.1JUVU.7',
+  '.212VWWWWWWWWWWWWWbbba.1OVV.416AA.1AAA.48UVTURQUUM.7',
+  '.212WWWWWWWWWWWWWWbbbb.421AAAAA.47TVVVVR.1N.9',
+  '.211PWSVWWWWWWWWWWWbbbbYWY.418AAAAA.46RVVVVT.12',
+  '.211SV.1TWWWWWWWWWWWbbbbbZW.418AAAA.46RVVVVUJ.12',
+  '.211QT.1VWWWWWWWWWWWbbbaV.421AA.45JTVVVVUJ.13',
+  '.213KWWWWWWWWWWWWbbbY.467MRUVVVVUT.14',
+  '.211USRWWWWWWWWWWWWbbbY.465JUVVVVVUN.16',
+  '.211WWWWWWWWWWWWWWWbbaR.464NUVVVVVVS.17',
+  '.210QWWWWWWWWWWWWWWWW.466NVVVVVVVUJ.17',
+  '.210SWWWWWWWWWWWWWWQ.467UVVVVVVVQ.18',
+  '.209SWWWWWWWWWWWWWWWK.467QSSUVVUP.19',
+  '.209RTVWWWWWWWWWWWWWVT.469JPN.21',
+  '.210QWWWWWWWWWWWWWWWbaY.491',
+  '.209RWWWWWWWWWWWWWWWWbbV.491',
+  '.209VWWWWWWWWWWWWWWWWaY.492',
+  '.209WWWWWWWWWWWWWWWWUO.493',
+  '.209WWWWWWWWWWWWWWWWK.494',
+  '.209WWWWWWWWWWWWWWWT.495',
+  '.209WWWWWWWWWWWWWUP.496',
+  '.209SWWWWWWWWWWWV.498',
+  '.209QWWWWWWWWWWWWN.16TVOYYO.475',
+  '.209SWWWWWWWWWWWWS.14TZbZbbaV.475',
+  '.210VWWWWWWWWWVTTP.14XR.1VR.477',
+  '.211RTWWWWWVTUWVK.496',
+  '.211SWUVWWWQVWWWU.496',
+  '.212PWWVVVUWWWWWS.495',
+  '.213KTWWWWWWWWWWVV.493',
+  '.215KTWWWWWWWWWbaZW.490',
+  '.217KQRUWWWWS.494',
+  '.223Q.496',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  '',
+  ''
+];
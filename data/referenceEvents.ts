@@ -0,0 +1,151 @@
+import { AsteroidType, ReferenceDeflection, ReferenceEvent } from "../types";
+import { BUILT_IN_MATERIALS, DART_REFERENCE, DEFAULT_DEFLECTION } from "../constants";
+
+const STONY = BUILT_IN_MATERIALS.find(m => m.id === AsteroidType.STONY)!;
+
+/**
+ * DART's strike on Dimorphos as a deflection plan. The moonlet's shape and
+ * volume are from DART's last images (Daly et al. 2023); its bulk density of
+ * 2400 kg/m³ is the value Cheng et al. (2023) report β for, here as S-type
+ * grains with the porosity of a rubble pile. That β was itself inferred from
+ * the measured Δv, so the accepted ranges hold the measurement's spread only:
+ * β and the mass cannot widen a check they were fitted to. Dimorphos never nears
+ * Earth, so the flyby fields only let the engine build the body; they do not
+ * enter the Δv.
+ */
+export const DART_DEFLECTION: ReferenceDeflection = {
+  target: {
+    name: 'Dimorphos', type: 'dimorphos', diameter: 151, velocity: 20, distance: 384400,
+    impactParameter: 0, impactParameterSigma: 100, entryAngle: 45, latitude: 0, longitude: 0, waterDepth: 0,
+    shape: { kind: 'ellipsoid', a: 177, b: 174, c: 116 }
+  },
+  material: {
+    ...STONY,
+    id: 'dimorphos',
+    name: 'Dimorphos rubble pile',
+    description: 'S-type rubble pile, 2400 kg/m³ bulk',
+    porosity: 1 - 2400 / STONY.grainDensity,
+    builtIn: false
+  },
+  options: {
+    ...DEFAULT_DEFLECTION,
+    method: 'kinetic',
+    spacecraftMass: DART_REFERENCE.spacecraftMass,
+    impactSpeed: DART_REFERENCE.impactSpeed,
+    beta: DART_REFERENCE.beta
+  },
+  orbitRadius: DART_REFERENCE.orbitRadius,
+  orbitPeriod: DART_REFERENCE.orbitPeriod
+};
+
+/**
+ * Observed impact events used to check the engine. Inputs are the published
+ * nominal reconstructions, not values fitted to make the checks pass; each
+ * accepted range is the observational spread widened by a stated model
+ * tolerance. Transient craters are compared because that is what the scaling
+ * law gives: simple craters widen by ~1.25x as the rim collapses
+ * (Collins, Melosh & Marcus 2005).
+ */
+export const REFERENCE_EVENTS: ReferenceEvent[] = [
+  {
+    id: 'barringer',
+    name: 'Meteor Crater (Barringer)',
+    date: '~50,000 years ago',
+    description: 'An iron body about 50 m across struck northern Arizona and left a 1.2 km simple crater. Much of it broke up on the way down and reached the ground as a fragment cloud.',
+    input: {
+      name: 'Barringer impactor', type: AsteroidType.METALLIC, diameter: 50, velocity: 17, distance: 384400,
+      impactParameter: 0, impactParameterSigma: 100, entryAngle: 45, latitude: 35.027, longitude: -111.022, waterDepth: 0
+    },
+    crater: { label: 'Barringer Crater', diameter: 1186 },
+    checks: [
+      {
+        metric: 'energy', observed: 10, min: 2.5, max: 20,
+        source: 'Kring (2007); published estimates span ~2.5-20 MT'
+      },
+      {
+        metric: 'craterDiameter', observed: 950, min: 650, max: 1250,
+        source: '1.19 km rim / 1.25; ±30% for the impactor size'
+      }
+    ]
+  },
+  {
+    id: 'chelyabinsk',
+    name: 'Chelyabinsk',
+    date: '15 Feb 2013',
+    description: 'A ~20 m ordinary chondrite entered at a shallow angle over the southern Urals and burst high in the atmosphere; the shock wave broke windows across the city.',
+    input: {
+      name: 'Chelyabinsk', type: AsteroidType.STONY, diameter: 19.8, velocity: 19.16, distance: 384400,
+      impactParameter: 0, impactParameterSigma: 100, entryAngle: 18.3, latitude: 54.8, longitude: 61.1, waterDepth: 0
+    },
+    checks: [
+      {
+        metric: 'energy', observed: 0.5, min: 0.4, max: 0.6,
+        source: 'Brown et al. (2013), infrasound and satellite light curves: 500 ± 100 kt'
+      },
+      {
+        metric: 'airburstAltitude', observed: 29.7, min: 25, max: 35,
+        source: 'Popova et al. (2013), peak brightness; ±5 km as the model bursts at a single height'
+      }
+    ]
+  },
+  {
+    id: 'tunguska',
+    name: 'Tunguska',
+    date: '30 Jun 1908',
+    description: 'An airburst over the Siberian taiga flattened some 2,000 km² of forest without leaving a crater.',
+    input: {
+      name: 'Tunguska', type: AsteroidType.STONY, diameter: 60, velocity: 15, distance: 384400,
+      impactParameter: 0, impactParameterSigma: 100, entryAngle: 45, latitude: 60.886, longitude: 101.894, waterDepth: 0
+    },
+    checks: [
+      {
+        metric: 'energy', observed: 12.5, min: 3, max: 20,
+        source: 'Ben-Menahem (1975): 12.5 ± 2.5 MT; Boslough & Crawford (2008) argue for 3-5 MT'
+      },
+      {
+        metric: 'airburstAltitude', observed: 8.5, min: 5, max: 12,
+        source: 'Ben-Menahem (1975), seismic and barographic records; Chyba et al. (1993) model 5-10 km'
+      }
+    ]
+  },
+  {
+    id: 'chicxulub',
+    name: 'Chicxulub',
+    date: '66 million years ago',
+    description: 'A 10-15 km body struck a shallow sea on the Yucatán platform, ending the Cretaceous. The peak-ring crater is about 180 km across.',
+    input: {
+      // The middle of the 10-15 km size range, steeply inclined (Collins et al. 2020) into a few hundred metres of water
+      name: 'Chicxulub impactor', type: AsteroidType.STONY, diameter: 12500, velocity: 20, distance: 384400,
+      impactParameter: 0, impactParameterSigma: 100, entryAngle: 60, latitude: 21.4, longitude: -89.52, waterDepth: 500
+    },
+    crater: { label: 'Chicxulub', diameter: 180000 },
+    checks: [
+      {
+        metric: 'energy', observed: 1e8, min: 2.4e7, max: 2.4e8,
+        source: 'Commonly ~4×10²³ J; estimates span 10²³-10²⁴ J'
+      },
+      {
+        metric: 'craterDiameter', observed: 100000, min: 84000, max: 116000,
+        source: 'Morgan et al. (2016), IODP-ICDP drilling; −16%/+16% for the 10-15 km impactor, as D ∝ L^0.78'
+      }
+    ]
+  },
+  {
+    id: 'dart',
+    name: 'DART / Dimorphos',
+    date: '26 Sep 2022',
+    description: 'A 579 kg spacecraft struck the moonlet of Didymos head-on. The orbit period change measures the momentum transferred, and checks the deflection planner\'s kinetic impactor model.',
+    input: null,
+    deflection: DART_DEFLECTION,
+    checks: [
+      {
+        metric: 'dartDeltaV', observed: DART_REFERENCE.measuredDeltaV, min: 2.5, max: 2.9,
+        source: 'Cheng et al. (2023): 2.70 ± 0.10 mm/s; ±2σ of the measurement. The planner drops the impact-geometry factor, so it runs high'
+      },
+      {
+        metric: 'dartPeriodChange', observed: DART_REFERENCE.measuredPeriodChange, min: 31, max: 35,
+        source: `Thomas et al. (2023): ${DART_REFERENCE.measuredPeriodChange} ± ${DART_REFERENCE.measuredPeriodChangeSigma} min; ±2σ of the measurement`
+      }
+    ]
+  }
+];
@@ -0,0 +1,479 @@
+import { AsteroidInput, AnalysisResult, BodyGeometry, DimensionalStep, EncounterGeometry, HazardAssessment, ImpactPhysics, MaterialLookup, OceanImpact, Quantity, TimelineEvent, UncertaintyOptions } from "../types";
+import { TORINO_ZONES } from "../constants";
+import { EARTH_MU, EARTH_RADIUS_KM } from "./encounter";
+import { ENTRY_ALTITUDE } from "./atmosphere";
+import { SEAFLOOR_DENSITY } from "./ocean";
+import { runEnsemble } from "./ensemble";
+import { craterScaling } from "./crater";
+import { generateMarkdown } from "./report";
+import { formatPeople } from "./exposure";
+import { backgroundFrequency, formatTimeToEncounter, palermoScale, torinoLevel, warningTime } from "./hazard";
+import { evaluateImpact } from "./engine";
+import { formatOffset, formatTimestamp, timelineArrival } from "./timeline";
+import { add, derive, div, exp, inUnit, log10, max, min, mul, pow, quantity, scalar, settle, sqrt, sub } from "./units";
+
+// Physics Constants
+const TNT_JOULES = 4.184e15; // 1 Megaton TNT in Joules
+
+/**
+ * Full analysis of `input`, with a Monte Carlo ensemble around it when
+ * `uncertainty` asks for samples. `onProgress` counts ensemble samples.
+ */
+export const analyzeAsteroid = (
+  input: AsteroidInput,
+  uncertainty?: UncertaintyOptions,
+  onProgress?: (done: number, total: number) => void
+): AnalysisResult => {
+  const result = computeAnalysis(input);
+  if (uncertainty && uncertainty.samples > 0) {
+    result.ensemble = runEnsemble(input, uncertainty, sample => evaluateImpact(sample), onProgress);
+    result.rawMarkdown = generateMarkdown({ label: input.name, input, uncertainty, result });
+  }
+  return result;
+};
+
+/**
+ * One deterministic evaluation of `input` by the engine, dressed with the
+ * "show your work" steps, summary and Markdown report the app displays.
+ */
+export const computeAnalysis = (input: AsteroidInput, materials?: MaterialLookup): AnalysisResult => {
+  const physics = evaluateImpact(input, materials);
+  const { material, body, encounter, hazard, site, entry, effects, ocean, exposure, craterDiameter } = physics;
+
+  const result: AnalysisResult = {
+    isHit: encounter.isHit,
+    impactProbability: encounter.impactProbability,
+    kineticEnergyMegatons: physics.energyMegatons,
+    craterSizeMeters: craterDiameter,
+    encounter,
+    hazard,
+    site,
+    entry,
+    effects,
+    ocean,
+    exposure,
+    timeline: physics.timeline,
+    analysisSummary: generateSummary(physics),
+    dimensionalProcess: describeSteps(physics),
+    composition: material.composition,
+    body,
+    rawMarkdown: '',
+    timestamp: Date.now()
+  };
+
+  result.rawMarkdown = generateMarkdown({ label: input.name, input, result });
+  return result;
+};
+
+/**
+ * The "Show Your Work" steps for one evaluation. Where a step's formula can
+ * be rebuilt from unit-tagged inputs, its units are checked against the unit
+ * of its result; steps whose value comes from a simulation, integral or
+ * lookup carry no derivation rather than one worked back from the answer.
+ */
+export const describeSteps = (physics: ImpactPhysics): DimensionalStep[] => {
+  const { input, material, body, encounter, hazard, entry, site, ocean, effects, exposure, craterDiameter } = physics;
+  const { bulkDensity: densityQ, radius: radiusQ, volume: volumeQ, mass: massQ, velocity: velocityQ, energy: energyQ, craterScaling: craterQ } = physics;
+  const density = inUnit(densityQ, 'kg/m³');
+  const radius = inUnit(radiusQ, 'm');
+  const volume = inUnit(volumeQ, 'm³');
+  const mass = inUnit(massQ, 'kg');
+  const velocityMs = inUnit(velocityQ, 'm/s');
+  const energyJoules = inUnit(energyQ, 'J');
+  const energyMt = physics.energyMegatons;
+  const impactProb = encounter.impactProbability;
+  const L = physics.impactorDiameter;
+
+  const vEscQ = quantity(encounter.escapeVelocity, 'km/s');
+  const vInfQ = quantity(encounter.vInfinity, 'km/s');
+  const semiMajorQ = settle(div(quantity(EARTH_MU, 'km³/s²'), pow(vInfQ, 2)), 'km');
+  const eccentricityQ = sqrt(add(scalar(1), pow(div(quantity(Math.abs(input.impactParameter), 'km'), semiMajorQ), 2)));
+  const effectsEnergyQ = settle(quantity(effects.energyMegatons, 'Mt'), 'J');
+  const blastRadius = effects.overpressureRings.find(ring => ring.psi === 5)?.radiusKm ?? 0;
+  const outerRadius = Math.max(0, ...exposure.zones.map(zone => zone.radiusKm));
+
+  return [
+    ...(input.shape ? shapeSteps(input, body, volumeQ) : [
+      {
+        step: "Calculate Radius",
+        equation: `r = d / 2 = ${input.diameter} / 2`,
+        explanation: "Derive radius from diameter to determine spherical volume.",
+        result: `${radius.toFixed(2)} m`,
+        value: radius,
+        unit: 'm',
+        derivation: derive(radiusQ, 'm')
+      },
+      {
+        step: "Calculate Volume",
+        equation: `V = (4/3) * π * r^3`,
+        explanation: "Compute volume of sphere.",
+        result: `${volume.toExponential(2)} m³`,
+        value: volume,
+        unit: 'm³',
+        derivation: derive(volumeQ, 'm³')
+      }
+    ]),
+    {
+      step: "Bulk Density",
+      equation: `ρ = ρ_grain * (1 - φ) = ${material.grainDensity} * (1 - ${material.porosity})`,
+      explanation: `Discount the ${material.name} grain density by its ${(material.porosity * 100).toFixed(0)}% pore space.`,
+      result: `${density.toLocaleString(undefined, { maximumFractionDigits: 0 })} kg/m³`,
+      value: density,
+      unit: 'kg/m³',
+      derivation: derive(densityQ, 'kg/m³')
+    },
+    {
+      step: "Derive Mass",
+      equation: `M = ρ * V`,
+      explanation: `Calculate mass using the bulk density of ${material.name}.`,
+      result: `${mass.toExponential(2)} kg`,
+      value: mass,
+      unit: 'kg',
+      derivation: derive(massQ, 'kg')
+    },
+    {
+      step: "Velocity Conversion",
+      equation: `v_ms = v_km * 1000`,
+      explanation: "Convert km/s to m/s for standard Joule calculation.",
+      result: `${velocityMs.toLocaleString()} m/s`,
+      value: velocityMs,
+      unit: 'm/s',
+      derivation: derive(velocityQ, 'm/s')
+    },
+    {
+      step: "Kinetic Energy",
+      equation: `E_k = (1/2) * M * v^2`,
+      explanation: "Compute kinetic energy using classical mechanics.",
+      result: `${energyJoules.toExponential(2)} J`,
+      value: energyJoules,
+      unit: 'J',
+      derivation: derive(energyQ, 'J')
+    },
+    {
+      step: "TNT Equivalent",
+      equation: `MT = E_k / 4.184e15`,
+      explanation: "Convert Joules to Megatons of TNT for impact context.",
+      result: `${energyMt.toFixed(2)} MT`,
+      value: energyMt,
+      unit: 'Mt',
+      derivation: derive(settle(energyQ, 'J'), 'Mt')
+    },
+    {
+      step: "Hyperbolic Excess Speed",
+      equation: `v∞ = sqrt(v² - v_esc²) = sqrt(${input.velocity}² - ${encounter.escapeVelocity.toFixed(2)}²)`,
+      explanation: "Remove the speed gained falling into Earth's gravity well to recover the approach speed.",
+      result: `${encounter.vInfinity.toFixed(2)} km/s`,
+      value: encounter.vInfinity,
+      unit: 'km/s',
+      derivation: derive(sqrt(sub(pow(velocityQ, 2), pow(vEscQ, 2))), 'km/s')
+    },
+    {
+      step: "Gravitational Focusing",
+      equation: `b_c = R⊕ * sqrt(1 + v_esc² / v∞²) = ${EARTH_RADIUS_KM} * ${encounter.focusingFactor.toFixed(3)}`,
+      explanation: "Earth's gravity bends slow trajectories inward, enlarging its effective capture cross-section.",
+      result: `${encounter.captureRadius.toLocaleString(undefined, { maximumFractionDigits: 0 })} km`,
+      value: encounter.captureRadius,
+      unit: 'km',
+      derivation: derive(mul(quantity(EARTH_RADIUS_KM, 'km'), sqrt(add(scalar(1), div(pow(vEscQ, 2), pow(vInfQ, 2))))), 'km')
+    },
+    {
+      step: "Closest Approach",
+      equation: `q = a(e - 1), a = μ / v∞², e = sqrt(1 + b² / a²)`,
+      explanation: `Perigee of the hyperbolic flyby for a b-plane offset of ${input.impactParameter.toLocaleString()} km.`,
+      result: `${encounter.perigee.toLocaleString(undefined, { maximumFractionDigits: 0 })} km`,
+      value: encounter.perigee,
+      unit: 'km',
+      derivation: derive(mul(semiMajorQ, sub(eccentricityQ, scalar(1))), 'km')
+    },
+    {
+      step: "Impact Probability",
+      equation: `P = ∬_{r < b_c} N(b, σ = ${input.impactParameterSigma.toLocaleString()} km) dA`,
+      explanation: "Integrate the Gaussian b-plane uncertainty over the focused capture disc.",
+      result: `${impactProb}%`,
+      value: impactProb,
+      unit: '%'
+    },
+    ...hazardSteps(hazard, encounter, energyMt),
+    ...timelineSteps(physics),
+    {
+      step: "Fragmentation Onset",
+      equation: `ρ_a(h) * v² > Y = ${entry.strength.toExponential(1)} Pa`,
+      explanation: entry.breakupAltitude === null
+        ? "Ram pressure never exceeds the material strength; the body stays intact."
+        : `Ram pressure overcomes the ${material.name} strength and the body begins to pancake.`,
+      result: entry.breakupAltitude === null ? "Intact" : `${entry.breakupAltitude.toFixed(1)} km altitude`,
+      value: entry.breakupAltitude ?? undefined,
+      unit: 'km'
+    },
+    {
+      step: "Entry Outcome",
+      equation: `d²r/dt² = C_D * ρ_a * v² / (4 * ρ_i * r), burst at r = 7 * r₀`,
+      explanation: entry.isAirburst
+        ? "The fragment cloud spreads until it bursts; the yield is the energy drag has deposited in the air by then."
+        : entry.breakupAltitude === null
+          ? "Integrate drag and ablation down to the surface to find the residual velocity."
+          : "The air below is too thin to stop the spreading fragment cloud, which reaches the surface as a swarm.",
+      result: entry.isAirburst
+        ? `Airburst at ${entry.airburstAltitude!.toFixed(1)} km, ${entry.airburstYieldMegatons.toFixed(2)} MT`
+        : `Surface impact at ${entry.impactVelocity.toFixed(2)} km/s`,
+      value: entry.isAirburst ? entry.airburstAltitude! : entry.impactVelocity,
+      unit: entry.isAirburst ? 'km' : 'km/s'
+    },
+    ...(ocean ? oceanSteps(ocean, { diameter: L, density: density, velocity: entry.impactVelocity, entryAngle: input.entryAngle }) : [{
+      step: "Crater Diameter",
+      equation: `D = 1.161 * (ρ_i / ρ_t)^(1/3) * L^0.78 * v^0.44 * g^-0.22 * sin(θ)^(1/3)`,
+      explanation: entry.isAirburst
+        ? "No solid impactor reaches the ground, so no crater forms."
+        : `Scale the transient crater from the surviving ${L.toFixed(1)} m impactor (ρ_t = ${site.targetDensity} kg/m³).`,
+      result: `${craterDiameter.toLocaleString(undefined, { maximumFractionDigits: 0 })} m`,
+      value: craterDiameter,
+      unit: 'm',
+      derivation: derive(craterQ, 'm')
+    }]),
+    {
+      step: "Fireball Radius",
+      equation: `R_f = 0.002 * E^(1/3) = 0.002 * (${(effects.energyMegatons * TNT_JOULES).toExponential(2)})^(1/3)`,
+      explanation: "Size the fireball from the energy released at the burst point or surface.",
+      result: `${effects.fireballRadiusKm.toFixed(2)} km`,
+      value: effects.fireballRadiusKm,
+      unit: 'km',
+      // The empirical coefficient carries the units that make the cube root a length
+      derivation: derive(mul(quantity(0.002, 'm'), pow(quantity(1, 'J'), -1 / 3), pow(effectsEnergyQ, 1 / 3)), 'km')
+    },
+    {
+      step: "Air Blast Reach",
+      equation: `p = (p_x * r_x / 4r₁) * (1 + 3 * (r_x / r₁)^1.3), r₁ = r / E_kt^(1/3)`,
+      explanation: "Scale the 1 kt overpressure curve to this yield and solve for the 5 psi radius.",
+      result: `${blastRadius.toFixed(2)} km`,
+      value: blastRadius,
+      unit: 'km'
+    },
+    {
+      step: "Seismic Magnitude",
+      equation: `M = 0.67 * log10(E) - 5.87`,
+      explanation: effects.seismicMagnitude === null
+        ? "An airburst does not couple its energy into the ground."
+        : "Convert the fraction of impact energy radiated as seismic waves to a Richter magnitude.",
+      result: effects.seismicMagnitude === null ? "None" : `M ${effects.seismicMagnitude.toFixed(1)}`,
+      value: effects.seismicMagnitude ?? undefined,
+      unit: '',
+      derivation: effects.seismicMagnitude === null
+        ? undefined
+        : derive(add(mul(scalar(0.67), log10(div(effectsEnergyQ, quantity(1, 'J')))), scalar(-5.87)), '')
+    },
+    {
+      step: "Population Exposure",
+      equation: `N = Σ ρ_pop * A, casualties = Σ N_z * (f_z + (1 - f_z) * i_z) over ${exposure.zones.length} zones`,
+      explanation: exposure.population > 0
+        ? `People within ${outerRadius.toLocaleString(undefined, { maximumFractionDigits: 0 })} km of the site from the bundled synthetic population grid, each counted in the worst zone they are in. Local counts can be off by a factor of a few.`
+        : "The bundled synthetic population grid shows no one within reach of the site.",
+      result: `${formatPeople(exposure.population)} exposed, ${formatPeople(exposure.fatalities)} fatalities, ${formatPeople(exposure.injuries)} injuries`,
+      value: exposure.population,
+      unit: ''
+    }
+  ];
+};
+
+// Volume from the shape, then the sphere that stands in for it downstream
+function shapeSteps(input: AsteroidInput, body: BodyGeometry, volumeQ: Quantity): DimensionalStep[] {
+    const shape = input.shape!;
+    const scaled = Math.abs(body.scale - 1) > 1e-6 ? ` scaled by ${body.scale.toPrecision(4)}` : '';
+    const [a, b, c] = shape.kind === 'ellipsoid' ? [shape.a, shape.b, shape.c].map(axis => axis * body.scale) : body.extents;
+    return [
+        shape.kind === 'ellipsoid' ? {
+            step: "Ellipsoid Volume",
+            equation: `V = (4/3) * π * (a/2) * (b/2) * (c/2) = (4/3) * π * ${(a / 2).toFixed(1)} * ${(b / 2).toFixed(1)} * ${(c / 2).toFixed(1)}`,
+            explanation: `Triaxial ellipsoid with axes ${a.toFixed(1)} × ${b.toFixed(1)} × ${c.toFixed(1)} m${scaled}.`,
+            result: `${body.volume.toExponential(2)} m³`,
+            value: body.volume,
+            unit: 'm³',
+            derivation: derive(volumeQ, 'm³')
+        } : {
+            step: "Shape Model Volume",
+            equation: `V = |Σ v₁ · (v₂ × v₃)| / 6 over ${shape.faces.length.toLocaleString()} facets`,
+            explanation: `Sum signed tetrahedra of ${shape.name}${scaled}; it spans ${a.toFixed(1)} × ${b.toFixed(1)} × ${c.toFixed(1)} m.`,
+            result: `${body.volume.toExponential(2)} m³`,
+            value: body.volume,
+            unit: 'm³',
+            derivation: derive(volumeQ, 'm³')
+        },
+        {
+            step: "Effective Diameter",
+            equation: `D_eq = (6 * V / π)^(1/3)`,
+            explanation: "Diameter of the sphere with the same volume; entry and crater scaling use it.",
+            result: `${body.equivalentDiameter.toFixed(2)} m`,
+            value: body.equivalentDiameter,
+            unit: 'm',
+            derivation: derive(pow(div(mul(scalar(6), volumeQ), scalar(Math.PI)), 1 / 3), 'm')
+        }
+    ];
+}
+
+// Warning time, then where the encounter sits on the Torino and Palermo scales
+function hazardSteps(hazard: HazardAssessment, encounter: EncounterGeometry, energyMt: number): DimensionalStep[] {
+    const probability = encounter.impactProbability / 100;
+    const frequencyQ = backgroundFrequency(energyMt);
+    const warningQ = hazard.timeToImpact === null ? null : warningTime(hazard.timeToImpact);
+    const { zone, description } = torinoLevel(hazard.torino);
+    return [
+        {
+            step: "Time to Encounter",
+            equation: `Δt = ΔM / n, M = e * sinh F - F, n = sqrt(μ / a³)`,
+            explanation: hazard.timeToImpact === null
+                ? `Closest approach, ${encounter.perigee.toLocaleString(undefined, { maximumFractionDigits: 0 })} km, lies beyond the ${encounter.range.toLocaleString()} km starting distance, so the flyby never passes it.`
+                : encounter.isHit
+                    ? `Kepler's equation along the hyperbola from ${encounter.range.toLocaleString()} km out to the top of the atmosphere.`
+                    : `Kepler's equation along the hyperbola from ${encounter.range.toLocaleString()} km out to closest approach.`,
+            result: formatTimeToEncounter(hazard.timeToImpact),
+            value: hazard.timeToImpact ?? undefined,
+            unit: 's'
+        },
+        {
+            step: "Torino Scale",
+            equation: `T = chart(P = ${encounter.impactProbability}%, E = ${energyMt.toPrecision(3)} MT)`,
+            explanation: `${TORINO_ZONES[zone]}. ${description}`,
+            result: `Torino ${hazard.torino}`,
+            value: hazard.torino,
+            unit: ''
+        },
+        {
+            step: "Background Impact Frequency",
+            equation: `f_B = 0.03 * E^-0.8 = 0.03 * ${energyMt.toPrecision(3)}^-0.8`,
+            explanation: "Yearly rate of natural impacts at least this energetic, from the observed NEO population.",
+            result: `${hazard.backgroundFrequency.toExponential(2)} per yr`,
+            value: hazard.backgroundFrequency,
+            unit: 'yr⁻¹',
+            derivation: derive(frequencyQ, 'yr⁻¹')
+        },
+        {
+            step: "Palermo Scale",
+            equation: `PS = log10(P / (f_B * ΔT))`,
+            explanation: hazard.palermo === null
+                ? hazard.timeToImpact === null ? "With no time to encounter the scale is undefined." : "With no chance of impact the scale is undefined."
+                : "Compare the impact probability with the background chance of a similar impact before it.",
+            result: hazard.palermo === null ? "Undefined" : `PS ${hazard.palermo.toFixed(2)}`,
+            value: hazard.palermo ?? undefined,
+            unit: '',
+            derivation: hazard.palermo === null || warningQ === null ? undefined : derive(palermoScale(probability, frequencyQ, warningQ), '')
+        }
+    ];
+}
+
+// When the approach crosses the Hill sphere and the atmosphere, and how long the flight through the air takes
+function timelineSteps({ encounter, entry, timeline }: ImpactPhysics): DimensionalStep[] {
+    const { hillRadius } = timeline;
+    const hill = timeline.events.find(e => e.phase === 'hill');
+    const arrival = timelineArrival(timeline);
+    const when = (event: TimelineEvent) => event.timestamp ? `${formatTimestamp(event.timestamp)}, ${formatOffset(event.time)}` : formatOffset(event.time);
+    return [
+        {
+            step: "Hill Sphere Entry",
+            equation: `t = t₀ + Δt(r = r_H), r_H = a⊕ * (m⊕ / 3M☉)^(1/3)`,
+            explanation: hill
+                ? `Inside r_H = ${hillRadius.toLocaleString(undefined, { maximumFractionDigits: 0 })} km Earth's gravity outweighs the Sun's and the flyby hyperbola takes over.`
+                : timeline.warningTime === null
+                ? `With the starting distance off the flyby, the crossing of r_H = ${hillRadius.toLocaleString(undefined, { maximumFractionDigits: 0 })} km cannot be timed from the epoch.`
+                : `The flyby never comes inside r_H = ${hillRadius.toLocaleString(undefined, { maximumFractionDigits: 0 })} km, so the Sun still dominates at closest approach.`,
+            result: hill ? when(hill) : "Not reached",
+            value: hill?.time,
+            unit: 's'
+        },
+        {
+            step: encounter.isHit ? "Atmospheric Interface" : "Closest Approach Time",
+            equation: encounter.isHit ? `t = t₀ + Δt(r = R⊕ + ${ENTRY_ALTITUDE / 1000} km)` : `t = t₀ + Δt(r = q)`,
+            explanation: !arrival
+                ? `The flyby never comes in to the ${encounter.range.toLocaleString()} km starting distance, so it has no time after the epoch.`
+                : timeline.epoch
+                    ? `Add the Kepler flight time from ${encounter.range.toLocaleString()} km out to the ${formatTimestamp(timeline.epoch)} epoch.`
+                    : "Kepler flight time from the analysis epoch; set an epoch to turn it into a date.",
+            result: arrival ? when(arrival) : "Not reached",
+            value: arrival?.time,
+            unit: 's'
+        },
+        ...(encounter.isHit ? [{
+            step: "Time in Atmosphere",
+            equation: `Δt = Σ dt, dh = -v * sin(θ) * dt`,
+            explanation: `Integrate the entry from ${ENTRY_ALTITUDE / 1000} km down to the ${entry.isAirburst ? 'burst altitude' : 'ground'}.`,
+            result: `${entry.duration.toFixed(1)} s to ${entry.isAirburst ? 'airburst' : 'ground impact'}`,
+            value: entry.duration,
+            unit: 's'
+        }] : [])
+    ];
+}
+
+interface Impactor {
+    diameter: number; // m, surviving equivalent diameter
+    density: number;  // kg/m^3
+    velocity: number; // km/s at the water surface
+    entryAngle: number;
+}
+
+function oceanSteps(ocean: OceanImpact, impactor: Impactor): DimensionalStep[] {
+    const { entryAngle } = impactor;
+    const wave100 = ocean.waveHeights.find(w => w.distanceKm === 100);
+    const sinTheta = Math.sin((entryAngle * Math.PI) / 180);
+    const dragExponentQ = div(
+        mul(scalar(-3), quantity(1000, 'kg/m³'), quantity(ocean.waterDepth, 'm')),
+        mul(scalar(2), quantity(impactor.density, 'kg/m³'), quantity(impactor.diameter, 'm'), scalar(sinTheta))
+    );
+    const seafloorVelocityQ = mul(quantity(impactor.velocity, 'km/s'), exp(dragExponentQ));
+    // Each wave holds its initial amplitude out to its source radius, then decays
+    const r = quantity(100, 'km');
+    const rimQ = mul(quantity(ocean.rimWaveAmplitude, 'm'), min(scalar(1), div(quantity(0.75 * ocean.cavityDiameter, 'm'), r)));
+    const collapseQ = mul(quantity(ocean.collapseWaveAmplitude, 'm'), pow(min(scalar(1), div(quantity(2.5 * ocean.cavityDiameter, 'm'), r)), ocean.decayExponent));
+    return [
+        {
+            step: "Water Cavity",
+            equation: `D_w = 1.161 * (ρ_i / 1000)^(1/3) * L^0.78 * v^0.44 * g^-0.22 * sin(${entryAngle}°)^(1/3), d_w = D_w / 2√2`,
+            explanation: "Scale the transient cavity using sea water as the target.",
+            result: `${ocean.cavityDiameter.toLocaleString(undefined, { maximumFractionDigits: 0 })} m wide, ${ocean.cavityDepth.toLocaleString(undefined, { maximumFractionDigits: 0 })} m deep`,
+            value: ocean.cavityDiameter,
+            unit: 'm',
+            derivation: derive(craterScaling(impactor.density, 1000, impactor.diameter, impactor.velocity * 1000, entryAngle), 'm')
+        },
+        {
+            step: "Seafloor Penetration",
+            equation: `D_sf = D(ρ_t = ${SEAFLOOR_DENSITY} kg/m³, v_sf), v_sf = v * exp(-3 * ρ_w * H / (2 * ρ_i * L * sin θ)), H = ${ocean.waterDepth.toLocaleString()} m`,
+            explanation: ocean.seafloorCrater
+                ? "The cavity reaches the seafloor, which is cratered at the decelerated speed."
+                : "The cavity is shallower than the water column, so no seafloor crater forms.",
+            result: ocean.seafloorCrater
+                ? `${ocean.seafloorCraterDiameter.toLocaleString(undefined, { maximumFractionDigits: 0 })} m seafloor crater`
+                : "No seafloor crater",
+            value: ocean.seafloorCrater ? ocean.seafloorCraterDiameter : undefined,
+            unit: 'm',
+            derivation: ocean.seafloorCrater
+                ? derive(craterScaling(impactor.density, SEAFLOOR_DENSITY, impactor.diameter, inUnit(seafloorVelocityQ, 'm/s'), entryAngle), 'm')
+                : undefined
+        },
+        {
+            step: "Tsunami Amplitude",
+            equation: `A_rim = min(D_w / 14.1, H), A_collapse = 0.06 * min(d_w, H) * (2.5 D_w / r)^${ocean.decayExponent.toFixed(2)}`,
+            explanation: "Take the larger of the rim and collapse waves and decay it with distance.",
+            result: `${(wave100?.amplitudeMeters ?? 0).toFixed(2)} m at 100 km`,
+            value: wave100?.amplitudeMeters,
+            unit: 'm',
+            derivation: derive(max(rimQ, collapseQ), 'm')
+        }
+    ];
+}
+
+function generateSummary({ input, material, encounter, energyMegatons: energy, entry, hazard }: ImpactPhysics): string {
+    const palermo = hazard.palermo === null ? "UNDEFINED" : hazard.palermo.toFixed(2);
+    const status = encounter.isHit ? "CRITICAL: IMPACT TRAJECTORY CONFIRMED." : "SAFE: NO INTERSECTION DETECTED.";
+    const entryStr = entry.isAirburst
+        ? `AIRBURST AT ${entry.airburstAltitude!.toFixed(1)} KM.`
+        : `SURFACE IMPACT AT ${entry.impactVelocity.toFixed(1)} KM/S.`;
+    
+    return `PHYSICS ENGINE REPORT // TARGET: ${input.name.toUpperCase()}
+    
+    CLASSIFICATION: ${material.name}
+    TRAJECTORY ANALYSIS: ${encounter.impactProbability}% Probability of Impact.
+    STATUS: ${status}
+    
+    KINETIC YIELD: ~${energy.toLocaleString(undefined, {maximumFractionDigits: 2})} Megatons.
+    ATMOSPHERIC ENTRY: ${entryStr}
+    THREAT LEVEL: TORINO ${hazard.torino} (${TORINO_ZONES[torinoLevel(hazard.torino).zone].toUpperCase()}), PALERMO ${palermo}.
+    
+    Dimensional analysis verifies mass-velocity integration. All constants valid.`;
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { AtmosphericEntry } from "../types";
+
+// Atmosphere & Entry Constants
+const SURFACE_AIR_DENSITY = 1.225; // kg/m^3
+const SCALE_HEIGHT = 8000;         // m
+export const ENTRY_ALTITUDE = 100000; // m, top of the sensible atmosphere
+const DRAG_COEFFICIENT = 2;
+const ABLATION_COEFFICIENT = 1e-8; // s^2/m^2
+const PANCAKE_FACTOR = 7;          // spread/initial radius ratio treated as airburst
+const G = 9.81;
+const TNT_JOULES = 4.184e15;
+
+export const airDensity = (altitudeMeters: number): number =>
+  SURFACE_AIR_DENSITY * Math.exp(-Math.max(0, altitudeMeters) / SCALE_HEIGHT);
+
+interface EntryParams {
+  diameter: number;   // m
+  density: number;    // kg/m^3
+  strength: number;   // Pa
+  velocity: number;   // km/s at the top of the atmosphere
+  entryAngle: number; // degrees from horizontal
+}
+
+/**
+ * Staged atmospheric entry: drag deceleration and ablation of an intact body,
+ * followed by pancake-style lateral spreading once ram pressure (ρ_a·v²)
+ * exceeds the material strength. The fragment cloud sheds energy through drag
+ * on its spreading front but keeps its mass, as in Collins et al. (2005);
+ * ablating it as one body the size of the cloud strips it far too fast.
+ * Once the cloud spreads to PANCAKE_FACTOR times its initial radius it
+ * bursts, unless the air left below is too thin to stop it: a cloud whose
+ * drag stopping length 2m / (C_D·ρ_a·A) exceeds the slant path to the ground
+ * stops spreading and strikes as a fragment swarm, as at Barringer.
+ */
+export const simulateEntry = (params: EntryParams): AtmosphericEntry => {
+  const theta = (Math.max(1, Math.min(90, params.entryAngle)) * Math.PI) / 180;
+  const sinTheta = Math.sin(theta);
+  const initialRadius = params.diameter / 2;
+  const initialMass = params.density * (4 / 3) * Math.PI * Math.pow(initialRadius, 3);
+  const entryEnergy = 0.5 * initialMass * Math.pow(params.velocity * 1000, 2);
+
+  let h = ENTRY_ALTITUDE;
+  let v = params.velocity * 1000;
+  let m = initialMass;
+  let r = initialRadius;
+  let spreadRate = 0; // dr/dt of the fragment cloud, m/s
+  let breakupAltitude: number | null = null;
+  let breakupPressure: number | null = null;
+  let airburstAltitude: number | null = null;
+  let dispersed = false; // spread to its limit, on course for the ground
+  let t = 0;
+
+  // Explicit integration with a step bounded by the local deceleration time-scale
+  for (let i = 0; i < 200000 && h > 0; i++) {
+    const rhoA = airDensity(h);
+    const area = Math.PI * r * r;
+    const drag = (0.5 * DRAG_COEFFICIENT * rhoA * area * v * v) / m;
+    const accel = -drag + G * sinTheta;
+    const dt = Math.min(0.01, (0.02 * v) / Math.max(Math.abs(accel), 1e-6));
+
+    const ramPressure = rhoA * v * v;
+    if (breakupAltitude === null && ramPressure > params.strength) {
+      breakupAltitude = h;
+      breakupPressure = ramPressure;
+    }
+
+    const dm = breakupAltitude !== null ? 0 : 0.5 * ABLATION_COEFFICIENT * DRAG_COEFFICIENT * rhoA * area * Math.pow(v, 3) * dt;
+    // Pancake spreading (Chyba et al. 1993): d²r/dt² = C_D·ρ_a·v² / (4·ρ_i·r)
+    if (breakupAltitude !== null && !dispersed) {
+      spreadRate += ((DRAG_COEFFICIENT * rhoA * v * v) / (4 * params.density * r)) * dt;
+    }
+
+    v = Math.max(0, v + accel * dt);
+    m = Math.max(0, m - dm);
+    r += spreadRate * dt;
+    if (breakupAltitude === null) {
+      // An intact body shrinks as it ablates
+      r = Math.cbrt((3 * m) / (4 * Math.PI * params.density));
+    }
+    h -= v * sinTheta * dt;
+    t += dt;
+
+    if (breakupAltitude !== null && !dispersed && r >= PANCAKE_FACTOR * initialRadius && h > 0) {
+      const stoppingLength = (2 * m) / (DRAG_COEFFICIENT * airDensity(h) * Math.PI * r * r);
+      if (stoppingLength < h / sinTheta) {
+        airburstAltitude = h;
+        break;
+      }
+      dispersed = true;
+      spreadRate = 0;
+    }
+    if (m <= 0 || v <= 0) break;
+  }
+
+  const isAirburst = airburstAltitude !== null;
+  const residualEnergy = 0.5 * m * v * v;
+
+  return {
+    strength: params.strength,
+    breakupAltitude: breakupAltitude === null ? null : breakupAltitude / 1000,
+    breakupPressure,
+    isAirburst,
+    airburstAltitude: airburstAltitude === null ? null : airburstAltitude / 1000,
+    // What the air has taken up by the burst; the slowed cloud carries the rest on as dust
+    airburstYieldMegatons: isAirburst ? (entryEnergy - residualEnergy) / TNT_JOULES : 0,
+    impactVelocity: isAirburst ? 0 : v / 1000,
+    impactMass: isAirburst ? 0 : m,
+    impactEnergyMegatons: isAirburst ? 0 : residualEnergy / TNT_JOULES,
+    duration: t
+  };
+};
@@ -0,0 +1,185 @@
+import { AnalysisResult, AsteroidInput, AsteroidType, BatchFormat, BatchOptions, BatchRow, BodyShape, Material } from "../types";
+import { COLORS, DEFAULT_INPUT, NUMERIC_FIELDS } from "../constants";
+import { analyzeAsteroid, computeAnalysis } from "./analysis";
+import { validateInput, validateMaterial } from "./validation";
+import { parseCsv, toCsv } from "./csv";
+
+type BatchStatus = 'ok' | 'invalid' | 'failed';
+
+interface BatchRecord {
+  row: number;
+  status: BatchStatus; // invalid: rejected by validation; failed: the engine threw
+  values: Record<string, unknown>;
+  steps: AnalysisResult['dimensionalProcess'] | null;
+  errors: string[];
+}
+
+const SHAPE_COLUMNS = ['shape.a', 'shape.b', 'shape.c'];
+
+/**
+ * Scenarios from a batch file: a JSON array (or single object), JSON Lines,
+ * or CSV with one column per `AsteroidInput` field plus optional `shape.a`,
+ * `shape.b` and `shape.c` ellipsoid axes. Unrecognised columns are ignored so
+ * reference files can carry their expected values alongside. Throws only when
+ * the file as a whole cannot be read; bad records come back with errors.
+ */
+export const readScenarios = (text: string, format: 'json' | BatchFormat): BatchRow[] => {
+  if (format === 'csv') {
+    const [header, ...body] = parseCsv(text);
+    if (!header) throw new Error('The CSV file is empty.');
+    const keys = header.map(cell => cell.trim());
+    return body.map((cells, i) => {
+      const record: Record<string, unknown> = {};
+      keys.forEach((key, col) => { if (cells[col] !== undefined && cells[col] !== '') record[key] = cells[col]; });
+      if (SHAPE_COLUMNS.some(column => column in record)) {
+        record.shape = { kind: 'ellipsoid', a: record['shape.a'], b: record['shape.b'], c: record['shape.c'] };
+      }
+      return toRow(record, i + 1);
+    });
+  }
+
+  if (format === 'jsonl') {
+    return text.split(/\r?\n/).filter(line => line.trim()).map((line, i) => {
+      try {
+        return toRow(JSON.parse(line), i + 1);
+      } catch {
+        return { row: i + 1, input: null, errors: ['This line is not valid JSON.'] };
+      }
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  return (Array.isArray(parsed) ? parsed : [parsed]).map((record, i) => toRow(record, i + 1));
+};
+
+function toRow(record: unknown, row: number): BatchRow {
+  if (!isRecord(record)) return { row, input: null, errors: ['Expected an object with the scenario fields.'] };
+  const fields = record;
+  // Built-in materials may be given by preset key (STONY) as well as by id
+  const type = String(fields.type ?? '');
+  const input = { name: String(fields.name ?? ''), type: AsteroidType[type as keyof typeof AsteroidType] ?? type } as AsteroidInput;
+  NUMERIC_FIELDS.forEach(field => { input[field] = toNumber(fields[field]); });
+  if (typeof fields.shape === 'object' && fields.shape !== null) {
+    const shape = fields.shape as Record<string, unknown>;
+    input.shape = shape.kind === 'ellipsoid'
+      ? { kind: 'ellipsoid', a: toNumber(shape.a), b: toNumber(shape.b), c: toNumber(shape.c) }
+      : shape as unknown as BodyShape;
+  }
+  if (fields.epoch !== undefined && fields.epoch !== null && fields.epoch !== '') input.epoch = String(fields.epoch);
+  const errors = validateInput(input).filter(d => d.severity === 'error').map(d => d.message);
+  return { row, input, errors };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+/**
+ * Custom materials for a batch, as a JSON array of `Material` objects.
+ * Component colours are optional. Throws on the first invalid material.
+ */
+export const readMaterials = (text: string): Material[] => {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error('The materials file must hold a JSON array.');
+  return parsed.map((raw: unknown, index) => {
+    const entry = `Material ${index + 1}`;
+    if (!isRecord(raw)) throw new Error(`${entry}: expected an object with the material fields.`);
+    const label = typeof raw.name === 'string' && raw.name ? `Material "${raw.name}"` : entry;
+    if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${label}: it needs an id.`);
+    if (typeof raw.name !== 'string') throw new Error(`${label}: it needs a name.`);
+    if (!Array.isArray(raw.composition) || !raw.composition.every(isRecord)) {
+      throw new Error(`${label}: composition must be a list of { element, percentage } objects.`);
+    }
+    const material: Material = {
+      id: raw.id,
+      name: raw.name,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      grainDensity: toNumber(raw.grainDensity),
+      porosity: toNumber(raw.porosity),
+      strength: toNumber(raw.strength),
+      composition: raw.composition.map((c, i) => ({
+        element: typeof c.element === 'string' ? c.element : '',
+        percentage: toNumber(c.percentage),
+        fill: typeof c.fill === 'string' ? c.fill : COLORS[i % COLORS.length]
+      })),
+      builtIn: false
+    };
+    const problem = validateMaterial(material)[0];
+    if (problem) throw new Error(`${label}: ${problem}`);
+    return material;
+  });
+};
+
+// Walk a dotted path from the result, with `input` alongside its own fields
+function fieldValue(input: AsteroidInput, result: AnalysisResult, path: string): unknown {
+  let value: unknown = { input, ...result };
+  for (const key of path.split('.')) {
+    if (value === null) return null;
+    if (typeof value !== 'object' || !(key in value)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Fields that do not name anything in a result. Checked against a probe run
+ * of the default scenario with an epoch set; paths under an absent ocean
+ * impact still count.
+ */
+export const unknownFields = (fields: string[]): string[] => {
+  const input: AsteroidInput = { ...DEFAULT_INPUT, epoch: '2000-01-01T00:00Z' };
+  const probe = computeAnalysis(input);
+  return fields.filter(path => fieldValue(input, probe, path) === undefined);
+};
+
+/**
+ * Run every readable, valid row through the engine. One row failing never
+ * stops the rest.
+ */
+export const analyzeBatch = (rows: BatchRow[], { fields, steps }: BatchOptions): BatchRecord[] =>
+  rows.map(({ row, input, errors }) => {
+    if (!input || errors.length > 0) return { row, status: 'invalid', values: {}, steps: null, errors };
+    try {
+      const result = analyzeAsteroid(input);
+      const values = Object.fromEntries(fields.map(path => [path, fieldValue(input, result, path) ?? null]));
+      return { row, status: 'ok', values, steps: steps ? result.dimensionalProcess : null, errors: [] };
+    } catch (err) {
+      return { row, status: 'failed', values: {}, steps: null, errors: [err instanceof Error ? err.message : String(err)] };
+    }
+  });
+
+export const batchSucceeded = (records: BatchRecord[]): boolean => records.every(r => r.status === 'ok');
+
+export const formatBatch = (records: BatchRecord[], format: BatchFormat, { fields, steps }: BatchOptions): string => {
+  if (format === 'jsonl') {
+    return records.map(({ row, status, values, steps: rowSteps, errors }) => JSON.stringify({
+      row,
+      status,
+      ...values,
+      ...(steps && rowSteps ? { steps: rowSteps } : {}),
+      ...(errors.length > 0 ? { errors } : {})
+    })).join('\n') + '\n';
+  }
+
+  const header = ['row', 'status', ...fields, ...(steps ? ['steps'] : []), 'errors'];
+  const rows = records.map(({ row, status, values, steps: rowSteps, errors }) => [
+    row,
+    status,
+    ...fields.map(path => csvValue(values[path])),
+    ...(steps ? [rowSteps ? rowSteps.map(s => `${s.step}: ${s.result}`).join('; ') : null] : []),
+    errors.join('; ')
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+const csvValue = (value: unknown): string | number | boolean | null =>
+  value === undefined || value === null ? null
+    : typeof value === 'object' ? JSON.stringify(value)
+      : value as string | number | boolean;
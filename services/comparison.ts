@@ -0,0 +1,37 @@
+import { HistoryItem, StepDiffRow } from "../types";
+
+export const percentDiff = (value: number | null, baseline: number | null): number | null => {
+  if (value === null || baseline === null) return null;
+  if (baseline === 0) return value === 0 ? 0 : null;
+  return ((value - baseline) / Math.abs(baseline)) * 100;
+};
+
+/**
+ * Align dimensional steps across scenarios by step name, in first-seen order,
+ * and express each step's numeric value relative to the first scenario's.
+ * Values in different units, such as a burst altitude against an impact
+ * speed, are not compared.
+ */
+export const diffSteps = (items: HistoryItem[]): StepDiffRow[] => {
+  const names: string[] = [];
+  items.forEach(item => item.result.dimensionalProcess.forEach(step => {
+    if (!names.includes(step.step)) names.push(step.step);
+  }));
+
+  return names.map(name => {
+    const values = items.map(item => {
+      const step = item.result.dimensionalProcess.find(s => s.step === name);
+      return step
+        ? { result: step.result, value: step.value ?? null, unit: step.unit ?? null }
+        : { result: null, value: null, unit: null };
+    });
+    const baseline = values[0];
+    return {
+      step: name,
+      cells: values.map((v, i) => ({
+        ...v,
+        percentDiff: i === 0 || v.unit !== baseline.unit ? null : percentDiff(v.value, baseline.value)
+      }))
+    };
+  });
+};
@@ -0,0 +1,162 @@
+import { AnalysisResult, AsteroidInput, ComputeOptions, ComputeRequest, ComputeResponse, ComputeTask, SweepCell, SweepConfig, SweepPoint, SweepResult, UncertaintyOptions } from "../types";
+import { analyzeAsteroid } from "./analysis";
+import { listMaterials } from "./materials";
+import { runSweep, sweepPoints, sweepResult } from "./sweep";
+
+// Leave a core for the page and its animation; beyond four the gains are small
+const POOL_SIZE = typeof navigator === 'undefined' ? 1 : Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+// Slices per worker when a sweep is split up, so fast workers pick up slack
+const SLICES_PER_WORKER = 2;
+
+interface Job {
+  request: ComputeRequest;
+  onProgress: (done: number, total: number) => void;
+  resolve: (result: AnalysisResult | SweepCell[]) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  job: Job | null;
+}
+
+// Workers are started on demand and kept for the next job
+const slots: Slot[] = [];
+const queue: Job[] = [];
+let nextId = 1;
+
+const abortError = () => new DOMException('The computation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+function spawn(): Slot {
+  const slot: Slot = { worker: new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' }), job: null };
+  slot.worker.onmessage = ({ data }: MessageEvent<ComputeResponse>) => {
+    const job = slot.job;
+    if (!job || job.request.id !== data.id) return;
+    if (data.type === 'progress') {
+      job.onProgress(data.done, data.total);
+      return;
+    }
+    slot.job = null;
+    if (data.type === 'done') job.resolve(data.result);
+    else job.reject(new Error(data.message));
+    dispatch();
+  };
+  // A worker that crashed is replaced rather than reused
+  slot.worker.onerror = event => {
+    const job = slot.job;
+    retire(slot);
+    job?.reject(new Error(event.message || 'The engine worker stopped unexpectedly.'));
+    dispatch();
+  };
+  slots.push(slot);
+  return slot;
+}
+
+function retire(slot: Slot) {
+  slot.worker.terminate();
+  slots.splice(slots.indexOf(slot), 1);
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    const slot = slots.find(s => !s.job) ?? (slots.length < POOL_SIZE ? spawn() : null);
+    if (!slot) return;
+    slot.job = queue.shift()!;
+    slot.worker.postMessage(slot.job.request);
+  }
+}
+
+/**
+ * Queue a task for the next free worker. The engine never checks for
+ * cancellation mid-task, so aborting a running job terminates its worker.
+ */
+function submit<T extends AnalysisResult | SweepCell[]>(task: ComputeTask, onProgress: Job['onProgress'], signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const cancel = () => {
+      const slot = slots.find(s => s.job === job);
+      if (slot) retire(slot);
+      else queue.splice(queue.indexOf(job), 1);
+      job.reject(abortError());
+      dispatch();
+    };
+    const job: Job = {
+      request: { id: nextId++, task, materials: listMaterials().filter(m => !m.builtIn) },
+      onProgress,
+      resolve: result => {
+        signal?.removeEventListener('abort', cancel);
+        resolve(result as T);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', cancel);
+        reject(error);
+      }
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    queue.push(job);
+    dispatch();
+  });
+}
+
+/**
+ * `analyzeAsteroid` off the main thread. Progress follows the ensemble
+ * samples, so a run without uncertainty reports none. Where workers are
+ * unavailable it runs inline.
+ */
+export const analyzeInBackground = (
+  input: AsteroidInput,
+  uncertainty?: UncertaintyOptions,
+  { onProgress, signal }: ComputeOptions = {}
+): Promise<AnalysisResult> => {
+  const progress = (done: number, total: number) => onProgress?.(done / total);
+  if (typeof Worker === 'undefined') {
+    return signal?.aborted ? Promise.reject(abortError()) : Promise.resolve().then(() => analyzeAsteroid(input, uncertainty, progress));
+  }
+  return submit<AnalysisResult>({ kind: 'analyze', input, uncertainty }, progress, signal);
+};
+
+/**
+ * A parameter sweep split into slices across the worker pool. One slice
+ * failing cancels the rest.
+ */
+export const sweepInBackground = async (
+  base: AsteroidInput,
+  config: SweepConfig,
+  { onProgress, signal }: ComputeOptions = {}
+): Promise<SweepResult> => {
+  if (signal?.aborted) throw abortError();
+  if (typeof Worker === 'undefined') return runSweep(base, config, (done, total) => onProgress?.(done / total));
+
+  const points = sweepPoints(base, config);
+  const size = Math.ceil(points.length / (POOL_SIZE * SLICES_PER_WORKER));
+  const slices: SweepPoint[][] = [];
+  for (let i = 0; i < points.length; i += size) slices.push(points.slice(i, i + size));
+
+  const done = slices.map(() => 0);
+  const report = (slice: number, count: number) => {
+    done[slice] = count;
+    onProgress?.(done.reduce((sum, n) => sum + n, 0) / points.length);
+  };
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  try {
+    const parts = await Promise.all(slices.map((slice, k) =>
+      submit<SweepCell[]>({ kind: 'sweep', points: slice }, count => report(k, count), controller.signal).then(cells => {
+        report(k, slice.length);
+        return cells;
+      })
+    ));
+    return sweepResult(config, parts.flat());
+  } catch (error) {
+    controller.abort();
+    throw signal?.aborted ? abortError() : error;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+};
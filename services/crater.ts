@@ -0,0 +1,39 @@
+import { Quantity } from "../types";
+import { div, inUnit, mul, pow, quantity, scalar } from "./units";
+
+const G = 9.81; // m/s^2
+
+/**
+ * Transient crater diameter from the Schmidt-Holsapple style scaling law
+ * D_t = 1.161 * (rho_i / rho_t)^(1/3) * L^0.78 * v^0.44 * g^-0.22 * sin(θ)^(1/3)
+ * with L in m, v in m/s and θ the impact angle from horizontal. The
+ * exponents are chosen so the units reduce to a length.
+ */
+export const craterScaling = (
+  impactorDensity: number,
+  targetDensity: number,
+  impactorDiameter: number,
+  velocityMs: number,
+  angleDeg: number
+): Quantity => {
+  if (impactorDiameter <= 0 || velocityMs <= 0) return quantity(0, 'm');
+  return mul(
+    scalar(1.161),
+    pow(div(quantity(impactorDensity, 'kg/m³'), quantity(targetDensity, 'kg/m³')), 1/3),
+    pow(quantity(impactorDiameter, 'm'), 0.78),
+    pow(quantity(velocityMs, 'm/s'), 0.44),
+    pow(quantity(G, 'm/s²'), -0.22),
+    scalar(Math.cbrt(Math.sin((angleDeg * Math.PI) / 180)))
+  );
+};
+
+/**
+ * Transient crater diameter (m); see craterScaling.
+ */
+export const transientCraterDiameter = (
+  impactorDensity: number,
+  targetDensity: number,
+  impactorDiameter: number,
+  velocityMs: number,
+  angleDeg: number
+): number => inUnit(craterScaling(impactorDensity, targetDensity, impactorDiameter, velocityMs, angleDeg), 'm');
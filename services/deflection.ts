@@ -0,0 +1,201 @@
+import { AnalysisResult, AsteroidInput, DeflectionOptions, DeflectionPlan, DimensionalStep, MaterialLookup, Quantity } from "../types";
+import { computeAnalysis } from "./analysis";
+import { EARTH_RADIUS_KM } from "./encounter";
+import { bulkDensity, getMaterial } from "./materials";
+import { add, derive, div, inUnit, max, mul, pow, quantity, scalar, sqrt, sub } from "./units";
+
+const G = 6.674e-11; // m^3 kg^-1 s^-2
+// Heliocentric mean motion of a 1 AU orbit; most NEO orbits are close enough for planning
+const MEAN_MOTION = (2 * Math.PI) / (365.25 * 86400); // rad/s
+
+// Nuclear standoff coupling: rough engineering values, good to a factor of a few
+const DEPOSITED_FRACTION = 0.5;     // of the intercepted yield, absorbed as neutrons and X-rays
+const VAPORIZATION_ENERGY = 1e7;    // J/kg to vaporise silicate
+const BLOWOFF_EFFICIENCY = 0.2;     // of the deposited energy carried off as ejecta motion
+
+/**
+ * Displacement at encounter per unit along-track Δv applied `leadDays`
+ * earlier, from the Clohessy-Wiltshire solution about a circular orbit.
+ * Grows as t for short leads and 3t once the orbit has time to drift.
+ */
+const driftQuantity = (leadDays: number): Quantity => {
+  const perRadian = quantity(1 / MEAN_MOTION, 's'); // 1/n
+  const nt = MEAN_MOTION * leadDays * 86400;
+  const radial = mul(scalar(2 * (1 - Math.cos(nt))), perRadian);
+  const along = sub(mul(scalar(4 * Math.sin(nt)), perRadian), mul(scalar(3), quantity(leadDays, 'd')));
+  return sqrt(add(pow(radial, 2), pow(along, 2)));
+};
+
+// Fraction of an isotropic burst at height h that a sphere of radius R intercepts
+const interceptedFraction = (standoff: number): number => {
+  const sinTheta = 1 / (1 + standoff);
+  return (1 - Math.sqrt(1 - sinTheta * sinTheta)) / 2;
+};
+
+/**
+ * Problems that stop a plan being computed.
+ */
+export const validateDeflection = (options: DeflectionOptions): string[] => {
+  const out: string[] = [];
+  const positive = (value: number, label: string) => {
+    if (!(Number.isFinite(value) && value > 0)) out.push(`${label} must be positive.`);
+  };
+  positive(options.leadTime, 'Lead time');
+  if (!(options.marginKm >= 0)) out.push('Safety margin cannot be negative.');
+  if (options.method === 'kinetic') {
+    positive(options.spacecraftMass, 'Impactor mass');
+    positive(options.impactSpeed, 'Impact speed');
+    if (!(options.beta >= 1)) out.push('β is at least 1; ejecta can only add momentum.');
+  }
+  if (options.method === 'tractor') {
+    positive(options.spacecraftMass, 'Tractor mass');
+    positive(options.towDuration, 'Tow duration');
+    if (!(options.hoverDistance > 1)) out.push('The tractor must hover more than one body radius from the centre.');
+    if (options.towDuration > options.leadTime) out.push('The tow cannot last longer than the lead time.');
+  }
+  if (options.method === 'nuclear') {
+    positive(options.yieldMegatons, 'Yield');
+    positive(options.standoff, 'Standoff height');
+  }
+  return out;
+};
+
+/**
+ * Size a deflection for `input` and re-run the engine on the shifted
+ * trajectory. The push is treated as along-track, moving the b-plane point
+ * straight outward from Earth; a tractor's steady tug is replaced by one
+ * impulse at the middle of the tow.
+ */
+export const planDeflection = (
+  input: AsteroidInput,
+  result: AnalysisResult,
+  options: DeflectionOptions,
+  materials: MaterialLookup = getMaterial
+): DeflectionPlan => {
+  const { method } = options;
+  const material = materials(input.type);
+  if (!material) throw new Error(`Unknown material "${input.type}".`);
+  const massQ = mul(quantity(bulkDensity(material), 'kg/m³'), quantity(result.body.volume, 'm³'));
+  const asteroidMass = inUnit(massQ, 'kg');
+  // Tractors stand off from the tip of the longest axis; standoff bursts are sized on the mean radius
+  const radius = method === 'tractor' ? result.body.extents[0] / 2 : result.body.equivalentDiameter / 2;
+
+  const b = Math.abs(input.impactParameter);
+  const shiftQ = max(sub(add(quantity(result.encounter.captureRadius, 'km'), quantity(options.marginKm, 'km')), quantity(b, 'km')), quantity(0, 'km'));
+  const effectiveLead = method === 'tractor' ? options.leadTime - options.towDuration / 2 : options.leadTime;
+  const driftQ = driftQuantity(effectiveLead);
+  const requiredQ = div(shiftQ, driftQ);
+  const requiredDeltaV = inUnit(requiredQ, 'm/s');
+
+  const spacecraftQ = quantity(options.spacecraftMass, 'kg');
+  const hoverQ = quantity(options.hoverDistance * radius, 'm');
+  const couplingQ = sqrt(div(scalar(2 * BLOWOFF_EFFICIENCY), quantity(VAPORIZATION_ENERGY, 'J/kg')));
+  const deposited = interceptedFraction(options.standoff) * DEPOSITED_FRACTION;
+
+  let pushQ: Quantity;
+  let requiredResource: number;
+  let pushStep: Omit<DimensionalStep, 'result' | 'derivation'>;
+  if (method === 'kinetic') {
+    pushQ = div(mul(scalar(options.beta), spacecraftQ, quantity(options.impactSpeed, 'km/s')), add(massQ, spacecraftQ));
+    // Δv = β m U / (M + m), solved for m; no mass suffices once Δv reaches βU
+    const headroom = options.beta * options.impactSpeed * 1000 - requiredDeltaV;
+    requiredResource = headroom > 0 ? requiredDeltaV * asteroidMass / headroom : Infinity;
+    pushStep = {
+      step: "Kinetic Impactor Δv",
+      equation: `Δv = β * m * U / (M + m) = ${options.beta} * ${options.spacecraftMass} * ${options.impactSpeed} / (M + m)`,
+      explanation: "Momentum of the spacecraft, amplified by the ejecta thrown back off the crater."
+    };
+  } else if (method === 'tractor') {
+    pushQ = mul(div(mul(quantity(G, 'm³/kg·s²'), spacecraftQ), pow(hoverQ, 2)), quantity(options.towDuration, 'd'));
+    requiredResource = requiredDeltaV * (options.hoverDistance * radius) ** 2 / (G * options.towDuration * 86400);
+    pushStep = {
+      step: "Gravity Tractor Δv",
+      equation: `Δv = G * m * T / d², d = ${options.hoverDistance} * ${radius.toFixed(0)} m, T = ${options.towDuration.toLocaleString()} d`,
+      explanation: "Mutual gravity with the hovering spacecraft accelerates the body for the whole tow."
+    };
+  } else {
+    pushQ = div(mul(scalar(deposited), quantity(options.yieldMegatons, 'Mt'), couplingQ), massQ);
+    requiredResource = inUnit(quantity(requiredDeltaV * asteroidMass / (deposited * couplingQ.value), 'J'), 'Mt');
+    pushStep = {
+      step: "Nuclear Standoff Δv",
+      equation: `Δv = f * Y * sqrt(2η / Q_v) / M, f = ${(deposited * 100).toFixed(1)}% at h = ${options.standoff} R`,
+      explanation: "Radiation vaporises a thin surface layer facing the burst; its blow-off recoils the body."
+    };
+  }
+  const achievedDeltaV = inUnit(pushQ, 'm/s');
+  const achievedShiftQ = mul(driftQ, pushQ);
+  const achievedShiftKm = inUnit(achievedShiftQ, 'km');
+
+  // Push the b-plane point straight away from Earth's centre
+  const side = input.impactParameter < 0 ? -1 : 1;
+  const deflectedInput: AsteroidInput = { ...input, name: `${input.name} (deflected)`, impactParameter: side * (b + achievedShiftKm) };
+  const deflected = computeAnalysis(deflectedInput, materials);
+  const altitude = deflected.encounter.perigee - EARTH_RADIUS_KM;
+  const succeeds = achievedDeltaV >= requiredDeltaV;
+
+  const mmPerS = (value: number) => `${(value * 1000).toPrecision(3)} mm/s`;
+  const km = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 0 })} km`;
+  const steps: DimensionalStep[] = [
+    {
+      step: "Asteroid Mass",
+      equation: `M = ρ * V`,
+      explanation: `Bulk density of ${material.name} times the body's volume.`,
+      result: `${asteroidMass.toExponential(2)} kg`,
+      derivation: derive(massQ, 'kg')
+    },
+    {
+      step: "Required b-Plane Shift",
+      equation: `Δb = b_c + margin - |b| = ${result.encounter.captureRadius.toFixed(0)} + ${options.marginKm} - ${b.toFixed(0)}`,
+      explanation: "Move the encounter point outside the focused capture disc with some clearance.",
+      result: km(inUnit(shiftQ, 'km')),
+      derivation: derive(shiftQ, 'km')
+    },
+    {
+      step: "Drift per Unit Δv",
+      equation: `D = |(2/n)(1 - cos nt), (4/n) sin nt - 3t|, t = ${effectiveLead.toLocaleString(undefined, { maximumFractionDigits: 0 })} d`,
+      explanation: method === 'tractor'
+        ? "Along-track drift at the encounter, counted from the middle of the tow."
+        : "Along-track drift at the encounter; an early push grows by the orbit's differential motion.",
+      result: `${(inUnit(driftQ, 's') / 1e6).toFixed(1)} km per mm/s`,
+      derivation: derive(driftQ, 's')
+    },
+    {
+      step: "Required Δv",
+      equation: `Δv = Δb / D`,
+      explanation: "The along-track velocity change that produces the required shift.",
+      result: mmPerS(requiredDeltaV),
+      derivation: derive(requiredQ, 'm/s')
+    },
+    { ...pushStep, result: mmPerS(achievedDeltaV), derivation: derive(pushQ, 'm/s') },
+    {
+      step: "Achieved b-Plane Shift",
+      equation: `Δb = D * Δv`,
+      explanation: `Moves the b-plane offset from ${km(b)} to ${km(b + achievedShiftKm)}.`,
+      result: km(achievedShiftKm),
+      derivation: derive(achievedShiftQ, 'km')
+    },
+    {
+      step: "Deflected Closest Approach",
+      equation: `h = q - R⊕`,
+      explanation: deflected.isHit
+        ? "The deflected trajectory still intersects Earth."
+        : "Altitude of the deflected flyby above Earth's surface.",
+      result: deflected.isHit ? 'Impact' : km(altitude),
+      derivation: derive(sub(quantity(deflected.encounter.perigee, 'km'), quantity(EARTH_RADIUS_KM, 'km')), 'km')
+    }
+  ];
+
+  return {
+    options,
+    asteroidMass,
+    requiredShiftKm: inUnit(shiftQ, 'km'),
+    requiredDeltaV,
+    achievedDeltaV,
+    achievedShiftKm,
+    requiredResource: Math.max(requiredResource, 0),
+    deflectedInput,
+    deflected,
+    succeeds,
+    steps
+  };
+};
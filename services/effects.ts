@@ -0,0 +1,124 @@
+import { AtmosphericEntry, EffectsAtDistance, ImpactEffects } from "../types";
+import { EARTH_RADIUS_KM } from "./encounter";
+
+// Scaling laws follow Collins, Melosh & Marcus (2005), "Earth Impact Effects Program".
+const TNT_JOULES = 4.184e15;      // 1 Megaton TNT in Joules
+const LUMINOUS_EFFICIENCY = 3e-3; // fraction of energy radiated as thermal
+const PSI_TO_PA = 6894.76;
+const OVERPRESSURE_PSI = [20, 5, 1];
+const REPORT_DISTANCES_KM = [1, 5, 10, 20, 50, 100, 200, 500, 1000];
+
+// Thermal thresholds for a 1 Mt event (J/m^2), scaled by E_Mt^(1/6)
+const THERMAL_THRESHOLDS = [
+  { label: 'Clothing ignites', exposure: 1.0e6 },
+  { label: 'Third-degree burns', exposure: 4.2e5 },
+  { label: 'Second-degree burns', exposure: 2.5e5 }
+];
+
+/**
+ * Fraction of the fireball visible above the horizon at a ground distance.
+ */
+function visibleFireballFraction(distanceKm: number, fireballRadiusKm: number, burstAltitudeKm: number): number {
+  const delta = distanceKm / EARTH_RADIUS_KM;
+  const hidden = (1 - Math.cos(delta)) * EARTH_RADIUS_KM - burstAltitudeKm;
+  if (hidden >= fireballRadiusKm) return 0;
+  if (hidden <= -fireballRadiusKm) return 1;
+  const angle = Math.acos(hidden / fireballRadiusKm);
+  return (2 / Math.PI) * (angle - (hidden / fireballRadiusKm) * Math.sin(angle));
+}
+
+function thermalExposure(energyJoules: number, distanceKm: number, fireballRadiusKm: number, burstAltitudeKm: number): number {
+  const slantMeters = Math.max(1, Math.hypot(distanceKm, burstAltitudeKm) * 1000);
+  const fraction = visibleFireballFraction(distanceKm, fireballRadiusKm, burstAltitudeKm);
+  return (fraction * LUMINOUS_EFFICIENCY * energyJoules) / (2 * Math.PI * slantMeters * slantMeters);
+}
+
+/**
+ * Peak overpressure of a 1 kt surface burst scaled by E^(1/3). Airbursts
+ * are approximated by measuring along the slant range to the burst point.
+ */
+function overpressure(energyMt: number, distanceKm: number, burstAltitudeKm: number): number {
+  const px = 75000; // Pa
+  const rx = 290;   // m
+  const energyKt = energyMt * 1000;
+  const scaled = Math.max(1, Math.hypot(distanceKm, burstAltitudeKm) * 1000) / Math.cbrt(energyKt);
+  return ((px * rx) / (4 * scaled)) * (1 + 3 * Math.pow(rx / scaled, 1.3));
+}
+
+/**
+ * Largest ground distance (km) at which f(distance) still reaches the
+ * threshold; f must decrease with distance. Returns 0 if it never does.
+ */
+function radiusForThreshold(f: (distanceKm: number) => number, threshold: number): number {
+  if (f(0) < threshold) return 0;
+  let lo = 0;
+  let hi = 1;
+  while (f(hi) >= threshold && hi < 20000) hi *= 2;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) >= threshold) lo = mid; else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Magnitude felt at a distance. Beyond 700 km the geometric 1.66·log10(Δ)
+ * fall-off is anchored to the regional fit so the curve stays continuous.
+ */
+function effectiveMagnitude(magnitude: number, distanceKm: number): number {
+  if (distanceKm < 60) return magnitude - 0.0238 * distanceKm;
+  if (distanceKm < 700) return magnitude - 0.0048 * distanceKm - 1.1644;
+  return magnitude - 0.0048 * 700 - 1.1644 - 1.66 * Math.log10(distanceKm / 700);
+}
+
+/**
+ * Damage effects of the energy deposited by an airburst or a surface impact.
+ * `craterDiameterMeters` is the transient crater and drives the ejecta blanket.
+ */
+export const computeEffects = (entry: AtmosphericEntry, craterDiameterMeters: number): ImpactEffects => {
+  const energyMt = entry.isAirburst ? entry.airburstYieldMegatons : entry.impactEnergyMegatons;
+  const energyJoules = energyMt * TNT_JOULES;
+  const burstAltitudeKm = entry.isAirburst ? entry.airburstAltitude ?? 0 : 0;
+
+  // Fireball: R_f = 0.002 * E^(1/3) (m, E in J)
+  const fireballRadiusKm = (0.002 * Math.cbrt(energyJoules)) / 1000;
+
+  // Seismic (efficiency 1e-4): M = 0.67 * log10(E) - 5.87; only ground impacts couple into the crust
+  const seismicMagnitude = !entry.isAirburst && energyJoules > 0 ? 0.67 * Math.log10(energyJoules) - 5.87 : null;
+
+  const ejectaThickness = (distanceKm: number): number => {
+    if (craterDiameterMeters <= 0) return 0;
+    const r = distanceKm * 1000;
+    if (r < craterDiameterMeters / 2) return 0;
+    return Math.pow(craterDiameterMeters, 4) / (112 * Math.pow(r, 3));
+  };
+
+  const thermalAt = (d: number) => thermalExposure(energyJoules, d, fireballRadiusKm, burstAltitudeKm);
+  const overpressureAt = (d: number) => overpressure(energyMt, d, burstAltitudeKm);
+  const thermalScale = Math.pow(Math.max(energyMt, 1e-9), 1 / 6);
+
+  const atDistance: EffectsAtDistance[] = REPORT_DISTANCES_KM.map(distanceKm => ({
+    distanceKm,
+    thermalExposure: energyJoules > 0 ? thermalAt(distanceKm) : 0,
+    overpressurePsi: energyJoules > 0 ? overpressureAt(distanceKm) / PSI_TO_PA : 0,
+    seismicMagnitude: seismicMagnitude === null ? null : effectiveMagnitude(seismicMagnitude, distanceKm),
+    ejectaThicknessMeters: ejectaThickness(distanceKm)
+  }));
+
+  return {
+    energyMegatons: energyMt,
+    burstAltitudeKm,
+    fireballRadiusKm,
+    seismicMagnitude,
+    overpressureRings: OVERPRESSURE_PSI.map(psi => ({
+      psi,
+      radiusKm: energyJoules > 0 ? radiusForThreshold(overpressureAt, psi * PSI_TO_PA) : 0
+    })),
+    thermalRings: THERMAL_THRESHOLDS.map(t => ({
+      label: t.label,
+      exposure: t.exposure * thermalScale,
+      radiusKm: energyJoules > 0 ? radiusForThreshold(thermalAt, t.exposure * thermalScale) : 0
+    })),
+    atDistance
+  };
+};
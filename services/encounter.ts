@@ -0,0 +1,147 @@
+import { AsteroidInput, EncounterGeometry, TrajectoryPoint } from "../types";
+import { ENTRY_ALTITUDE } from "./atmosphere";
+
+// Earth Constants
+export const EARTH_MU = 398600.4418; // km^3/s^2 (G * M_earth)
+export const EARTH_RADIUS_KM = 6371;
+export const EARTH_ESCAPE_VELOCITY = Math.sqrt((2 * EARTH_MU) / EARTH_RADIUS_KM); // ~11.19 km/s
+
+// Below this hyperbolic excess speed the two-body focusing factor diverges; clamp it.
+export const MIN_V_INFINITY = 0.1; // km/s
+
+/**
+ * Error function (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7).
+ */
+function erf(x: number): number {
+    const sign = x < 0 ? -1 : 1;
+    const ax = Math.abs(x);
+    const t = 1 / (1 + 0.3275911 * ax);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    return sign * (1 - poly * Math.exp(-ax * ax));
+}
+
+/**
+ * Probability that a point drawn from an isotropic 2D Gaussian centred at
+ * (offset, 0) with standard deviation sigma lands inside a disc of the given
+ * radius centred on the origin. Integrated with Simpson's rule across the chord.
+ */
+function probabilityInsideDisc(offset: number, sigma: number, radius: number): number {
+    if (sigma <= 0) return offset <= radius ? 1 : 0;
+    if (offset - radius > 8 * sigma) return 0;
+
+    const n = 200; // even number of Simpson intervals
+    const h = (2 * radius) / n;
+    let sum = 0;
+    for (let i = 0; i <= n; i++) {
+        const x = -radius + i * h;
+        const halfChord = Math.sqrt(Math.max(0, radius * radius - x * x));
+        const pdfX = Math.exp(-0.5 * Math.pow((x - offset) / sigma, 2)) / (sigma * Math.sqrt(2 * Math.PI));
+        const pY = erf(halfChord / (sigma * Math.SQRT2));
+        const weight = i === 0 || i === n ? 1 : i % 2 === 0 ? 2 : 4;
+        sum += weight * pdfX * pY;
+    }
+    return Math.max(0, Math.min(1, (sum * h) / 3));
+}
+
+/**
+ * Two-body hyperbolic encounter with Earth.
+ * `input.velocity` is the atmospheric entry speed, so the hyperbolic excess
+ * speed follows from energy conservation: v∞² = v² - v_esc².
+ */
+export const computeEncounter = (input: AsteroidInput): EncounterGeometry => {
+    const escapeVelocity = EARTH_ESCAPE_VELOCITY;
+    const vInfinity = Math.sqrt(Math.max(MIN_V_INFINITY * MIN_V_INFINITY, input.velocity * input.velocity - escapeVelocity * escapeVelocity));
+
+    // Gravitational focusing: b_c = R⊕ · sqrt(1 + v_esc² / v∞²)
+    const focusingFactor = Math.sqrt(1 + Math.pow(escapeVelocity / vInfinity, 2));
+    const captureRadius = EARTH_RADIUS_KM * focusingFactor;
+
+    // Hyperbola: a = μ / v∞², e = sqrt(1 + b² / a²), perigee q = a(e - 1)
+    const semiMajorAxis = EARTH_MU / (vInfinity * vInfinity);
+    const b = Math.abs(input.impactParameter);
+    const eccentricity = Math.sqrt(1 + Math.pow(b / semiMajorAxis, 2));
+    const perigee = semiMajorAxis * (eccentricity - 1);
+
+    const probability = probabilityInsideDisc(b, Math.abs(input.impactParameterSigma), captureRadius);
+
+    return {
+        range: input.distance,
+        vInfinity,
+        escapeVelocity,
+        focusingFactor,
+        captureRadius,
+        semiMajorAxis,
+        eccentricity,
+        perigee,
+        impactProbability: Math.max(0, Math.min(100, parseFloat((probability * 100).toFixed(1)))),
+        isHit: b <= captureRadius
+    };
+};
+
+/**
+ * Position on the flyby hyperbola for hyperbolic anomaly F, in the orbital
+ * plane with perigee on +x. Time is measured from perigee passage (s).
+ */
+export const positionAtAnomaly = (encounter: EncounterGeometry, F: number): TrajectoryPoint => {
+    const a = encounter.semiMajorAxis;
+    const e = encounter.eccentricity;
+    const n = Math.sqrt(EARTH_MU / Math.pow(a, 3));
+    return {
+        x: a * (e - Math.cosh(F)),
+        y: a * Math.sqrt(e * e - 1) * Math.sinh(F),
+        r: a * (e * Math.cosh(F) - 1),
+        t: (e * Math.sinh(F) - F) / n
+    };
+};
+
+/**
+ * Solve Kepler's hyperbolic equation e·sinh(F) - F = n·t for F.
+ */
+export const anomalyAtTime = (encounter: EncounterGeometry, t: number): number => {
+    const a = encounter.semiMajorAxis;
+    const e = encounter.eccentricity;
+    const M = Math.sqrt(EARTH_MU / Math.pow(a, 3)) * t;
+    if (M === 0) return 0;
+    let F = Math.asinh(M / e);
+    for (let i = 0; i < 50; i++) {
+        const delta = (e * Math.sinh(F) - F - M) / (e * Math.cosh(F) - 1);
+        F -= delta;
+        if (Math.abs(delta) < 1e-12) break;
+    }
+    return F;
+};
+
+/**
+ * Inbound (F ≤ 0) anomaly at which the object is `range` km from Earth's
+ * centre, or null for a range inside perigee, which the flyby never reaches.
+ */
+export const anomalyAtRange = (encounter: EncounterGeometry, range: number): number | null => {
+    if (range < encounter.perigee) return null;
+    const ratio = (range / encounter.semiMajorAxis + 1) / encounter.eccentricity;
+    return ratio <= 1 ? 0 : -Math.acosh(ratio);
+};
+
+/**
+ * Inverse of the perigee relation: the b-plane offset whose hyperbola passes
+ * `perigee` km from Earth's centre, b = q·sqrt(1 + 2μ / (q·v∞²)).
+ */
+export const impactParameterFromPerigee = (perigee: number, vInfinity: number): number => {
+    const v = Math.max(vInfinity, MIN_V_INFINITY);
+    return perigee * Math.sqrt(1 + (2 * EARTH_MU) / (perigee * v * v));
+};
+
+// Where the encounter ends: the atmospheric interface for a hit, perigee for a miss
+export const arrivalRange = (encounter: EncounterGeometry): number =>
+    encounter.isHit ? EARTH_RADIUS_KM + ENTRY_ALTITUDE / 1000 : encounter.perigee;
+
+/**
+ * Seconds from the analysis epoch, `range` km out on the inbound leg, to the
+ * arrival range. Null when perigee lies beyond the starting range: the flyby
+ * never passes through the epoch's position, so there is no time to measure.
+ */
+export const timeToEncounter = (encounter: EncounterGeometry): number | null => {
+    const start = anomalyAtRange(encounter, encounter.range);
+    const end = anomalyAtRange(encounter, arrivalRange(encounter));
+    if (start === null || end === null) return null;
+    return Math.max(0, positionAtAnomaly(encounter, end).t - positionAtAnomaly(encounter, start).t);
+};
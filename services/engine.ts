@@ -0,0 +1,113 @@
+import { AsteroidInput, BodyGeometry, ImpactPhysics, MaterialLookup, Quantity } from "../types";
+import { computeEncounter } from "./encounter";
+import { simulateEntry } from "./atmosphere";
+import { computeEffects } from "./effects";
+import { locateImpact } from "./geography";
+import { craterScaling } from "./crater";
+import { computeOceanImpact } from "./ocean";
+import { getMaterial } from "./materials";
+import { bodyGeometry } from "./shape";
+import { estimateExposure } from "./exposure";
+import { assessHazard } from "./hazard";
+import { encounterTimeline } from "./timeline";
+import { div, inUnit, mul, pow, quantity, scalar, settle } from "./units";
+
+/**
+ * Headless Physics Engine
+ * Pure and synchronous: the same input always gives the same physics, with no
+ * timers, DOM or formatted text. `services/analysis` turns the result into the
+ * steps, summary and report the app shows.
+ *
+ * The mass-energy chain and crater scaling are computed with unit-tagged
+ * quantities, so a unit slip there throws instead of producing a
+ * plausible-looking number. The encounter, entry, effects, ocean and exposure
+ * models work in plain SI and km values.
+ */
+export const evaluateImpact = (input: AsteroidInput, materials: MaterialLookup = getMaterial): ImpactPhysics => {
+  // 1. Bulk density: pore space carries no mass
+  const material = materials(input.type);
+  if (!material) throw new Error(`Unknown material "${input.type}".`);
+  const bulkDensity = mul(quantity(material.grainDensity, 'kg/m³'), scalar(1 - material.porosity));
+  const density = inUnit(bulkDensity, 'kg/m³');
+
+  // 2. Geometry (Length -> Volume)
+  // A non-spherical body continues through the chain as its volume-equivalent sphere
+  const body = bodyGeometry(input.diameter, input.shape);
+  const radius = div(quantity(input.diameter, 'm'), scalar(2));
+  const volume = bodyVolume(input, body, radius);
+
+  // 3. Mass and kinetic energy
+  const mass = mul(bulkDensity, settle(volume, 'm³'));
+  const velocity = quantity(input.velocity, 'km/s');
+  const energy = mul(scalar(0.5), settle(mass, 'kg'), pow(settle(velocity, 'm/s'), 2));
+  const energyMegatons = inUnit(energy, 'Mt');
+
+  // 4. Encounter (Hyperbolic approach with gravitational focusing) and hazard scales
+  const encounter = computeEncounter(input);
+  const hazard = assessHazard(encounter, energyMegatons);
+
+  // 5. Atmospheric entry (Drag, ablation and pancake fragmentation)
+  const entry = simulateEntry({
+    diameter: input.diameter,
+    density,
+    strength: material.strength,
+    velocity: input.velocity,
+    entryAngle: input.entryAngle
+  });
+
+  // 6. Crater (Transient crater diameter scaling law)
+  // Driven by whatever survives entry: an airburst leaves no crater.
+  // Ocean strikes open a water cavity and only crater the seafloor if it reaches it.
+  const site = locateImpact(input.latitude, input.longitude);
+  const impactorDiameter = 2 * Math.cbrt((3 * entry.impactMass) / (4 * Math.PI * density));
+  const ocean = site.terrain === 'ocean' && !entry.isAirburst
+    ? computeOceanImpact({ impactorDiameter, impactorDensity: density, velocity: entry.impactVelocity, entryAngle: input.entryAngle, waterDepth: input.waterDepth })
+    : null;
+  const crater = craterScaling(density, site.targetDensity, impactorDiameter, entry.impactVelocity * 1000, input.entryAngle);
+  const craterDiameter = entry.isAirburst
+    ? 0
+    : ocean
+      ? ocean.seafloorCraterDiameter
+      : inUnit(crater, 'm');
+
+  // 7. Damage effects and who is in reach of them
+  // A water cavity collapses without laying down an ejecta blanket
+  const effects = computeEffects(entry, ocean ? 0 : craterDiameter);
+  const exposure = estimateExposure(site, effects, craterDiameter);
+
+  // 8. When each phase of the approach happens
+  const timeline = encounterTimeline(encounter, entry, input.epoch);
+
+  return {
+    input,
+    material,
+    body,
+    bulkDensity,
+    radius,
+    volume,
+    mass,
+    velocity,
+    energy,
+    energyMegatons,
+    encounter,
+    hazard,
+    entry,
+    site,
+    impactorDiameter,
+    craterScaling: crater,
+    craterDiameter,
+    ocean,
+    effects,
+    exposure,
+    timeline
+  };
+};
+
+function bodyVolume(input: AsteroidInput, body: BodyGeometry, radius: Quantity): Quantity {
+  const { shape } = input;
+  if (!shape) return mul(scalar((4 / 3) * Math.PI), pow(settle(radius, 'm'), 3));
+  if (shape.kind === 'ellipsoid') {
+    return mul(scalar((4 / 3) * Math.PI), ...[shape.a, shape.b, shape.c].map(axis => quantity((axis * body.scale) / 2, 'm')));
+  }
+  return quantity(body.volume, 'm³');
+}
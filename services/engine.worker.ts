@@ -0,0 +1,36 @@
+/// <reference lib="webworker" />
+import { ComputeRequest, ComputeResponse, SweepCell } from "../types";
+import { analyzeAsteroid } from "./analysis";
+import { evaluateSweepPoint } from "./sweep";
+import { getMaterial, registerMaterial } from "./materials";
+
+// Sweep cells evaluated between progress reports
+const SWEEP_PROGRESS_INTERVAL = 10;
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+const post = (message: ComputeResponse) => scope.postMessage(message);
+
+/**
+ * Runs one engine task per message. A task is never interrupted from
+ * inside: services/compute cancels by terminating the worker.
+ */
+scope.onmessage = ({ data: { id, task, materials } }: MessageEvent<ComputeRequest>) => {
+  const progress = (done: number, total: number) => post({ id, type: 'progress', done, total });
+  try {
+    // Custom materials live in the page's registry; mirror them before running
+    materials.forEach(material => { if (!getMaterial(material.id)?.builtIn) registerMaterial(material); });
+
+    if (task.kind === 'analyze') {
+      post({ id, type: 'done', result: analyzeAsteroid(task.input, task.uncertainty, progress) });
+      return;
+    }
+    const cells: SweepCell[] = task.points.map((point, i) => {
+      const cell = evaluateSweepPoint(point);
+      if ((i + 1) % SWEEP_PROGRESS_INTERVAL === 0) progress(i + 1, task.points.length);
+      return cell;
+    });
+    post({ id, type: 'done', result: cells });
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,134 @@
+import { AsteroidInput, EnsembleMetric, EnsembleSummary, HistogramBin, ImpactPhysics, InputDistribution, NumericInputField, UncertaintyOptions } from "../types";
+import { INPUT_LIMITS } from "../constants";
+
+const HISTOGRAM_BINS = 20;
+const PROGRESS_INTERVAL = 25; // samples between progress reports
+const MAX_DRAWS = 100; // attempts at an in-range value before falling back to the nominal
+
+/**
+ * Mulberry32: small, fast, seedable 32-bit PRNG. Same seed, same ensemble.
+ */
+export const createRng = (seed: number): (() => number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+function standardNormal(rng: () => number): number {
+    // Box-Muller; guard against log(0)
+    const u1 = Math.max(rng(), 1e-12);
+    const u2 = rng();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Draw one value around `nominal` within the field's `limits`. Draws that
+ * fall outside, such as a negative diameter or an entry angle past 90°, are
+ * rejected and drawn again, which truncates the distribution at the limits.
+ */
+export const sampleDistribution = (
+    nominal: number,
+    dist: InputDistribution,
+    rng: () => number,
+    limits: { min: number; max: number }
+): number => {
+    const draw = (): number => {
+        switch (dist.kind) {
+            case 'normal':
+                return nominal + dist.sigma * standardNormal(rng);
+            case 'lognormal':
+                return nominal * Math.exp(Math.log(Math.max(dist.factor, 1)) * standardNormal(rng));
+            case 'uniform':
+                return dist.min + (dist.max - dist.min) * rng();
+            default:
+                return nominal;
+        }
+    };
+    for (let i = 0; i < MAX_DRAWS; i++) {
+        const x = draw();
+        if (x >= limits.min && x <= limits.max) return x;
+    }
+    return nominal;
+};
+
+export const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0;
+    const idx = (sorted.length - 1) * p;
+    const lo = Math.floor(idx);
+    const hi = Math.ceil(idx);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+function histogram(sorted: number[], logScale: boolean): HistogramBin[] {
+    const values = logScale ? sorted.filter(v => v > 0).map(Math.log10) : sorted;
+    if (values.length === 0) return [];
+    const min = values[0];
+    const max = values[values.length - 1];
+    const width = (max - min) / HISTOGRAM_BINS || 1;
+    const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+        binStart: logScale ? Math.pow(10, min + i * width) : min + i * width,
+        binEnd: logScale ? Math.pow(10, min + (i + 1) * width) : min + (i + 1) * width,
+        count: 0
+    }));
+    values.forEach(v => {
+        bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - min) / width))].count++;
+    });
+    return bins;
+}
+
+function summarize(values: number[], logScale: boolean): EnsembleMetric {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+        p5: percentile(sorted, 0.05),
+        p50: percentile(sorted, 0.5),
+        p95: percentile(sorted, 0.95),
+        logScale,
+        histogram: histogram(sorted, logScale)
+    };
+}
+
+/**
+ * Monte Carlo ensemble: perturb every field that has a distribution, run the
+ * deterministic engine on each sample and reduce to percentile bands.
+ */
+export const runEnsemble = (
+    input: AsteroidInput,
+    options: UncertaintyOptions,
+    evaluate: (sample: AsteroidInput) => ImpactPhysics,
+    onProgress?: (done: number, total: number) => void
+): EnsembleSummary => {
+    const rng = createRng(options.seed);
+    const fields = Object.keys(options.distributions) as NumericInputField[];
+    const energy: number[] = [];
+    const crater: number[] = [];
+    const probability: number[] = [];
+    let hits = 0;
+
+    for (let i = 0; i < options.samples; i++) {
+        const sample: AsteroidInput = { ...input };
+        fields.forEach(field => {
+            const dist = options.distributions[field];
+            if (dist) sample[field] = sampleDistribution(input[field], dist, rng, INPUT_LIMITS[field]);
+        });
+        const physics = evaluate(sample);
+        energy.push(physics.energyMegatons);
+        crater.push(physics.craterDiameter);
+        probability.push(physics.encounter.impactProbability);
+        if (physics.encounter.isHit) hits++;
+        if ((i + 1) % PROGRESS_INTERVAL === 0) onProgress?.(i + 1, options.samples);
+    }
+
+    return {
+        samples: options.samples,
+        seed: options.seed,
+        hitFraction: options.samples > 0 ? hits / options.samples : 0,
+        energy: summarize(energy, true),
+        crater: summarize(crater, false),
+        impactProbability: summarize(probability, false)
+    };
+};
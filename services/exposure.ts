@@ -0,0 +1,110 @@
+import { ExposureZone, ImpactEffects, ImpactSite, PopulationExposure } from "../types";
+import { CASUALTY_RATES } from "../constants";
+import { POPULATION_LEVELS, POPULATION_RESOLUTION, POPULATION_ROWS } from "../data/populationGrid";
+import { EARTH_RADIUS_KM } from "./encounter";
+import { destinationPoint } from "./geography";
+
+const COLUMNS = Math.round(360 / POPULATION_RESOLUTION);
+const CELL_KM = (Math.PI * EARTH_RADIUS_KM * POPULATION_RESOLUTION) / 180;
+
+let densities: Float32Array | null = null;
+
+// Decoded on first use: people/km² per cell, row-major from the north-west corner
+const densityGrid = (): Float32Array => {
+    if (densities) return densities;
+    densities = new Float32Array(POPULATION_ROWS.length * COLUMNS);
+    POPULATION_ROWS.forEach((row, r) => {
+        let col = 0;
+        for (let i = 0; i < row.length; i++) {
+            if (row[i] === '.') {
+                let run = '';
+                while (i + 1 < row.length && row[i + 1] >= '0' && row[i + 1] <= '9') run += row[++i];
+                col += parseInt(run, 10);
+            } else {
+                const level = POPULATION_LEVELS.indexOf(row[i]) + 1;
+                densities![r * COLUMNS + col++] = Math.pow(10, level / 10 - 1.1);
+            }
+        }
+    });
+    return densities;
+};
+
+/**
+ * People per km² at a point, from the bundled 0.5° grid.
+ */
+export const populationDensity = (latitude: number, longitude: number): number => {
+    const grid = densityGrid();
+    const row = Math.min(POPULATION_ROWS.length - 1, Math.max(0, Math.floor((90 - latitude) / POPULATION_RESOLUTION)));
+    const col = ((Math.floor((longitude + 180) / POPULATION_RESOLUTION) % COLUMNS) + COLUMNS) % COLUMNS;
+    return grid[row * COLUMNS + col];
+};
+
+/**
+ * People within `radiusKm` of a site. The disc is cut into rings and sectors
+ * about half a grid cell across, each weighted by its exact area on the sphere.
+ */
+export const populationWithin = (latitude: number, longitude: number, radiusKm: number): number => {
+    if (radiusKm <= 0) return 0;
+    const rings = Math.min(40, Math.max(4, Math.ceil(radiusKm / (CELL_KM / 2))));
+    const sectors = Math.min(360, Math.max(24, Math.ceil((2 * Math.PI * radiusKm) / (CELL_KM / 2))));
+    let total = 0;
+    for (let i = 0; i < rings; i++) {
+        const inner = (radiusKm * i) / rings;
+        const outer = (radiusKm * (i + 1)) / rings;
+        const area = (2 * Math.PI * EARTH_RADIUS_KM ** 2 * (Math.cos(inner / EARTH_RADIUS_KM) - Math.cos(outer / EARTH_RADIUS_KM))) / sectors;
+        for (let j = 0; j < sectors; j++) {
+            const [lon, lat] = destinationPoint(latitude, longitude, (inner + outer) / 2, (2 * Math.PI * (j + 0.5)) / sectors);
+            total += populationDensity(lat, lon) * area;
+        }
+    }
+    return total;
+};
+
+/**
+ * Population inside each damage zone and the casualties it implies. Zones
+ * are centred on the site and overlap, so each annulus between successive
+ * radii is charged to the most severe zone that covers it.
+ */
+export const estimateExposure = (site: ImpactSite, effects: ImpactEffects, craterDiameterMeters: number): PopulationExposure => {
+    const candidates = [
+        { label: 'Crater', radiusKm: craterDiameterMeters / 2000, ...CASUALTY_RATES.crater },
+        // An airburst fireball only reaches the ground if it is wider than the burst is high
+        { label: 'Fireball', radiusKm: Math.sqrt(Math.max(0, effects.fireballRadiusKm ** 2 - effects.burstAltitudeKm ** 2)), ...CASUALTY_RATES.fireball },
+        ...effects.overpressureRings.map(ring => ({ label: `${ring.psi} psi overpressure`, radiusKm: ring.radiusKm, ...CASUALTY_RATES.overpressure[ring.psi] })),
+        ...effects.thermalRings.map(ring => ({ label: ring.label, radiusKm: ring.radiusKm, ...CASUALTY_RATES.thermal[ring.label] }))
+    ];
+    const zones: ExposureZone[] = candidates
+        .filter(z => z.radiusKm > 0 && z.fatality !== undefined)
+        .map(({ label, radiusKm, fatality, injury }) => ({
+            label, radiusKm, fatalityRate: fatality, injuryRate: injury, population: 0, fatalities: 0, injuries: 0
+        }))
+        .sort((a, b) => (b.fatalityRate - a.fatalityRate) || (b.injuryRate - a.injuryRate));
+
+    const radii = [...new Set(zones.map(z => z.radiusKm))].sort((a, b) => a - b);
+    let inside = 0;
+    radii.forEach(radius => {
+        const within = populationWithin(site.latitude, site.longitude, radius);
+        const worst = zones.find(z => z.radiusKm >= radius)!;
+        worst.population += within - inside;
+        inside = within;
+    });
+
+    zones.forEach(zone => {
+        zone.fatalities = zone.population * zone.fatalityRate;
+        zone.injuries = (zone.population - zone.fatalities) * zone.injuryRate;
+    });
+    return {
+        zones,
+        population: inside,
+        fatalities: zones.reduce((sum, z) => sum + z.fatalities, 0),
+        injuries: zones.reduce((sum, z) => sum + z.injuries, 0)
+    };
+};
+
+// "1.2 M", "35 k", "120"
+export const formatPeople = (count: number): string => {
+    if (count >= 1e9) return `${(count / 1e9).toFixed(2)} B`;
+    if (count >= 1e6) return `${(count / 1e6).toFixed(1)} M`;
+    if (count >= 1e4) return `${(count / 1e3).toFixed(0)} k`;
+    return Math.round(count).toLocaleString();
+};
@@ -0,0 +1,57 @@
+import { ImpactSite } from "../types";
+import { WORLD_LAND_RINGS } from "../data/worldLand";
+import { EARTH_RADIUS_KM } from "./encounter";
+
+// Target Densities
+const CRUST_DENSITY = 2500; // kg/m^3
+const WATER_DENSITY = 1000; // kg/m^3
+
+/**
+ * Even-odd ray cast against the bundled land outline.
+ */
+export const isLand = (latitude: number, longitude: number): boolean => {
+    let inside = false;
+    for (const ring of WORLD_LAND_RINGS) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [xi, yi] = ring[i];
+            const [xj, yj] = ring[j];
+            if ((yi > latitude) !== (yj > latitude) && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+                inside = !inside;
+            }
+        }
+    }
+    return inside;
+};
+
+export const locateImpact = (latitude: number, longitude: number): ImpactSite => {
+    const land = isLand(latitude, longitude);
+    return {
+        latitude,
+        longitude,
+        terrain: land ? 'land' : 'ocean',
+        targetDensity: land ? CRUST_DENSITY : WATER_DENSITY
+    };
+};
+
+/**
+ * Point `distanceKm` along the surface from a site on the given bearing
+ * (radians clockwise from north), as [lon, lat] with lon in [-180, 180).
+ */
+export const destinationPoint = (latitude: number, longitude: number, distanceKm: number, bearing: number): [number, number] => {
+    const lat1 = (latitude * Math.PI) / 180;
+    const lon1 = (longitude * Math.PI) / 180;
+    const delta = distanceKm / EARTH_RADIUS_KM;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(bearing));
+    const lon2 = lon1 + Math.atan2(
+        Math.sin(bearing) * Math.sin(delta) * Math.cos(lat1),
+        Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    const lonDeg = ((((lon2 * 180) / Math.PI) + 540) % 360) - 180;
+    return [lonDeg, (lat2 * 180) / Math.PI];
+};
+
+/**
+ * Points of a small circle of `radiusKm` around a site, as [lon, lat] pairs.
+ */
+export const geodesicCircle = (latitude: number, longitude: number, radiusKm: number, segments = 96): [number, number][] =>
+    Array.from({ length: segments + 1 }, (_, i) => destinationPoint(latitude, longitude, radiusKm, (2 * Math.PI * i) / segments));
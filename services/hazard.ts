@@ -0,0 +1,76 @@
+import { EncounterGeometry, HazardAssessment, Quantity } from "../types";
+import { TORINO_LEVELS } from "../constants";
+import { timeToEncounter } from "./encounter";
+import { div, inUnit, log10, mul, pow, quantity, scalar } from "./units";
+
+// Torino chart boundaries (Binzel 2000). The diagonal edges of the "normal"
+// and "attention" zones are approximated as lines of constant P * E.
+const BURN_UP_ENERGY = 1;         // Mt; smaller bodies rate 0 whatever the probability
+const REGIONAL_ENERGY = 100;      // Mt
+const GLOBAL_ENERGY = 1e5;        // Mt
+const CLOSE_PROBABILITY = 0.01;
+const SERIOUS_PROBABILITY = 0.1;
+const CERTAIN_PROBABILITY = 0.99;
+const NORMAL_EXPECTED_ENERGY = 1e-3;  // Mt
+const ATTENTION_EXPECTED_ENERGY = 1;  // Mt
+
+// The Palermo scale diverges as the warning time goes to zero
+const MIN_WARNING_TIME = 60; // s
+
+/**
+ * Annual frequency of impacts at least as energetic as `energyMt`,
+ * f_B = 0.03 E^-0.8 per year (Chesley et al. 2002).
+ */
+export const backgroundFrequency = (energyMt: number): Quantity =>
+  mul(quantity(0.03, 'yr⁻¹'), pow(div(quantity(energyMt, 'Mt'), quantity(1, 'Mt')), -0.8));
+
+/**
+ * Torino level 0-10 for an impact `probability` (0-1) and energy.
+ */
+export const torinoScale = (probability: number, energyMt: number): number => {
+  if (probability <= 0 || energyMt < BURN_UP_ENERGY) return 0;
+  const size = energyMt < REGIONAL_ENERGY ? 0 : energyMt < GLOBAL_ENERGY ? 1 : 2;
+  if (probability >= CERTAIN_PROBABILITY) return 8 + size;
+  if (probability >= CLOSE_PROBABILITY) {
+    if (size === 0) return 3;
+    const serious = probability >= SERIOUS_PROBABILITY;
+    return size === 1 ? (serious ? 5 : 4) : (serious ? 7 : 6);
+  }
+  const expected = probability * energyMt;
+  return expected >= ATTENTION_EXPECTED_ENERGY ? 2 : expected >= NORMAL_EXPECTED_ENERGY ? 1 : 0;
+};
+
+/**
+ * Palermo scale, PS = log10(P / (f_B * ΔT)): the event's probability against
+ * the background chance of a comparable impact before it happens.
+ */
+export const palermoScale = (probability: number, frequencyQ: Quantity, warningQ: Quantity): Quantity =>
+  log10(div(scalar(probability), mul(frequencyQ, warningQ)));
+
+export const warningTime = (timeToImpact: number): Quantity => quantity(Math.max(timeToImpact, MIN_WARNING_TIME), 's');
+
+export const torinoLevel = (torino: number) => TORINO_LEVELS[Math.max(0, Math.min(10, Math.round(torino)))];
+
+export const assessHazard = (encounter: EncounterGeometry, energyMt: number): HazardAssessment => {
+  const probability = encounter.impactProbability / 100;
+  const timeToImpact = timeToEncounter(encounter);
+  const frequencyQ = backgroundFrequency(energyMt);
+  return {
+    timeToImpact,
+    backgroundFrequency: inUnit(frequencyQ, 'yr⁻¹'),
+    torino: torinoScale(probability, energyMt),
+    palermo: probability > 0 && timeToImpact !== null ? inUnit(palermoScale(probability, frequencyQ, warningTime(timeToImpact)), '') : null
+  };
+};
+
+// "42 min", "7.5 h", "12.3 d", "4.1 yr"
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 3600) return `${(seconds / 60).toFixed(0)} min`;
+  if (seconds < 2 * 86400) return `${(seconds / 3600).toFixed(1)} h`;
+  if (seconds < 365.25 * 86400) return `${(seconds / 86400).toFixed(1)} d`;
+  return `${(seconds / (365.25 * 86400)).toFixed(1)} yr`;
+};
+
+// A time to encounter, or "Not reached" when the flyby never passes the starting distance
+export const formatTimeToEncounter = (seconds: number | null): string =>
+  seconds === null ? 'Not reached' : formatDuration(seconds);
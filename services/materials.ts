@@ -0,0 +1,38 @@
+import { Material } from "../types";
+import { BUILT_IN_MATERIALS } from "../constants";
+
+/**
+ * Registry of every material the engine can evaluate: the built-in presets
+ * plus custom bodies loaded from storage or opened from a link. The engine
+ * looks materials up here by `AsteroidInput.type`.
+ */
+const registry = new Map<string, Material>(BUILT_IN_MATERIALS.map(material => [material.id, material]));
+
+export const getMaterial = (id: string): Material | undefined => registry.get(id);
+
+export const requireMaterial = (id: string): Material => {
+  const material = registry.get(id);
+  if (!material) throw new Error(`Unknown material "${id}".`);
+  return material;
+};
+
+export const listMaterials = (): Material[] => [...registry.values()];
+
+export const materialName = (id: string): string => registry.get(id)?.name ?? id;
+
+export const bulkDensity = (material: Material): number => material.grainDensity * (1 - material.porosity);
+
+/**
+ * Make a custom material available to the engine for this session.
+ */
+export const registerMaterial = (material: Material): void => {
+  if (registry.get(material.id)?.builtIn || material.builtIn) {
+    throw new Error(`Built-in material "${material.name}" cannot be replaced.`);
+  }
+  registry.set(material.id, material);
+};
+
+export const unregisterMaterial = (id: string): void => {
+  if (registry.get(id)?.builtIn) throw new Error('Built-in materials cannot be deleted.');
+  registry.delete(id);
+};
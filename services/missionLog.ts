@@ -0,0 +1,177 @@
+import { HistoryItem, HistoryQuery, Material } from "../types";
+import { DEFAULT_INPUT } from "../constants";
+import { computeAnalysis } from "./analysis";
+import { generateMarkdown } from "./report";
+import { getMaterial, registerMaterial, unregisterMaterial } from "./materials";
+
+const DB_NAME = 'cosmic-impact';
+const STORE = 'missions';
+const MATERIAL_STORE = 'materials';
+
+// Bump whenever AnalysisResult gains or changes fields; older records are re-analysed on load.
+export const RECORD_SCHEMA_VERSION = 9;
+
+/**
+ * Schema migrations, applied in order during `onupgradeneeded`. Entry i
+ * upgrades a database at version i to version i + 1; append, never edit.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: mission store keyed by id
+  (db) => {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  },
+  // v2: user-defined materials keyed by id
+  (db) => {
+    db.createObjectStore(MATERIAL_STORE, { keyPath: 'id' });
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const tx = req.transaction!;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await request(fn(tx.objectStore(storeName)));
+  await committed;
+  return result;
+};
+
+/**
+ * Records outlive the code that wrote them: backfill any input fields added
+ * since, and re-derive results written under an older record schema from
+ * their stored input. Ensembles are kept as-is rather than re-sampled.
+ * Records whose custom material has been deleted keep their stored result.
+ */
+const normalizeItem = (raw: HistoryItem): HistoryItem => {
+  const input = { ...DEFAULT_INPUT, ...raw.input };
+  const stale = (raw.schemaVersion ?? 0) < RECORD_SCHEMA_VERSION && !!getMaterial(input.type);
+  const label = raw.label || input.name || 'Untitled';
+  let result = raw.result;
+  if (stale) {
+    result = { ...computeAnalysis(input), ensemble: raw.result?.ensemble, timestamp: raw.result?.timestamp ?? Date.now() };
+    result.rawMarkdown = generateMarkdown({ label, input, uncertainty: raw.uncertainty, result });
+  }
+  return {
+    ...raw,
+    schemaVersion: stale ? RECORD_SCHEMA_VERSION : raw.schemaVersion,
+    input,
+    label,
+    pinned: !!raw.pinned,
+    createdAt: raw.createdAt ?? raw.result?.timestamp ?? Date.now(),
+    result
+  };
+};
+
+export const createHistoryId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const stored = await withStore<HistoryItem[]>('readonly', store => store.getAll());
+  const items = stored.map(normalizeItem);
+  // Write re-analysed records back, so each is migrated once rather than on every load
+  const migrated = items.filter((item, i) => item.schemaVersion !== stored[i].schemaVersion);
+  if (migrated.length > 0) {
+    await Promise.all(migrated.map(saveHistoryItem)).catch(err => console.error('Mission log migration save failed', err));
+  }
+  return items;
+};
+
+export const saveHistoryItem = async (item: HistoryItem): Promise<void> => {
+  await withStore('readwrite', store => store.put(item));
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const createMaterialId = (): string => `custom-${createHistoryId()}`;
+
+/**
+ * Load saved custom materials into the registry. Call before loadHistory so
+ * records that use them can be re-analysed.
+ */
+export const loadCustomMaterials = async (): Promise<Material[]> => {
+  const materials = await withStore<Material[]>('readonly', store => store.getAll(), MATERIAL_STORE);
+  materials.forEach(material => registerMaterial({ ...material, builtIn: false }));
+  return materials;
+};
+
+export const saveCustomMaterial = async (material: Material): Promise<void> => {
+  registerMaterial(material);
+  await withStore('readwrite', store => store.put(material), MATERIAL_STORE);
+};
+
+export const deleteCustomMaterial = async (id: string): Promise<void> => {
+  unregisterMaterial(id);
+  await withStore('readwrite', store => store.delete(id), MATERIAL_STORE);
+};
+
+/**
+ * Search, filter and sort the log. Pinned missions always float to the top.
+ */
+export const queryHistory = (items: HistoryItem[], query: HistoryQuery): HistoryItem[] => {
+  const text = query.text.trim().toLowerCase();
+  const filtered = items.filter(item => {
+    if (query.outcome === 'hit' && !item.result.isHit) return false;
+    if (query.outcome === 'miss' && item.result.isHit) return false;
+    if (query.type !== 'all' && item.input.type !== query.type) return false;
+    const energy = item.result.kineticEnergyMegatons;
+    if (query.minEnergy !== null && energy < query.minEnergy) return false;
+    if (query.maxEnergy !== null && energy > query.maxEnergy) return false;
+    if (text) {
+      const haystack = [item.label, item.input.name, item.input.type, item.result.analysisSummary].join(' ').toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  });
+
+  const compare: Record<HistoryQuery['sort'], (a: HistoryItem, b: HistoryItem) => number> = {
+    newest: (a, b) => b.createdAt - a.createdAt,
+    oldest: (a, b) => a.createdAt - b.createdAt,
+    energy: (a, b) => b.result.kineticEnergyMegatons - a.result.kineticEnergyMegatons,
+    probability: (a, b) => b.result.impactProbability - a.result.impactProbability,
+    name: (a, b) => a.label.localeCompare(b.label)
+  };
+
+  return filtered.sort((a, b) => Number(b.pinned) - Number(a.pinned) || compare[query.sort](a, b));
+};
@@ -0,0 +1,334 @@
+import { AsteroidInput, AsteroidType, NeoRecord, NeoSource } from "../types";
+import { EARTH_ESCAPE_VELOCITY, EARTH_MU, impactParameterFromPerigee } from "./encounter";
+import { parseCsv } from "./csv";
+
+const AU_KM = 149597870.7;
+const LD_KM = 384400;
+const EARTH_ORBITAL_SPEED = 29.78; // km/s, unit of the Öpik encounter speed
+
+// Geometric albedo assumed when a catalog gives H but no albedo
+const DEFAULT_ALBEDO = 0.14;
+const ALBEDO_BY_TYPE: Record<AsteroidType, number> = {
+  [AsteroidType.STONY]: 0.25,
+  [AsteroidType.METALLIC]: 0.15,
+  [AsteroidType.ICY]: 0.04,
+  [AsteroidType.CARBONACEOUS]: 0.06
+};
+
+/**
+ * Catalog-neutral view of one object. Each format is mapped onto this first,
+ * then converted to form fields in one place.
+ */
+interface CatalogRow {
+  name: string;
+  h: number | null;
+  diameterKm: number | null;
+  albedo: number | null;
+  spectralClass: string | null;
+  isComet: boolean;
+  vInfinity: number | null; // km/s
+  vRelative: number | null; // km/s at close approach
+  distanceKm: number | null; // nominal close approach, from Earth's centre
+  distanceMinKm: number | null; // 3-sigma bounds
+  distanceMaxKm: number | null;
+  date: string | null;
+}
+
+const emptyRow = (name: string): CatalogRow => ({
+  name, h: null, diameterKm: null, albedo: null, spectralClass: null, isComet: false,
+  vInfinity: null, vRelative: null, distanceKm: null, distanceMinKm: null, distanceMaxKm: null, date: null
+});
+
+const num = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Diameter from absolute magnitude: D(km) = 1329 / sqrt(p) · 10^(-H/5).
+ */
+export const diameterFromMagnitude = (h: number, albedo: number): number =>
+  (1329 / Math.sqrt(albedo)) * Math.pow(10, -h / 5);
+
+/**
+ * Map a Tholen or SMASS spectral class onto the engine's composition types.
+ */
+export const typeFromSpectralClass = (spectralClass: string | null, isComet = false): AsteroidType => {
+  if (isComet) return AsteroidType.ICY;
+  const cls = (spectralClass ?? '').trim().toUpperCase();
+  if (!cls) return AsteroidType.STONY;
+  if (/^(C|B|F|G|D|P|T)/.test(cls)) return AsteroidType.CARBONACEOUS;
+  if (/^(M|X)/.test(cls)) return AsteroidType.METALLIC;
+  return AsteroidType.STONY; // S, Q, V, A, R, K, L, O, E
+};
+
+/**
+ * Öpik encounter speed with Earth on a circular 1 AU orbit:
+ * U² = 3 - 1/a - 2·sqrt(a(1 - e²))·cos i, in units of Earth's orbital speed.
+ * Null when the orbit cannot reach 1 AU.
+ */
+export const encounterSpeedFromElements = (a: number, e: number, inclinationDeg: number): number | null => {
+  if (a <= 0 || e < 0 || e >= 1) return null;
+  if (a * (1 - e) > 1 || a * (1 + e) < 1) return null;
+  const u2 = 3 - 1 / a - 2 * Math.sqrt(a * (1 - e * e)) * Math.cos((inclinationDeg * Math.PI) / 180);
+  return u2 > 0 ? Math.sqrt(u2) * EARTH_ORBITAL_SPEED : null;
+};
+
+function toRecord(row: CatalogRow, source: NeoSource, index: number): NeoRecord {
+  const type = typeFromSpectralClass(row.spectralClass, row.isComet);
+  const fields: Partial<AsteroidInput> = { name: row.name, type };
+
+  const albedo = row.albedo ?? (row.spectralClass || row.isComet ? ALBEDO_BY_TYPE[type] : DEFAULT_ALBEDO);
+  const diameterFromH = row.diameterKm === null && row.h !== null;
+  const diameterKm = row.diameterKm ?? (row.h !== null ? diameterFromMagnitude(row.h, albedo) : null);
+  if (diameterKm !== null && diameterKm > 0) fields.diameter = parseFloat((diameterKm * 1000).toPrecision(4));
+
+  // Relative speed at close approach still includes Earth's pull: v∞² = v² - 2μ/r
+  let vInfinity = row.vInfinity;
+  if (vInfinity === null && row.vRelative !== null) {
+    const range = row.distanceKm ?? Infinity;
+    vInfinity = Math.sqrt(Math.max(0, row.vRelative * row.vRelative - (2 * EARTH_MU) / range));
+  }
+  if (vInfinity !== null) {
+    fields.velocity = parseFloat(Math.sqrt(vInfinity * vInfinity + EARTH_ESCAPE_VELOCITY * EARTH_ESCAPE_VELOCITY).toFixed(2));
+  }
+
+  // The close-approach distance is the perigee of the flyby hyperbola
+  if (row.distanceKm !== null && vInfinity !== null) {
+    fields.distance = Math.round(row.distanceKm);
+    fields.impactParameter = Math.round(impactParameterFromPerigee(row.distanceKm, vInfinity));
+    if (row.distanceMinKm !== null && row.distanceMaxKm !== null) {
+      const spread = impactParameterFromPerigee(row.distanceMaxKm, vInfinity) - impactParameterFromPerigee(row.distanceMinKm, vInfinity);
+      fields.impactParameterSigma = Math.round(Math.abs(spread) / 6);
+    }
+  }
+
+  return {
+    id: `${source}-${index}-${row.name}`,
+    name: row.name,
+    source,
+    fields,
+    absoluteMagnitude: row.h,
+    albedo,
+    diameterFromH,
+    spectralClass: row.spectralClass,
+    vInfinity,
+    closeApproachDate: row.date
+  };
+}
+
+// --- CSV -------------------------------------------------------------------
+
+// "3.21 | 0.00825" (LD | au) or a bare au value
+function csvDistanceKm(value: string | undefined, header: string): number | null {
+  if (!value) return null;
+  const parts = value.split('|').map(num);
+  if (parts.length === 2 && parts[1] !== null) return parts[1] * AU_KM;
+  if (parts[0] === null) return null;
+  return /\bld\b/i.test(header) && !/au/i.test(header) ? parts[0] * LD_KM : parts[0] * AU_KM;
+}
+
+// "22 m -  49 m", "110 m ±  20 m", "0.31±0.09 km": nominal or midpoint, in km
+function csvDiameterKm(value: string | undefined, header: string): number | null {
+  if (!value) return null;
+  const numbers = (value.match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+  if (numbers.length === 0) return null;
+  const nominal = /±/.test(value) || numbers.length === 1 ? numbers[0] : (numbers[0] + numbers[1]) / 2;
+  const inMeters = /\bm\b/.test(value) || (/\(m\)/i.test(header) && !/km/.test(value));
+  return inMeters ? nominal / 1000 : nominal;
+}
+
+function fromCsv(text: string): NeoRecord[] {
+  const [header, ...body] = parseCsv(text);
+  if (!header || body.length === 0) return [];
+  const find = (...patterns: RegExp[]) => header.findIndex(h => patterns.every(p => p.test(h)));
+
+  const isSentry = find(/impact probability/i) >= 0 || find(/palermo/i) >= 0;
+  const col = {
+    name: Math.max(find(/object|designation|full.?name|^des$/i), 0),
+    h: find(/^h\b|\bh \(mag\)|magnitude/i),
+    diameter: find(/diameter/i),
+    albedo: find(/albedo/i),
+    spec: find(/spec|taxonomy/i),
+    vInf: find(/v.?inf/i),
+    vRel: find(/v.?rel/i),
+    dist: find(/dist/i, /nominal/i) >= 0 ? find(/dist/i, /nominal/i) : find(/^dist$|ca distance|^distance/i),
+    distMin: find(/dist/i, /min/i),
+    distMax: find(/dist/i, /max/i),
+    date: find(/date|^cd$/i)
+  };
+  const at = (cells: string[], i: number) => (i >= 0 ? cells[i] : undefined);
+
+  return body.map((cells, index) => {
+    const row = emptyRow(at(cells, col.name) || `Object ${index + 1}`);
+    row.h = num(at(cells, col.h));
+    row.diameterKm = csvDiameterKm(at(cells, col.diameter), col.diameter >= 0 ? header[col.diameter] : '');
+    row.albedo = num(at(cells, col.albedo));
+    row.spectralClass = at(cells, col.spec) || null;
+    row.vInfinity = num(at(cells, col.vInf));
+    row.vRelative = num(at(cells, col.vRel));
+    if (!isSentry) {
+      row.distanceKm = csvDistanceKm(at(cells, col.dist), col.dist >= 0 ? header[col.dist] : '');
+      row.distanceMinKm = csvDistanceKm(at(cells, col.distMin), col.distMin >= 0 ? header[col.distMin] : '');
+      row.distanceMaxKm = csvDistanceKm(at(cells, col.distMax), col.distMax >= 0 ? header[col.distMax] : '');
+    }
+    row.date = at(cells, col.date) || null;
+    row.isComet = /^[CP]\/|^\d+P\b/.test(row.name);
+    return toRecord(row, isSentry ? 'sentry' : 'cneos', index);
+  });
+}
+
+// --- JSON APIs ---------------------------------------------------------------
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The objects in a JSON array; anything else, including a non-array, gives none
+const objects = (value: unknown): JsonObject[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+const text = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+// CNEOS close-approach API: { fields: [...], data: [[...], ...] }, distances in au
+function fromCloseApproachApi(fields: unknown[], data: unknown[]): NeoRecord[] {
+  return data.map((values, index) => {
+    const r: JsonObject = Array.isArray(values) ? Object.fromEntries(fields.map((f, i) => [String(f), values[i]])) : {};
+    const row = emptyRow(String(r.fullname ?? r.des ?? `Object ${index + 1}`).trim());
+    row.h = num(r.h);
+    row.diameterKm = num(r.diameter);
+    row.albedo = num(r.albedo);
+    row.vInfinity = num(r.v_inf);
+    row.vRelative = num(r.v_rel);
+    const au = (v: unknown) => { const n = num(v); return n === null ? null : n * AU_KM; };
+    row.distanceKm = au(r.dist);
+    row.distanceMinKm = au(r.dist_min);
+    row.distanceMaxKm = au(r.dist_max);
+    row.date = text(r.cd);
+    return toRecord(row, 'cneos', index);
+  });
+}
+
+// Sentry API: summary list { data: [...] } or object mode { summary: {...} }
+function fromSentryApi(json: JsonObject): NeoRecord[] {
+  const entries = isObject(json.summary) ? [json.summary] : objects(json.data);
+  return entries.map((r, index) => {
+    const row = emptyRow(String(r.fullname ?? r.des ?? `Object ${index + 1}`).trim());
+    row.h = num(r.h ?? r.H);
+    row.diameterKm = num(r.diameter);
+    row.vInfinity = num(r.v_inf);
+    row.date = text(r.range);
+    return toRecord(row, 'sentry', index);
+  });
+}
+
+// SBDB API: { object, orbit: { elements: [...] }, phys_par: [...], ca_data?: [...] }
+function fromSbdb(json: JsonObject, index: number): NeoRecord {
+  const phys = new Map(objects(json.phys_par).map(p => [String(p.name), p.value]));
+  const object = isObject(json.object) ? json.object : {};
+  const row = emptyRow(String(object.fullname ?? object.des ?? 'SBDB object').trim());
+  row.h = num(phys.get('H'));
+  row.diameterKm = num(phys.get('diameter'));
+  row.albedo = num(phys.get('albedo'));
+  row.spectralClass = text(phys.get('spec_B') ?? phys.get('spec_T'));
+  row.isComet = String(object.kind ?? '').startsWith('c');
+
+  // Closest listed Earth approach, if the export included close-approach data
+  const approaches = objects(json.ca_data).filter(ca => !ca.body || ca.body === 'Earth');
+  const closest = approaches.sort((a, b) => (num(a.dist) ?? Infinity) - (num(b.dist) ?? Infinity))[0];
+  if (closest) {
+    const au = (v: unknown) => { const n = num(v); return n === null ? null : n * AU_KM; };
+    row.vInfinity = num(closest.v_inf);
+    row.vRelative = num(closest.v_rel);
+    row.distanceKm = au(closest.dist);
+    row.distanceMinKm = au(closest.dist_min);
+    row.distanceMaxKm = au(closest.dist_max);
+    row.date = text(closest.cd);
+  }
+  if (row.vInfinity === null && row.vRelative === null) {
+    const orbit = isObject(json.orbit) ? json.orbit : {};
+    const elements = new Map(objects(orbit.elements).map(el => [String(el.name), el.value]));
+    const [a, e, i] = [num(elements.get('a')), num(elements.get('e')), num(elements.get('i'))];
+    if (a !== null && e !== null && i !== null) row.vInfinity = encounterSpeedFromElements(a, e, i);
+  }
+  return toRecord(row, 'sbdb', index);
+}
+
+// MPC extended JSON (mpcorb_extended.json): array of element records
+function fromMpcJson(entries: JsonObject[]): NeoRecord[] {
+  return entries.map((r, index) => {
+    const name = [r.Number, r.Name].filter(Boolean).join(' ') || r.Principal_desig || `Object ${index + 1}`;
+    const row = emptyRow(String(name).trim());
+    row.h = num(r.H);
+    const [a, e, i] = [num(r.a), num(r.e), num(r.i)];
+    if (a !== null && e !== null && i !== null) row.vInfinity = encounterSpeedFromElements(a, e, i);
+    return toRecord(row, 'mpc', index);
+  });
+}
+
+// --- MPC fixed-width ---------------------------------------------------------
+
+/**
+ * MPCORB.DAT one-line orbits (1-based columns): H 9-13, i 60-68, e 71-79,
+ * a 93-103, readable designation 167-194. Header text before the dashed
+ * separator is skipped.
+ */
+function fromMpcOrb(text: string): NeoRecord[] {
+  let lines = text.split(/\r?\n/);
+  const separator = lines.findIndex(line => /^-{10,}/.test(line));
+  if (separator >= 0) lines = lines.slice(separator + 1);
+
+  return lines
+    .filter(line => line.length >= 103)
+    .map((line, index) => {
+      const name = line.slice(166, 194).trim() || line.slice(0, 7).trim();
+      const row = emptyRow(name);
+      row.h = num(line.slice(8, 13).trim());
+      const [a, e, i] = [num(line.slice(92, 103)), num(line.slice(70, 79)), num(line.slice(59, 68))];
+      if (a !== null && e !== null && i !== null) row.vInfinity = encounterSpeedFromElements(a, e, i);
+      return toRecord(row, 'mpc', index);
+    });
+}
+
+/**
+ * Parse an offline catalog export. Recognises CNEOS close-approach and Sentry
+ * CSV/JSON, SBDB JSON, MPC extended JSON and MPCORB.DAT records. Throws when
+ * the format is not recognised or no objects are found.
+ */
+export const parseNeoCatalog = (text: string): NeoRecord[] => {
+  const trimmed = text.trim();
+  let records: NeoRecord[] | null = null;
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('File looks like JSON but could not be parsed.');
+    }
+    if (Array.isArray(json)) {
+      const first: unknown = json[0];
+      if (isObject(first) && (first.object || first.phys_par)) records = objects(json).map(fromSbdb);
+      else if (isObject(first) && ('H' in first || 'Principal_desig' in first)) records = fromMpcJson(objects(json));
+    } else if (isObject(json)) {
+      const first: unknown = Array.isArray(json.data) ? json.data[0] : undefined;
+      if (Array.isArray(json.fields) && Array.isArray(json.data)) {
+        records = fromCloseApproachApi(json.fields, json.data);
+      } else if (json.summary || (isObject(first) && ('ip' in first || 'ps_cum' in first))) {
+        records = fromSentryApi(json);
+      } else if (json.object || json.phys_par) {
+        records = [fromSbdb(json, 0)];
+      }
+    }
+  } else if (/^-{10,}\s*$/m.test(text) || !/^[^\n]*,/.test(trimmed)) {
+    records = fromMpcOrb(text);
+  } else {
+    records = fromCsv(trimmed);
+  }
+
+  if (records === null) throw new Error('Unrecognised catalog format. Expected a CNEOS, Sentry, SBDB or MPC export.');
+  if (records.length === 0) throw new Error('No objects found in the file.');
+  return records;
+};
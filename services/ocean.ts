@@ -0,0 +1,67 @@
+import { OceanImpact } from "../types";
+import { transientCraterDiameter } from "./crater";
+
+// Ocean-impact scaling follows Collins, Melosh & Marcus (2005) and Ward & Asphaug (2000).
+const WATER_DENSITY = 1000;  // kg/m^3
+export const SEAFLOOR_DENSITY = 2500; // kg/m^3
+const WAVE_DISTANCES_KM = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+
+interface OceanParams {
+  impactorDiameter: number; // m, surviving equivalent diameter
+  impactorDensity: number;  // kg/m^3
+  velocity: number;         // km/s at the water surface
+  entryAngle: number;       // degrees from horizontal
+  waterDepth: number;       // m
+}
+
+/**
+ * Water-target branch: transient cavity in the water column, deceleration
+ * through it to the seafloor, and the rim and collapse waves that follow.
+ */
+export const computeOceanImpact = (params: OceanParams): OceanImpact => {
+  const L = params.impactorDiameter;
+  const H = Math.max(0, params.waterDepth);
+  const v = params.velocity * 1000;
+  const sinTheta = Math.sin((params.entryAngle * Math.PI) / 180);
+
+  // Transient cavity: same scaling law with water as the target; depth = D / 2√2
+  const cavityDiameter = transientCraterDiameter(params.impactorDensity, WATER_DENSITY, L, v, params.entryAngle);
+  const cavityDepth = cavityDiameter / (2 * Math.SQRT2);
+
+  // Drag through the water column: v_sf = v * exp(-3 ρ_w H / (2 ρ_i L sinθ))
+  const seafloorVelocity = L > 0 ? v * Math.exp((-3 * WATER_DENSITY * H) / (2 * params.impactorDensity * L * sinTheta)) : 0;
+  const seafloorCrater = cavityDepth > H && seafloorVelocity > 0;
+  const seafloorCraterDiameter = seafloorCrater
+    ? transientCraterDiameter(params.impactorDensity, SEAFLOOR_DENSITY, L, seafloorVelocity, params.entryAngle)
+    : 0;
+
+  // Rim wave: A = D/14.1 at r = 0.75 D, decaying as 1/r
+  const rimWaveAmplitude = Math.min(cavityDiameter / 14.1, H);
+  const rimWaveRadius = 0.75 * cavityDiameter;
+  // Collapse wave: A = 0.06 min(d, H) at r = 2.5 D, decaying as r^-q with q = 3 exp(-0.8 L / H)
+  const collapseWaveAmplitude = 0.06 * Math.min(cavityDepth, H);
+  const collapseWaveRadius = 2.5 * cavityDiameter;
+  const decayExponent = H > 0 ? 3 * Math.exp((-0.8 * L) / H) : 1;
+
+  const amplitudeAt = (r: number): number => {
+    const rim = r > rimWaveRadius ? rimWaveAmplitude * (rimWaveRadius / r) : rimWaveAmplitude;
+    const collapse = r > collapseWaveRadius ? collapseWaveAmplitude * Math.pow(collapseWaveRadius / r, decayExponent) : collapseWaveAmplitude;
+    return Math.max(rim, collapse);
+  };
+
+  return {
+    waterDepth: H,
+    cavityDiameter,
+    cavityDepth,
+    seafloorVelocity: seafloorVelocity / 1000,
+    seafloorCrater,
+    seafloorCraterDiameter,
+    rimWaveAmplitude,
+    collapseWaveAmplitude,
+    decayExponent,
+    waveHeights: WAVE_DISTANCES_KM.map(distanceKm => ({
+      distanceKm,
+      amplitudeMeters: cavityDiameter > 0 ? amplitudeAt(distanceKm * 1000) : 0
+    }))
+  };
+};
@@ -0,0 +1,210 @@
+import { AsteroidInput, AsteroidType, CompositionElement, InputDistribution, Material, NumericInputField, ScenarioState, UncertaintyOptions } from "../types";
+import { COLORS, FIELD_LABELS, NUMERIC_FIELDS, UNCERTAIN_FIELDS } from "../constants";
+import { validateInput, validateMaterial } from "./validation";
+import { getMaterial, registerMaterial } from "./materials";
+
+/**
+ * Hash format, v1:
+ *   #v=1&n=<name>&t=<type>&d=50&vel=17&...            every input, always
+ *   &mc=<samples>_<seed>&u.d=ln_2&u.vel=n_1.5&u.b=u_10_20   Monte Carlo, optional
+ *   &m.n=<name>&m.rho=3000&m.phi=0.4&m.y=1000&m.c=Silicates:75,...   custom material, when t is not a preset
+ *   &s=e_535_294_209                                   ellipsoid axes in m, optional
+ *   &ep=2029-04-13T18:00:00.000Z                       epoch, optional
+ * Uploaded shape models are too large for a URL and are left out; the link
+ * then opens the sphere of the same volume, which gives the same results.
+ * Every field is written even when it matches a default, so a link keeps its
+ * meaning if the defaults change. Breaking changes bump PERMALINK_VERSION.
+ */
+export const PERMALINK_VERSION = 1;
+
+const MAX_SAMPLES = 10000;
+
+const FIELD_KEYS: Record<NumericInputField, string> = {
+  diameter: 'd',
+  velocity: 'vel',
+  distance: 'dist',
+  impactParameter: 'b',
+  impactParameterSigma: 'sb',
+  entryAngle: 'ang',
+  latitude: 'lat',
+  longitude: 'lon',
+  waterDepth: 'wd'
+};
+
+const TYPE_KEYS: Record<AsteroidType, string> = {
+  [AsteroidType.STONY]: 'stony',
+  [AsteroidType.METALLIC]: 'metallic',
+  [AsteroidType.ICY]: 'icy',
+  [AsteroidType.CARBONACEOUS]: 'carbonaceous'
+};
+
+// Short enough to keep links readable, long enough to round-trip form values
+const compact = (value: number): string => String(parseFloat(value.toPrecision(10)));
+
+function encodeDistribution(dist: InputDistribution): string {
+  switch (dist.kind) {
+    case 'normal':
+      return `n_${compact(dist.sigma)}`;
+    case 'lognormal':
+      return `ln_${compact(dist.factor)}`;
+    case 'uniform':
+      return `u_${compact(dist.min)}_${compact(dist.max)}`;
+  }
+}
+
+const isPreset = (type: string): type is AsteroidType => type in TYPE_KEYS;
+
+// Element names are escaped so they may contain the separators
+const encodeComposition = (composition: CompositionElement[]): string =>
+  composition.map(c => `${encodeURIComponent(c.element)}:${compact(c.percentage)}`).join(',');
+
+const decodeElement = (raw: string): string => {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    throw new Error(`Material composition has a malformed element name: "${raw}".`);
+  }
+};
+
+function decodeComposition(raw: string): CompositionElement[] {
+  return raw.split(',').map((part, i) => {
+    const [element, percentage] = part.split(':');
+    if (percentage === undefined) throw new Error(`Material composition is malformed: "${raw}".`);
+    return { element: decodeElement(element), percentage: parseNumber(percentage, 'Material composition'), fill: COLORS[i % COLORS.length] };
+  });
+}
+
+export const encodeScenario = ({ input, uncertainty }: ScenarioState): string => {
+  const params = new URLSearchParams();
+  params.set('v', String(PERMALINK_VERSION));
+  params.set('n', input.name);
+  params.set('t', isPreset(input.type) ? TYPE_KEYS[input.type] : input.type);
+  NUMERIC_FIELDS.forEach(field => params.set(FIELD_KEYS[field], compact(input[field])));
+
+  const material = isPreset(input.type) ? undefined : getMaterial(input.type);
+  if (material) {
+    params.set('m.n', material.name);
+    params.set('m.rho', compact(material.grainDensity));
+    params.set('m.phi', compact(material.porosity));
+    params.set('m.y', compact(material.strength));
+    params.set('m.c', encodeComposition(material.composition));
+  }
+
+  if (input.shape?.kind === 'ellipsoid') {
+    const { a, b, c } = input.shape;
+    params.set('s', `e_${[a, b, c].map(compact).join('_')}`);
+  }
+
+  if (input.epoch) params.set('ep', input.epoch);
+
+  if (uncertainty) {
+    params.set('mc', `${uncertainty.samples}_${uncertainty.seed}`);
+    UNCERTAIN_FIELDS.forEach(field => {
+      const dist = uncertainty.distributions[field];
+      if (dist) params.set(`u.${FIELD_KEYS[field]}`, encodeDistribution(dist));
+    });
+  }
+  return params.toString();
+};
+
+const parseNumber = (raw: string, what: string): number => {
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) throw new Error(`${what} is not a number: "${raw}".`);
+  return value;
+};
+
+function decodeDistribution(raw: string, field: NumericInputField): InputDistribution {
+  const label = `Uncertainty for ${FIELD_LABELS[field]}`;
+  const [kind, ...args] = raw.split('_');
+  const values = args.map(a => parseNumber(a, label));
+  if (kind === 'n' && values.length === 1) return { kind: 'normal', sigma: values[0] };
+  if (kind === 'ln' && values.length === 1) return { kind: 'lognormal', factor: values[0] };
+  if (kind === 'u' && values.length === 2) return { kind: 'uniform', min: values[0], max: values[1] };
+  throw new Error(`${label} is malformed: "${raw}".`);
+}
+
+/**
+ * Parse and validate a permalink hash (with or without the leading '#').
+ * Returns null for an empty hash; throws with a readable message when the
+ * link is malformed, from an unknown version or fails validation. A custom
+ * material in the link is registered for this session.
+ */
+export const decodeScenario = (hash: string): ScenarioState | null => {
+  const scenario = parseScenario(hash);
+  if (!scenario) return null;
+  if (scenario.material) {
+    const materialError = validateMaterial(scenario.material)[0];
+    if (materialError) throw new Error(`Material in link: ${materialError}`);
+    registerMaterial(scenario.material);
+  }
+  const firstError = validateInput(scenario.input, scenario.uncertainty).find(d => d.severity === 'error');
+  if (firstError) throw new Error(firstError.message);
+  return scenario;
+};
+
+function parseScenario(hash: string): ScenarioState | null {
+  const text = hash.replace(/^#/, '');
+  if (!text) return null;
+  const params = new URLSearchParams(text);
+
+  const version = params.get('v');
+  if (version === null) throw new Error('This link has no scenario version and cannot be read.');
+  if (version !== String(PERMALINK_VERSION)) {
+    throw new Error(`This link uses scenario format v${version}; this version of the app reads v${PERMALINK_VERSION}.`);
+  }
+
+  const name = params.get('n')?.trim();
+  if (!name) throw new Error('The link is missing the asteroid name.');
+
+  const typeKey = params.get('t') ?? '';
+  const preset = (Object.keys(TYPE_KEYS) as AsteroidType[]).find(t => TYPE_KEYS[t] === typeKey);
+  const material = preset ? undefined : parseMaterial(params, typeKey);
+
+  const input = { name, type: preset ?? typeKey } as AsteroidInput;
+  NUMERIC_FIELDS.forEach(field => {
+    const raw = params.get(FIELD_KEYS[field]);
+    if (raw === null) throw new Error(`The link is missing ${FIELD_LABELS[field]}.`);
+    input[field] = parseNumber(raw, FIELD_LABELS[field]);
+  });
+
+  const shape = params.get('s');
+  if (shape !== null) {
+    const [kind, ...axes] = shape.split('_');
+    if (kind !== 'e' || axes.length !== 3) throw new Error(`Body shape "${shape}" is malformed.`);
+    const [a, b, c] = axes.map(axis => parseNumber(axis, 'Ellipsoid axis'));
+    input.shape = { kind: 'ellipsoid', a, b, c };
+  }
+
+  const epoch = params.get('ep');
+  if (epoch !== null) input.epoch = epoch;
+
+  const mc = params.get('mc');
+  if (mc === null) return { input, material };
+
+  const [samples, seed] = mc.split('_').map(part => parseNumber(part, 'Monte Carlo settings'));
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES || !Number.isInteger(seed)) {
+    throw new Error(`Monte Carlo settings "${mc}" are invalid; expected 1 to ${MAX_SAMPLES} samples and an integer seed.`);
+  }
+  const uncertainty: UncertaintyOptions = { samples, seed, distributions: {} };
+  UNCERTAIN_FIELDS.forEach(field => {
+    const raw = params.get(`u.${FIELD_KEYS[field]}`);
+    if (raw !== null) uncertainty.distributions[field] = decodeDistribution(raw, field);
+  });
+  return { input, uncertainty, material };
+}
+
+function parseMaterial(params: URLSearchParams, id: string): Material {
+  const name = params.get('m.n');
+  if (!id || name === null) throw new Error(`Unknown composition type "${id}".`);
+  const number = (key: string, what: string) => parseNumber(params.get(key) ?? '', what);
+  return {
+    id,
+    name,
+    description: 'Shared by link',
+    grainDensity: number('m.rho', 'Material grain density'),
+    porosity: number('m.phi', 'Material porosity'),
+    strength: number('m.y', 'Material strength'),
+    composition: decodeComposition(params.get('m.c') ?? ''),
+    builtIn: false
+  };
+}
@@ -0,0 +1,77 @@
+import { AnalysisResult, MaterialLookup, ReferenceCheck, ReferenceDeflection, ReferenceDeflectionResult, ReferenceEvent, ReferenceEventResult, ReferenceMetric, ReferenceStatus } from "../types";
+import { REFERENCE_METRICS } from "../constants";
+import { REFERENCE_EVENTS } from "../data/referenceEvents";
+import { computeAnalysis } from "./analysis";
+import { planDeflection } from "./deflection";
+import { getMaterial } from "./materials";
+
+function modelValue(metric: ReferenceMetric, result: AnalysisResult | null, deflection: ReferenceDeflectionResult | null): number | null {
+  switch (metric) {
+    case 'energy': return result?.kineticEnergyMegatons ?? null;
+    case 'craterDiameter': return result?.craterSizeMeters ?? null;
+    case 'airburstAltitude': return result?.entry.airburstAltitude ?? null;
+    case 'dartDeltaV': return deflection?.deltaV ?? null;
+    case 'dartPeriodChange': return deflection?.periodChange ?? null;
+  }
+}
+
+/**
+ * Shortening of a circular binary orbit, in minutes, from an along-track Δv
+ * in mm/s: ΔP / P = 3 Δv / v.
+ */
+export const binaryPeriodChange = (deflection: ReferenceDeflection, deltaV: number): number => {
+  const orbitSpeed = (2 * Math.PI * deflection.orbitRadius * 1000) / (deflection.orbitPeriod * 3600); // m/s
+  return (3 * (deltaV / 1000) / orbitSpeed) * deflection.orbitPeriod * 60;
+};
+
+/**
+ * Run the deflection planner on a reference target, with the target's own
+ * material ahead of the session registry.
+ */
+export const evaluateReferenceDeflection = (deflection: ReferenceDeflection): ReferenceDeflectionResult => {
+  const materials: MaterialLookup = id => id === deflection.material.id ? deflection.material : getMaterial(id);
+  const plan = planDeflection(deflection.target, computeAnalysis(deflection.target, materials), deflection.options, materials);
+  const deltaV = plan.achievedDeltaV * 1000;
+  return { plan, deltaV, periodChange: binaryPeriodChange(deflection, deltaV) };
+};
+
+export const evaluateReferenceEvent = (event: ReferenceEvent): ReferenceEventResult => {
+  const result = event.input ? computeAnalysis(event.input) : null;
+  const deflection = event.deflection ? evaluateReferenceDeflection(event.deflection) : null;
+  return {
+    event,
+    result,
+    deflection,
+    checks: event.checks.map(check => {
+      const model = modelValue(check.metric, result, deflection);
+      const status: ReferenceStatus = model !== null && model >= check.min && model <= check.max ? 'pass' : 'fail';
+      return { check, model, status };
+    })
+  };
+};
+
+/**
+ * Run the engine on every reference event. The suite passes when every check
+ * lands in its accepted range.
+ */
+export const runReferenceSuite = (events: ReferenceEvent[] = REFERENCE_EVENTS): ReferenceEventResult[] =>
+  events.map(evaluateReferenceEvent);
+
+export const referenceSuitePassed = (results: ReferenceEventResult[]): boolean =>
+  results.every(r => r.checks.every(c => c.status !== 'fail'));
+
+// Checks on the reconstruction's inputs, kept out of the model tally
+export const isInputCheck = (check: ReferenceCheck): boolean => REFERENCE_METRICS[check.metric].inputCheck === true;
+
+// "1.35e+5", "950", "29.7"
+export const formatReferenceValue = (value: number | null): string => {
+  if (value === null) return '—';
+  if (Math.abs(value) >= 1e5) return value.toExponential(2);
+  return parseFloat(value.toPrecision(3)).toLocaleString();
+};
+
+/**
+ * Observed craters in the reference set, for size comparisons.
+ */
+export const referenceCraters = (): { label: string; diameter: number }[] =>
+  REFERENCE_EVENTS.flatMap(event => event.crater ? [event.crater] : []);
@@ -0,0 +1,190 @@
+import { AnalysisReport, EncounterTimeline, HistoryItem, ReportSource, UnitDerivation } from "../types";
+import { FIELD_LABELS, NUMERIC_FIELDS, POPULATION_CAVEAT, TIMELINE_PHASES, TORINO_ZONES } from "../constants";
+import { materialName } from "./materials";
+import { shapeLabel } from "./shape";
+import { formatTimeToEncounter, torinoLevel } from "./hazard";
+import { formatPeople } from "./exposure";
+import { formatClock, formatOffset, formatTimestamp, timelineArrival } from "./timeline";
+import { toCsv } from "./csv";
+
+export const REPORT_FORMAT_VERSION = 1;
+
+// Dated when the scenario has an epoch, otherwise relative to it
+export const encounterTime = (timeline: EncounterTimeline): string => {
+  const arrival = timelineArrival(timeline);
+  if (!arrival) return 'Not reached';
+  return arrival.timestamp ? formatTimestamp(arrival.timestamp) : formatOffset(arrival.time);
+};
+
+const fmt = (value: number, digits = 2): string =>
+  Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3)
+    ? value.toExponential(digits)
+    : value.toLocaleString('en-US', { maximumFractionDigits: digits });
+
+// Keep table cells on one line and pipes from splitting columns
+const cell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const table = (header: string[], rows: string[][]): string =>
+  [header, header.map(() => '---'), ...rows].map(r => `| ${r.map(cell).join(' | ')} |`).join('\n');
+
+// The engine summary is an indented template literal; flush it left
+export const summaryText = (summary: string): string =>
+  summary.split('\n').map(line => line.trim()).join('\n').trim();
+
+// "kg · (m/s)² → M·L²·T⁻² → J"
+export const derivationText = ({ expression, dimension, unit }: UnitDerivation): string =>
+  `${expression} → ${dimension} → ${unit || 'dimensionless'}`;
+
+/**
+ * Full briefing report: outcome, inputs, effects, every dimensional step
+ * and the engine summary.
+ */
+export const generateMarkdown = ({ label, input, uncertainty, result }: ReportSource): string => {
+  const { entry, effects, site, ocean, ensemble, hazard, exposure, timeline } = result;
+  const out: string[] = [];
+
+  out.push(`# Cosmic Impact Report: ${label}`);
+  out.push(`_Generated ${new Date(result.timestamp).toISOString()} by the local physics engine._`);
+
+  out.push('## Summary', '```\n' + summaryText(result.analysisSummary) + '\n```');
+
+  out.push('## Outcome', table(['Metric', 'Value'], [
+    ['Trajectory', result.isHit ? 'Impact' : 'Miss'],
+    ['Impact probability', `${result.impactProbability}%`],
+    ['Kinetic energy', `${fmt(result.kineticEnergyMegatons)} MT`],
+    ['Time to encounter', formatTimeToEncounter(hazard.timeToImpact)],
+    [result.isHit ? 'Atmospheric entry time' : 'Closest approach time', encounterTime(timeline)],
+    ['Torino scale', `${hazard.torino} (${TORINO_ZONES[torinoLevel(hazard.torino).zone]})`],
+    ['Palermo scale', hazard.palermo === null ? 'Undefined' : hazard.palermo.toFixed(2)],
+    ['Atmospheric entry', entry.isAirburst
+      ? `Airburst at ${fmt(entry.airburstAltitude ?? 0, 1)} km, ${fmt(entry.airburstYieldMegatons)} MT`
+      : `Surface impact at ${fmt(entry.impactVelocity, 1)} km/s`],
+    ['Impact site', `${site.latitude.toFixed(2)}°N, ${site.longitude.toFixed(2)}°E (${site.terrain})`],
+    ['Crater diameter', result.craterSizeMeters > 0 ? `${fmt(result.craterSizeMeters, 0)} m` : 'None'],
+    ['Fireball radius', `${fmt(effects.fireballRadiusKm)} km`],
+    ['Seismic magnitude', effects.seismicMagnitude === null ? 'None' : `M ${effects.seismicMagnitude.toFixed(1)}`]
+  ]));
+
+  out.push('## Inputs', table(['Parameter', 'Value'], [
+    ['Name', input.name],
+    ['Composition', materialName(input.type)],
+    ['Shape', shapeLabel(input.shape)],
+    ['Epoch', result.timeline.epoch ? formatTimestamp(result.timeline.epoch) : 'Not set'],
+    ...NUMERIC_FIELDS.map(field => [FIELD_LABELS[field], fmt(input[field], 4)])
+  ]));
+
+  if (ensemble) {
+    const dists = Object.entries(uncertainty?.distributions ?? {})
+      .map(([field, d]) => `${FIELD_LABELS[field as keyof typeof FIELD_LABELS]}: ${JSON.stringify(d)}`);
+    out.push('## Uncertainty Ensemble');
+    out.push(`${ensemble.samples} samples, seed ${ensemble.seed}; ${(ensemble.hitFraction * 100).toFixed(1)}% of samples hit.`);
+    if (dists.length) out.push(dists.map(d => `- ${d}`).join('\n'));
+    out.push(table(['Metric', 'P5', 'P50', 'P95'], [
+      ['Energy (MT)', fmt(ensemble.energy.p5), fmt(ensemble.energy.p50), fmt(ensemble.energy.p95)],
+      ['Crater (m)', fmt(ensemble.crater.p5, 0), fmt(ensemble.crater.p50, 0), fmt(ensemble.crater.p95, 0)],
+      ['Impact probability (%)', fmt(ensemble.impactProbability.p5, 1), fmt(ensemble.impactProbability.p50, 1), fmt(ensemble.impactProbability.p95, 1)]
+    ]));
+  }
+
+  out.push('## Timeline', table(['Phase', 'From epoch', 'Time (UTC)', 'Range (km)', 'Speed (km/s)'], timeline.events.map(e => [
+    TIMELINE_PHASES[e.phase],
+    formatClock(e.time),
+    e.timestamp ? formatTimestamp(e.timestamp) : '—',
+    fmt(e.range),
+    e.speed === null ? '—' : fmt(e.speed)
+  ])));
+
+  out.push('## Blast and Thermal Effects', table(['Threshold', 'Radius (km)'], [
+    ...effects.overpressureRings.map(r => [`${r.psi} psi overpressure`, fmt(r.radiusKm)]),
+    ...effects.thermalRings.map(r => [r.label, fmt(r.radiusKm)])
+  ]));
+
+  out.push('## Population Exposure', table(['Zone', 'Radius (km)', 'People', 'Fatalities', 'Injuries'], [
+    ...exposure.zones.map(z => [z.label, fmt(z.radiusKm), formatPeople(z.population), formatPeople(z.fatalities), formatPeople(z.injuries)]),
+    ['Total', '', formatPeople(exposure.population), formatPeople(exposure.fatalities), formatPeople(exposure.injuries)]
+  ]), `_${POPULATION_CAVEAT}_`);
+
+  if (ocean) {
+    out.push('## Ocean Impact', table(['Metric', 'Value'], [
+      ['Water depth', `${fmt(ocean.waterDepth, 0)} m`],
+      ['Water cavity', `${fmt(ocean.cavityDiameter, 0)} m wide, ${fmt(ocean.cavityDepth, 0)} m deep`],
+      ['Seafloor crater', ocean.seafloorCrater ? `${fmt(ocean.seafloorCraterDiameter, 0)} m` : 'None'],
+      ['Initial wave', `${fmt(Math.max(ocean.rimWaveAmplitude, ocean.collapseWaveAmplitude), 1)} m`],
+      ...ocean.waveHeights.map(w => [`Wave at ${fmt(w.distanceKm, 0)} km`, `${fmt(w.amplitudeMeters)} m`])
+    ]));
+  }
+
+  out.push('## Dimensional Analysis');
+  result.dimensionalProcess.forEach((step, i) => {
+    out.push(`### ${i + 1}. ${step.step}`, `\`${step.equation}\``, step.explanation, `**Result:** ${step.result}`);
+    if (step.derivation) out.push(`**Units:** \`${derivationText(step.derivation)}\``);
+  });
+
+  out.push('## Composition', table(['Element', 'Share (%)'], result.composition.map(c => [c.element, String(c.percentage)])));
+
+  return out.join('\n\n') + '\n';
+};
+
+export const generateReportJson = ({ label, input, uncertainty, result }: ReportSource): AnalysisReport => ({
+  format: 'cosmic-impact-report',
+  version: REPORT_FORMAT_VERSION,
+  generatedAt: new Date().toISOString(),
+  label,
+  input,
+  uncertainty: uncertainty ?? null,
+  outcome: {
+    isHit: result.isHit,
+    impactProbability: result.impactProbability,
+    kineticEnergyMegatons: result.kineticEnergyMegatons,
+    craterDiameterMeters: result.craterSizeMeters,
+    terrain: result.site.terrain,
+    isAirburst: result.entry.isAirburst,
+    airburstAltitudeKm: result.entry.airburstAltitude,
+    impactVelocityKms: result.entry.impactVelocity,
+    seismicMagnitude: result.effects.seismicMagnitude,
+    torinoScale: result.hazard.torino,
+    palermoScale: result.hazard.palermo
+  },
+  encounter: result.encounter,
+  hazard: result.hazard,
+  entry: result.entry,
+  effects: result.effects,
+  ocean: result.ocean,
+  exposure: result.exposure,
+  timeline: result.timeline,
+  ensemble: result.ensemble ?? null,
+  steps: result.dimensionalProcess,
+  composition: result.composition,
+  summary: summaryText(result.analysisSummary)
+});
+
+/**
+ * One row per mission: inputs, then headline results.
+ */
+export const historyToCsv = (items: HistoryItem[]): string => {
+  const header = [
+    'id', 'label', 'created', 'pinned', 'name', 'type', ...NUMERIC_FIELDS, 'epoch',
+    'isHit', 'impactProbability', 'energyMt', 'craterM', 'terrain', 'airburst', 'airburstAltitudeKm', 'seismicMagnitude', 'torino', 'palermo', 'warningTimeS', 'exposed', 'fatalities', 'injuries', 'ensembleSamples'
+  ];
+  const rows = items.map(({ id, label, createdAt, pinned, input, result }) => [
+    id, label, new Date(createdAt).toISOString(), pinned, input.name, input.type, ...NUMERIC_FIELDS.map(f => input[f]), input.epoch ?? null,
+    result.isHit, result.impactProbability, result.kineticEnergyMegatons, result.craterSizeMeters, result.site.terrain,
+    result.entry.isAirburst, result.entry.airburstAltitude, result.effects.seismicMagnitude, result.hazard.torino, result.hazard.palermo, result.timeline.warningTime,
+    Math.round(result.exposure.population), Math.round(result.exposure.fatalities), Math.round(result.exposure.injuries), result.ensemble?.samples ?? null
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+export const reportFileName = (label: string, extension: string): string => {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  return `${slug}.${extension}`;
+};
+
+export const downloadText = (fileName: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
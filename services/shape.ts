@@ -0,0 +1,221 @@
+import { BodyGeometry, BodyShape, EllipsoidShape, MeshShape, Vector3 } from "../types";
+
+// Shape models beyond this are too slow to preview and store in the log
+export const MAX_MESH_VERTICES = 20000;
+// Hulling is quadratic; bare vertex lists are meant to be small
+export const MAX_HULL_POINTS = 2000;
+
+const PREVIEW_SEGMENTS = 24;
+
+type Face = [number, number, number];
+
+const sub3 = (p: Vector3, q: Vector3): Vector3 => [p[0] - q[0], p[1] - q[1], p[2] - q[2]];
+const dot3 = (p: Vector3, q: Vector3): number => p[0] * q[0] + p[1] * q[1] + p[2] * q[2];
+const cross3 = (p: Vector3, q: Vector3): Vector3 => [p[1] * q[2] - p[2] * q[1], p[2] * q[0] - p[0] * q[2], p[0] * q[1] - p[1] * q[0]];
+const norm3 = (p: Vector3): number => Math.sqrt(dot3(p, p));
+
+export const ellipsoidVolume = ({ a, b, c }: EllipsoidShape): number => (4 / 3) * Math.PI * (a / 2) * (b / 2) * (c / 2);
+
+// Meshes are immutable once parsed, and the ensemble re-evaluates the same one thousands of times
+const meshVolumes = new WeakMap<MeshShape, number>();
+
+/**
+ * Enclosed volume of a closed triangle mesh: the sum of signed tetrahedra
+ * from the origin to each facet, V = Σ v₁ · (v₂ × v₃) / 6.
+ */
+export const meshVolume = (mesh: MeshShape): number => {
+  const cached = meshVolumes.get(mesh);
+  if (cached !== undefined) return cached;
+  const { vertices } = mesh;
+  const signed = mesh.faces.reduce((sum, [i, j, k]) => sum + dot3(vertices[i], cross3(vertices[j], vertices[k])), 0) / 6;
+  // Winding may be inward or outward; either way the magnitude is the volume
+  const volume = Math.abs(signed);
+  meshVolumes.set(mesh, volume);
+  return volume;
+};
+
+export const shapeVolume = (shape: BodyShape): number =>
+  shape.kind === 'ellipsoid' ? ellipsoidVolume(shape) : meshVolume(shape);
+
+// Diameter of the sphere with the same volume
+export const equivalentDiameter = (volume: number): number => Math.cbrt((6 * volume) / Math.PI);
+
+// Resize an ellipsoid, keeping its proportions, to a new equivalent diameter
+export const scaleEllipsoid = (shape: EllipsoidShape, diameter: number): EllipsoidShape => {
+  const k = diameter / equivalentDiameter(ellipsoidVolume(shape));
+  return { ...shape, a: shape.a * k, b: shape.b * k, c: shape.c * k };
+};
+
+const meshExtents = ({ vertices }: MeshShape): Vector3 => {
+  const lo: Vector3 = [Infinity, Infinity, Infinity];
+  const hi: Vector3 = [-Infinity, -Infinity, -Infinity];
+  vertices.forEach(v => v.forEach((x, axis) => {
+    lo[axis] = Math.min(lo[axis], x);
+    hi[axis] = Math.max(hi[axis], x);
+  }));
+  return sub3(hi, lo);
+};
+
+const longestFirst = (v: Vector3): Vector3 => [...v].sort((p, q) => q - p) as Vector3;
+
+/**
+ * Resolve the body the engine analyses. A shape keeps its proportions and is
+ * scaled so its volume-equivalent diameter is `diameter`; the form keeps the
+ * two in step, so the scale is 1 unless the ensemble or a sweep varies it.
+ */
+export const bodyGeometry = (diameter: number, shape?: BodyShape): BodyGeometry => {
+  if (!shape) {
+    return { kind: 'sphere', scale: 1, volume: (Math.PI / 6) * diameter ** 3, equivalentDiameter: diameter, extents: [diameter, diameter, diameter] };
+  }
+  const scale = diameter / equivalentDiameter(shapeVolume(shape));
+  const extents = shape.kind === 'ellipsoid' ? [shape.a, shape.b, shape.c] as Vector3 : meshExtents(shape);
+  return {
+    kind: shape.kind,
+    scale,
+    volume: shapeVolume(shape) * scale ** 3,
+    equivalentDiameter: diameter,
+    extents: longestFirst(extents.map(x => x * scale) as Vector3)
+  };
+};
+
+const formatMeters = (m: number): string => m.toLocaleString(undefined, { maximumFractionDigits: m < 10 ? 1 : 0 });
+
+export const shapeLabel = (shape?: BodyShape): string => {
+  if (!shape) return 'Sphere';
+  if (shape.kind === 'ellipsoid') return `Ellipsoid ${formatMeters(shape.a)} × ${formatMeters(shape.b)} × ${formatMeters(shape.c)} m`;
+  return `Shape model ${shape.name} (${shape.faces.length.toLocaleString()} facets)`;
+};
+
+/**
+ * Triangles for the 3D preview, in metres. Ellipsoids are tessellated on a
+ * latitude/longitude grid; meshes are returned as-is.
+ */
+export const previewMesh = (diameter: number, shape?: BodyShape): { vertices: Vector3[]; faces: Face[] } => {
+  if (shape?.kind === 'mesh') {
+    const { scale } = bodyGeometry(diameter, shape);
+    return { vertices: shape.vertices.map(v => v.map(x => x * scale) as Vector3), faces: shape.faces };
+  }
+  const [a, b, c] = shape ? [shape.a, shape.b, shape.c].map(x => x * bodyGeometry(diameter, shape).scale) : [diameter, diameter, diameter];
+  const vertices: Vector3[] = [];
+  const faces: Face[] = [];
+  const rings = PREVIEW_SEGMENTS / 2;
+  for (let i = 0; i <= rings; i++) {
+    const theta = (Math.PI * i) / rings;
+    for (let j = 0; j < PREVIEW_SEGMENTS; j++) {
+      const phi = (2 * Math.PI * j) / PREVIEW_SEGMENTS;
+      vertices.push([(a / 2) * Math.sin(theta) * Math.cos(phi), (b / 2) * Math.sin(theta) * Math.sin(phi), (c / 2) * Math.cos(theta)]);
+    }
+  }
+  for (let i = 0; i < rings; i++) {
+    for (let j = 0; j < PREVIEW_SEGMENTS; j++) {
+      const p = i * PREVIEW_SEGMENTS + j;
+      const q = i * PREVIEW_SEGMENTS + (j + 1) % PREVIEW_SEGMENTS;
+      faces.push([p, p + PREVIEW_SEGMENTS, q], [q, p + PREVIEW_SEGMENTS, q + PREVIEW_SEGMENTS]);
+    }
+  }
+  return { vertices, faces };
+};
+
+/**
+ * Convex hull of a point cloud by incremental insertion; faces wind outward.
+ * Used for bare vertex lists, which carry no facets of their own.
+ */
+export const convexHull = (points: Vector3[]): Face[] => {
+  const size = norm3(meshExtents({ kind: 'mesh', name: '', vertices: points, faces: [] }));
+  const eps = size * 1e-9;
+  const farthest = (score: (p: Vector3) => number): number =>
+    points.reduce((best, p, i) => score(p) > score(points[best]) ? i : best, 0);
+
+  // Seed tetrahedron from four well-separated points
+  const i0 = 0;
+  const i1 = farthest(p => norm3(sub3(p, points[i0])));
+  const axis = sub3(points[i1], points[i0]);
+  const i2 = farthest(p => norm3(cross3(axis, sub3(p, points[i0]))));
+  const normal = cross3(axis, sub3(points[i2], points[i0]));
+  const i3 = farthest(p => Math.abs(dot3(normal, sub3(p, points[i0]))));
+  if (norm3(normal) <= eps * size || Math.abs(dot3(normal, sub3(points[i3], points[i0]))) <= eps * norm3(normal)) {
+    throw new Error('The points are flat or collinear and enclose no volume.');
+  }
+
+  const faceNormal = ([a, b, c]: Face): Vector3 => cross3(sub3(points[b], points[a]), sub3(points[c], points[a]));
+  const sees = (face: Face, p: Vector3): boolean => {
+    const n = faceNormal(face);
+    return dot3(n, sub3(p, points[face[0]])) > eps * norm3(n);
+  };
+
+  let faces: Face[] = [[i0, i1, i2], [i0, i2, i3], [i0, i3, i1], [i1, i3, i2]];
+  // Wind outward: the seed faces must not see the opposite corner
+  if (sees(faces[0], points[i3])) faces = faces.map(([a, b, c]) => [a, c, b]);
+
+  const seed = new Set([i0, i1, i2, i3]);
+  points.forEach((p, index) => {
+    if (seed.has(index)) return;
+    const visible = faces.filter(face => sees(face, p));
+    if (visible.length === 0) return;
+    // Horizon: edges of the visible region whose twin belongs to a hidden face
+    const edges = new Set(visible.flatMap(([a, b, c]) => [`${a},${b}`, `${b},${c}`, `${c},${a}`]));
+    const horizon = [...edges].filter(edge => {
+      const [a, b] = edge.split(',');
+      return !edges.has(`${b},${a}`);
+    });
+    const hidden = new Set(visible);
+    faces = faces.filter(face => !hidden.has(face));
+    horizon.forEach(edge => {
+      const [a, b] = edge.split(',').map(Number);
+      faces.push([a, b, index]);
+    });
+  });
+  return faces;
+};
+
+/**
+ * Parse a Wavefront OBJ shape model or a bare "x y z" vertex list.
+ * Polygons are fanned into triangles; a vertex list is wrapped in its convex
+ * hull. `unitMeters` converts the file's length unit (shape models are
+ * usually in km). The result is centred on its centroid.
+ */
+export const parseShapeModel = (text: string, name: string, unitMeters: number): MeshShape => {
+  const objVertices: Vector3[] = [];
+  const listVertices: Vector3[] = [];
+  const faces: Face[] = [];
+
+  text.split(/\r?\n/).forEach((raw, lineIndex) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'v') {
+      const xyz = rest.slice(0, 3).map(Number);
+      if (xyz.length < 3 || xyz.some(x => !Number.isFinite(x))) throw new Error(`Line ${lineIndex + 1}: vertex needs three numbers.`);
+      objVertices.push(xyz as Vector3);
+    } else if (keyword === 'f') {
+      // "f 1 2 3", "f 1/1/1 2/2/2 3/3/3"; negative indices count back from the latest vertex
+      const indices = rest.map(token => {
+        const index = parseInt(token.split('/')[0], 10);
+        const resolved = index < 0 ? objVertices.length + index : index - 1;
+        if (!Number.isInteger(index) || index === 0 || resolved < 0 || resolved >= objVertices.length) {
+          throw new Error(`Line ${lineIndex + 1}: face refers to a missing vertex "${token}".`);
+        }
+        return resolved;
+      });
+      if (indices.length < 3) throw new Error(`Line ${lineIndex + 1}: face needs at least three vertices.`);
+      for (let i = 1; i + 1 < indices.length; i++) faces.push([indices[0], indices[i], indices[i + 1]]);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      const xyz = line.split(/[\s,;]+/).map(Number);
+      if (xyz.length === 3 && xyz.every(Number.isFinite)) listVertices.push(xyz as Vector3);
+    }
+    // Other OBJ statements (vn, vt, o, g, s, usemtl, ...) do not affect the volume
+  });
+
+  const points = objVertices.length > 0 ? objVertices : listVertices;
+  if (points.length < 4) throw new Error('No shape found; expected OBJ vertices and faces or an "x y z" vertex list.');
+  const limit = faces.length > 0 ? MAX_MESH_VERTICES : MAX_HULL_POINTS;
+  if (points.length > limit) {
+    throw new Error(`The model has ${points.length.toLocaleString()} vertices; simplify it to at most ${limit.toLocaleString()}.`);
+  }
+
+  const centroid = points.reduce<Vector3>((sum, p) => [sum[0] + p[0], sum[1] + p[1], sum[2] + p[2]], [0, 0, 0]).map(x => x / points.length);
+  const vertices = points.map(p => sub3(p, centroid as Vector3).map(x => x * unitMeters) as Vector3);
+  const mesh: MeshShape = { kind: 'mesh', name, vertices, faces: faces.length > 0 ? faces : convexHull(vertices) };
+  if (!(meshVolume(mesh) > 0)) throw new Error('The model encloses no volume; check that it is a closed surface.');
+  return mesh;
+};
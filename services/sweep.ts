@@ -0,0 +1,82 @@
+import { AsteroidInput, SweepAxis, SweepCell, SweepConfig, SweepPoint, SweepResult } from "../types";
+import { MAX_SWEEP_STEPS } from "../constants";
+import { evaluateImpact } from "./engine";
+
+// Cells evaluated between yields to the event loop, so progress can render
+const CHUNK_SIZE = 50;
+
+/**
+ * Grid values along one axis, endpoints included. Log axes fall back to
+ * linear spacing when the range touches zero or below.
+ */
+export const axisValues = (axis: SweepAxis): number[] => {
+  const steps = Math.min(Math.max(Math.round(axis.steps), 1), MAX_SWEEP_STEPS);
+  if (steps === 1) return [axis.min];
+  const log = axis.log && axis.min > 0 && axis.max > 0;
+  return Array.from({ length: steps }, (_, i) => {
+    const f = i / (steps - 1);
+    return log
+      ? axis.min * Math.pow(axis.max / axis.min, f)
+      : axis.min + (axis.max - axis.min) * f;
+  });
+};
+
+/**
+ * The scenarios a sweep evaluates, row-major (y outer, x inner).
+ */
+export const sweepPoints = (base: AsteroidInput, config: SweepConfig): SweepPoint[] => {
+  const xValues = axisValues(config.x);
+  const yValues = config.y ? axisValues(config.y) : [];
+  const rows = config.y ? yValues.length : 1;
+  const points: SweepPoint[] = [];
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < xValues.length; i++) {
+      const input: AsteroidInput = { ...base, [config.x.field]: xValues[i] };
+      if (config.y) input[config.y.field] = yValues[j];
+      points.push({ xIndex: i, yIndex: j, input });
+    }
+  }
+  return points;
+};
+
+export const evaluateSweepPoint = (point: SweepPoint): SweepCell => {
+  const { encounter, energyMegatons, craterDiameter } = evaluateImpact(point.input);
+  return {
+    ...point,
+    isHit: encounter.isHit,
+    energy: energyMegatons,
+    crater: craterDiameter,
+    probability: encounter.impactProbability
+  };
+};
+
+export const sweepResult = (config: SweepConfig, cells: SweepCell[]): SweepResult => ({
+  config,
+  xValues: axisValues(config.x),
+  yValues: config.y ? axisValues(config.y) : [],
+  cells
+});
+
+/**
+ * Run the engine over a 1D or 2D grid around `base` on this thread, yielding
+ * now and then. services/compute spreads the same points over workers.
+ */
+export const runSweep = async (
+  base: AsteroidInput,
+  config: SweepConfig,
+  onProgress?: (done: number, total: number) => void
+): Promise<SweepResult> => {
+  const points = sweepPoints(base, config);
+  const cells: SweepCell[] = [];
+
+  for (const point of points) {
+    cells.push(evaluateSweepPoint(point));
+    if (cells.length % CHUNK_SIZE === 0) {
+      onProgress?.(cells.length, points.length);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  onProgress?.(points.length, points.length);
+  return sweepResult(config, cells);
+};
@@ -0,0 +1,109 @@
+import { AtmosphericEntry, EncounterGeometry, EncounterTimeline, Quantity, TimelineEvent, TimelinePhase } from "../types";
+import { MOON_DISTANCE_KM } from "../constants";
+import { EARTH_MU, EARTH_RADIUS_KM, anomalyAtRange, positionAtAnomaly, timeToEncounter } from "./encounter";
+import { ENTRY_ALTITUDE } from "./atmosphere";
+import { formatDuration } from "./hazard";
+import { div, inUnit, mul, pow, quantity, scalar } from "./units";
+
+const EARTH_MASS = 5.972e24; // kg
+const SUN_MASS = 1.989e30;   // kg
+
+// Date and time with no zone designator, which Date.parse would read as local time
+const ZONELESS_TIME = /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Radius of Earth's Hill sphere, r_H = a⊕ · (m⊕ / 3M☉)^(1/3): inside it
+ * Earth's gravity outweighs the Sun's tide and the two-body flyby holds.
+ */
+export const hillRadius = (): Quantity =>
+  mul(quantity(1, 'AU'), pow(div(quantity(EARTH_MASS, 'kg'), mul(scalar(3), quantity(SUN_MASS, 'kg'))), 1 / 3));
+
+/**
+ * Milliseconds since 1970 for an ISO 8601 epoch, or null when it cannot be
+ * read. Times without a zone are taken as UTC.
+ */
+export const parseEpoch = (epoch: string): number | null => {
+  const text = epoch.trim();
+  const ms = Date.parse(ZONELESS_TIME.test(text) ? `${text}Z` : text);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+/**
+ * The inbound flight in time order: Hill-sphere entry, lunar-distance
+ * crossing, the analysis epoch, then the atmospheric interface and the
+ * airburst or ground impact for a hit, or closest approach for a miss.
+ * Boundaries the hyperbola never reaches are left out; ones crossed before
+ * the epoch keep a negative time. With perigee beyond the starting range the
+ * epoch is not on the flyby, so there are no events and no warning time.
+ * Times on the hyperbola come from Kepler's equation, and the flight through
+ * the air from the entry simulation.
+ */
+export const encounterTimeline = (encounter: EncounterGeometry, entry: AtmosphericEntry, epoch?: string): EncounterTimeline => {
+  const epochMs = epoch ? parseEpoch(epoch) : null;
+  const epochIso = epochMs === null ? null : new Date(epochMs).toISOString();
+  const hill = inUnit(hillRadius(), 'km');
+  const warningTime = timeToEncounter(encounter);
+  if (warningTime === null) return { epoch: epochIso, hillRadius: hill, warningTime, events: [] };
+
+  const start = timeAtRange(encounter, encounter.range);
+  const speedAt = (range: number) => Math.sqrt(encounter.vInfinity ** 2 + (2 * EARTH_MU) / range);
+  const event = (phase: TimelinePhase, time: number, range: number, speed: number | null): TimelineEvent => ({
+    phase,
+    time,
+    range,
+    speed,
+    timestamp: epochMs === null ? null : new Date(epochMs + time * 1000).toISOString()
+  });
+  // Only boundaries the hyperbola dips inside are crossed; one at the starting range is the epoch itself
+  const crossing = (phase: TimelinePhase, range: number) =>
+    encounter.perigee < range && range !== encounter.range ? [event(phase, timeAtRange(encounter, range) - start, range, speedAt(range))] : [];
+
+  const atmosphereTop = EARTH_RADIUS_KM + ENTRY_ALTITUDE / 1000;
+  const entryTime = timeAtRange(encounter, atmosphereTop) - start;
+  const endTime = entryTime + entry.duration;
+  const end = !encounter.isHit
+    ? [event('perigee', -start, encounter.perigee, speedAt(encounter.perigee))]
+    : entry.isAirburst
+      ? [event('atmosphere', entryTime, atmosphereTop, speedAt(atmosphereTop)), event('airburst', endTime, EARTH_RADIUS_KM + entry.airburstAltitude!, null)]
+      : [event('atmosphere', entryTime, atmosphereTop, speedAt(atmosphereTop)), event('impact', endTime, EARTH_RADIUS_KM, entry.impactVelocity)];
+
+  const events = [
+    ...crossing('hill', hill),
+    ...crossing('lunar', MOON_DISTANCE_KM),
+    event('epoch', 0, encounter.range, speedAt(encounter.range)),
+    ...end
+  ].sort((a, b) => a.time - b.time);
+
+  return {
+    epoch: epochIso,
+    hillRadius: hill,
+    warningTime,
+    events
+  };
+};
+
+/**
+ * Where the warning time runs to: the atmospheric interface for a hit,
+ * closest approach for a miss. Null when the timeline has no events.
+ */
+export const timelineArrival = (timeline: EncounterTimeline): TimelineEvent | null =>
+  timeline.events.find(e => e.phase === 'atmosphere' || e.phase === 'perigee') ?? null;
+
+// Seconds from perigee to the inbound crossing of `range`, so never positive; only for ranges the flyby reaches
+const timeAtRange = (encounter: EncounterGeometry, range: number): number =>
+  positionAtAnomaly(encounter, anomalyAtRange(encounter, range)!).t;
+
+// "2029-04-13 21:46 UTC"
+export const formatTimestamp = (iso: string): string => `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+
+// "+6 d 04:12:09", "−00:00:42"
+export const formatClock = (seconds: number): string => {
+  const total = Math.round(Math.abs(seconds));
+  const days = Math.floor(total / 86400);
+  const clock = [Math.floor(total / 3600) % 24, Math.floor(total / 60) % 60, total % 60].map(n => String(n).padStart(2, '0')).join(':');
+  return `${seconds < 0 ? '−' : '+'}${days > 0 ? `${days} d ` : ''}${clock}`;
+};
+
+// "3.2 d before the epoch", "6.5 h after the epoch"
+export const formatOffset = (seconds: number): string =>
+  seconds < 0 ? `${formatDuration(-seconds)} before the epoch` : `${formatDuration(seconds)} after the epoch`;
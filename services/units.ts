@@ -0,0 +1,259 @@
+import { Dimension, Quantity, UnitDerivation, UnitPreferences } from "../types";
+import { MOON_DISTANCE_KM, UNIT_SYSTEMS } from "../constants";
+
+interface UnitDef {
+  factor: number; // SI value of one unit
+  dimension: Dimension;
+}
+
+const dim = (L: number, M: number, T: number): Dimension => ({ L, M, T });
+
+const DIMENSIONLESS = dim(0, 0, 0);
+const ENERGY = dim(2, 1, -2);
+const PRESSURE = dim(-1, 1, -2);
+
+const MT_JOULES = 4.184e15;
+
+const BASE_UNITS: Record<string, UnitDef> = {
+  // length
+  m: { factor: 1, dimension: dim(1, 0, 0) },
+  mm: { factor: 0.001, dimension: dim(1, 0, 0) },
+  cm: { factor: 0.01, dimension: dim(1, 0, 0) },
+  km: { factor: 1000, dimension: dim(1, 0, 0) },
+  ft: { factor: 0.3048, dimension: dim(1, 0, 0) },
+  mi: { factor: 1609.344, dimension: dim(1, 0, 0) },
+  'R⊕': { factor: 6.371e6, dimension: dim(1, 0, 0) },
+  LD: { factor: MOON_DISTANCE_KM * 1000, dimension: dim(1, 0, 0) },
+  AU: { factor: 1.495978707e11, dimension: dim(1, 0, 0) },
+  // mass
+  kg: { factor: 1, dimension: dim(0, 1, 0) },
+  g: { factor: 1e-3, dimension: dim(0, 1, 0) },
+  t: { factor: 1000, dimension: dim(0, 1, 0) },
+  lb: { factor: 0.45359237, dimension: dim(0, 1, 0) },
+  // time
+  s: { factor: 1, dimension: dim(0, 0, 1) },
+  min: { factor: 60, dimension: dim(0, 0, 1) },
+  h: { factor: 3600, dimension: dim(0, 0, 1) },
+  d: { factor: 86400, dimension: dim(0, 0, 1) },
+  yr: { factor: 3.15576e7, dimension: dim(0, 0, 1) }, // Julian year
+  // energy
+  J: { factor: 1, dimension: ENERGY },
+  kt: { factor: MT_JOULES / 1000, dimension: ENERGY },
+  Mt: { factor: MT_JOULES, dimension: ENERGY },
+  Hiroshima: { factor: (15 * MT_JOULES) / 1000, dimension: ENERGY }, // ~15 kt
+  // pressure
+  Pa: { factor: 1, dimension: PRESSURE },
+  kPa: { factor: 1000, dimension: PRESSURE },
+  psi: { factor: 6894.76, dimension: PRESSURE },
+  // dimensionless
+  '%': { factor: 0.01, dimension: DIMENSIONLESS }
+};
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const SUPERSCRIPT_TOKEN = /^(.+?)([⁻]?[⁰¹²³⁴⁵⁶⁷⁸⁹]+)$/;
+const CARET_TOKEN = /^(.+?)\^(-?\d+(?:\.\d+)?)$/;
+
+// Exponents are compared with a tolerance: scaling laws raise lengths to 0.78 and so on
+const sameDimension = (a: Dimension, b: Dimension): boolean =>
+  Math.abs(a.L - b.L) < 1e-9 && Math.abs(a.M - b.M) < 1e-9 && Math.abs(a.T - b.T) < 1e-9;
+
+const scaleDimension = (d: Dimension, n: number): Dimension => dim(d.L * n, d.M * n, d.T * n);
+
+const addDimensions = (a: Dimension, b: Dimension): Dimension => dim(a.L + b.L, a.M + b.M, a.T + b.T);
+
+const FRACTIONS: [number, string][] = [[1 / 2, '1/2'], [1 / 3, '1/3'], [2 / 3, '2/3'], [1 / 6, '1/6']];
+
+const formatExponent = (n: number): string => {
+  if (Number.isInteger(n)) {
+    return String(n).replace('-', '⁻').replace(/\d/g, digit => SUPERSCRIPT_DIGITS[Number(digit)]);
+  }
+  const fraction = FRACTIONS.find(([value]) => Math.abs(Math.abs(n) - value) < 1e-9);
+  if (fraction) return `^(${n < 0 ? '-' : ''}${fraction[1]})`;
+  return `^${parseFloat(n.toFixed(3))}`;
+};
+
+/**
+ * Base dimensions as a product, e.g. "M·L²·T⁻²"; "1" when dimensionless.
+ */
+export const formatDimension = (d: Dimension): string => {
+  const parts = (['M', 'L', 'T'] as const)
+    .filter(key => Math.abs(d[key]) > 1e-9)
+    .map(key => Math.abs(d[key] - 1) < 1e-9 ? key : `${key}${formatExponent(parseFloat(d[key].toFixed(6)))}`);
+  return parts.length ? parts.join('·') : '1';
+};
+
+function parseToken(token: string): UnitDef {
+  let symbol = token;
+  let exponent = 1;
+  const superscript = token.match(SUPERSCRIPT_TOKEN);
+  const caret = token.match(CARET_TOKEN);
+  if (superscript && !BASE_UNITS[token]) {
+    symbol = superscript[1];
+    exponent = Number(superscript[2].replace('⁻', '-').replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, c => String(SUPERSCRIPT_DIGITS.indexOf(c))));
+  } else if (caret) {
+    symbol = caret[1];
+    exponent = Number(caret[2]);
+  }
+  const base = BASE_UNITS[symbol];
+  if (!base) throw new Error(`Unknown unit "${symbol}".`);
+  return { factor: Math.pow(base.factor, exponent), dimension: scaleDimension(base.dimension, exponent) };
+}
+
+const unitCache = new Map<string, UnitDef>();
+
+/**
+ * Parse a unit such as "km/s", "kg/m³", "km^3/s^2" or "m·s⁻¹". Factors are
+ * separated by "·", "*" or spaces; at most one "/" divides the whole.
+ */
+export const parseUnit = (unit: string): UnitDef => {
+  const cached = unitCache.get(unit);
+  if (cached) return cached;
+
+  const halves = unit.split('/');
+  if (halves.length > 2) throw new Error(`Unit "${unit}" has more than one "/".`);
+  const factors = (text: string) => text.split(/[·*\s]+/).filter(part => part && part !== '1');
+
+  let result: UnitDef = { factor: 1, dimension: DIMENSIONLESS };
+  halves.forEach((half, i) => factors(half).forEach(token => {
+    const def = parseToken(token);
+    const sign = i === 0 ? 1 : -1;
+    result = {
+      factor: result.factor * Math.pow(def.factor, sign),
+      dimension: addDimensions(result.dimension, scaleDimension(def.dimension, sign))
+    };
+  }));
+  unitCache.set(unit, result);
+  return result;
+};
+
+const mismatch = (context: string, q: Quantity, expected: Dimension): Error =>
+  new Error(`Unit mismatch ${context}: ${q.expression || 'a pure number'} is ${formatDimension(q.dimension)} but ${formatDimension(expected)} was expected.`);
+
+// Composite expressions are parenthesised before being raised to a power or divided by
+const isAtom = (expression: string): boolean => /^[A-Za-z%⊕]+$/.test(expression);
+const group = (expression: string): string => isAtom(expression) ? expression : `(${expression})`;
+const numerator = (expression: string): string => !expression ? '1' : expression.includes(' ') ? `(${expression})` : expression;
+const denominator = (expression: string): string =>
+  /[ /]/.test(expression.replace(/\([^()]*\)/g, '')) ? `(${expression})` : expression;
+
+export const quantity = (value: number, unit: string): Quantity => {
+  const def = parseUnit(unit);
+  return { value: value * def.factor, dimension: def.dimension, expression: unit };
+};
+
+export const scalar = (value: number): Quantity => ({ value, dimension: DIMENSIONLESS, expression: '' });
+
+export const mul = (...factors: Quantity[]): Quantity => ({
+  value: factors.reduce((product, q) => product * q.value, 1),
+  dimension: factors.reduce((d, q) => addDimensions(d, q.dimension), DIMENSIONLESS),
+  expression: factors.map(q => q.expression).filter(Boolean).join(' · ')
+});
+
+export const div = (a: Quantity, b: Quantity): Quantity => ({
+  value: a.value / b.value,
+  dimension: addDimensions(a.dimension, scaleDimension(b.dimension, -1)),
+  expression: b.expression ? `${numerator(a.expression)} / ${denominator(b.expression)}` : a.expression
+});
+
+export const pow = (q: Quantity, n: number): Quantity => ({
+  value: Math.pow(q.value, n),
+  dimension: scaleDimension(q.dimension, n),
+  expression: !q.expression ? '' : n === 0.5 ? `√${group(q.expression)}` : `${group(q.expression)}${formatExponent(n)}`
+});
+
+export const sqrt = (q: Quantity): Quantity => pow(q, 0.5);
+
+const combine = (what: string, a: Quantity, b: Quantity, value: number, expression: string): Quantity => {
+  if (!sameDimension(a.dimension, b.dimension)) throw mismatch(what, b, a.dimension);
+  return { value, dimension: a.dimension, expression };
+};
+
+export const add = (a: Quantity, b: Quantity): Quantity =>
+  combine('in a sum', a, b, a.value + b.value, a.expression || b.expression);
+
+export const sub = (a: Quantity, b: Quantity): Quantity =>
+  combine('in a difference', a, b, a.value - b.value, a.expression || b.expression);
+
+export const min = (a: Quantity, b: Quantity): Quantity =>
+  combine('in min()', a, b, Math.min(a.value, b.value), `min(${a.expression || '1'}, ${b.expression || '1'})`);
+
+export const max = (a: Quantity, b: Quantity): Quantity =>
+  combine('in max()', a, b, Math.max(a.value, b.value), `max(${a.expression || '1'}, ${b.expression || '1'})`);
+
+const dimensionlessOnly = (name: string, q: Quantity) => {
+  if (!sameDimension(q.dimension, DIMENSIONLESS)) throw mismatch(`in ${name}()`, q, DIMENSIONLESS);
+};
+
+export const exp = (q: Quantity): Quantity => {
+  dimensionlessOnly('exp', q);
+  return { value: Math.exp(q.value), dimension: DIMENSIONLESS, expression: `exp(${q.expression})` };
+};
+
+export const log10 = (q: Quantity): Quantity => {
+  dimensionlessOnly('log10', q);
+  return { value: Math.log10(q.value), dimension: DIMENSIONLESS, expression: `log₁₀(${q.expression})` };
+};
+
+const checkUnit = (q: Quantity, unit: string): UnitDef => {
+  const def = parseUnit(unit);
+  if (!sameDimension(q.dimension, def.dimension)) throw mismatch(`converting to ${unit || 'a pure number'}`, q, def.dimension);
+  return def;
+};
+
+/**
+ * The numeric value of `q` in `unit`. Throws if the dimensions disagree.
+ */
+export const inUnit = (q: Quantity, unit: string): number => q.value / checkUnit(q, unit).factor;
+
+/**
+ * Check `q` against `unit` and restart its expression there, so later steps
+ * show "kg" rather than the whole chain that produced the mass.
+ */
+export const settle = (q: Quantity, unit: string): Quantity => {
+  checkUnit(q, unit);
+  return { ...q, expression: unit };
+};
+
+/**
+ * Record how a step's units combine. Throws if they do not reduce to `unit`.
+ */
+export const derive = (q: Quantity, unit: string): UnitDerivation => ({
+  expression: q.expression || '1',
+  dimension: formatDimension(q.dimension),
+  unit,
+  value: inUnit(q, unit)
+});
+
+export const convert = (value: number, from: string, to: string): number => inUnit(quantity(value, from), to);
+
+// Lunar distances and AU suit separations, not altitudes or blast radii
+const ASTRONOMICAL_UNITS = ['LD', 'AU'];
+const MIN_ASTRONOMICAL = 0.01;
+
+/**
+ * Unit to show an engine quantity in under the user's preferences. Given a
+ * value, lengths too small for an astronomical unit keep their own.
+ */
+export const preferredUnit = (unit: string, prefs: UnitPreferences, value?: number): string => {
+  if (sameDimension(parseUnit(unit).dimension, ENERGY)) return prefs.energy;
+  const target = UNIT_SYSTEMS[prefs.system].units[unit] ?? unit;
+  if (value !== undefined && ASTRONOMICAL_UNITS.includes(target) && Math.abs(convert(value, unit, target)) < MIN_ASTRONOMICAL) {
+    return unit;
+  }
+  return target;
+};
+
+const formatNumber = (value: number): string =>
+  Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3)
+    ? value.toExponential(2)
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Format a value given in `unit` in the preferred unit, e.g. "1.2e+15 J".
+ */
+export const formatQuantity = (value: number, unit: string, prefs: UnitPreferences): string => {
+  const target = preferredUnit(unit, prefs, value);
+  const text = formatNumber(convert(value, unit, target));
+  if (!target) return text;
+  return target === '%' ? `${text}%` : `${text} ${target}`;
+};
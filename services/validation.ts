@@ -0,0 +1,161 @@
+import { AsteroidInput, Diagnostic, Material, UncertaintyOptions } from "../types";
+import { FIELD_LABELS, INPUT_LIMITS, NUMERIC_FIELDS, UNCERTAIN_FIELDS } from "../constants";
+import { EARTH_ESCAPE_VELOCITY, EARTH_RADIUS_KM, computeEncounter } from "./encounter";
+import { isLand } from "./geography";
+import { getMaterial } from "./materials";
+import { parseEpoch } from "./timeline";
+
+export const MAX_NAME_LENGTH = 100;
+
+const LARGEST_NEO_DIAMETER = 37700;  // m, (1036) Ganymed
+const MAX_HELIOCENTRIC_IMPACT = 72.8; // km/s, head-on retrograde at escape from the Sun
+const SMALL_BODY_DIAMETER = 25;       // m, below this most stony bodies burst high up
+const SHALLOW_ENTRY_ANGLE = 15;       // degrees; ~7% of impacts are shallower
+const MAX_AXIS_RATIO = 10;            // 'Oumuamua, the most elongated small body measured, is ~6:1 to 10:1
+const NOISY_SAMPLE_COUNT = 100;
+const SLOW_SAMPLE_COUNT = 5000;
+const MATERIAL_LIMITS = {
+  grainDensity: { min: 100, max: 25000 }, // kg/m^3; osmium is ~22,600
+  porosity: { min: 0, max: 0.95 },
+  strength: { min: 1, max: 1e10 }         // Pa
+};
+
+/**
+ * Hard errors, soft warnings and tips for a scenario. Errors mean the engine
+ * would run on meaningless input; warnings flag physically unusual values;
+ * tips explain how a choice will shape the result. Used by the form,
+ * permalink loading and the NEO importer.
+ */
+export const validateInput = (input: AsteroidInput, uncertainty?: UncertaintyOptions): Diagnostic[] => {
+  const out: Diagnostic[] = [];
+  const error = (field: Diagnostic['field'], message: string) => out.push({ field, severity: 'error', message });
+  const warning = (field: Diagnostic['field'], message: string) => out.push({ field, severity: 'warning', message });
+  const tip = (field: Diagnostic['field'], message: string) => out.push({ field, severity: 'tip', message });
+
+  const name = input.name.trim();
+  if (!name) error('name', 'Give the object a name.');
+  else if (name.length > MAX_NAME_LENGTH) error('name', `Name is longer than ${MAX_NAME_LENGTH} characters.`);
+
+  if (!getMaterial(input.type)) {
+    error('type', `Unknown material "${input.type}"; it may have been deleted or defined in another browser.`);
+  }
+
+  if (input.epoch !== undefined && parseEpoch(input.epoch) === null) {
+    error('epoch', `Epoch "${input.epoch}" is not an ISO 8601 date and time, such as 2029-04-13T21:46Z.`);
+  }
+
+  // Range checks first; the physics rules below assume finite, in-range numbers
+  const valid = new Set<string>();
+  NUMERIC_FIELDS.forEach(field => {
+    const value = input[field];
+    const { min, max } = INPUT_LIMITS[field];
+    if (!Number.isFinite(value)) error(field, `${FIELD_LABELS[field]} is required.`);
+    else if (value < min || value > max) error(field, `${FIELD_LABELS[field]} must be between ${min.toLocaleString()} and ${max.toLocaleString()}.`);
+    else valid.add(field);
+  });
+
+  if (valid.has('velocity')) {
+    if (input.velocity < EARTH_ESCAPE_VELOCITY) {
+      error('velocity', `Velocity below ${EARTH_ESCAPE_VELOCITY.toFixed(1)} km/s is not possible for an Earth impactor; falling from rest already reaches escape speed.`);
+    } else if (input.velocity > MAX_HELIOCENTRIC_IMPACT) {
+      warning('velocity', `Faster than the ~${MAX_HELIOCENTRIC_IMPACT} km/s limit for objects bound to the Sun; only interstellar bodies arrive this fast.`);
+    }
+  }
+
+  if (valid.has('diameter')) {
+    if (input.diameter > LARGEST_NEO_DIAMETER) {
+      warning('diameter', `Diameter exceeds the largest known NEO, (1036) Ganymed at ~${(LARGEST_NEO_DIAMETER / 1000).toFixed(1)} km.`);
+    } else if (input.diameter < SMALL_BODY_DIAMETER) {
+      tip('diameter', 'Bodies this small usually fragment and airburst high in the atmosphere.');
+    }
+  }
+
+  if (input.shape?.kind === 'ellipsoid') {
+    const axes = [input.shape.a, input.shape.b, input.shape.c];
+    if (!axes.every(axis => Number.isFinite(axis) && axis > 0)) {
+      error('shape', 'Every ellipsoid axis must be a positive length.');
+    } else if (Math.max(...axes) / Math.min(...axes) > MAX_AXIS_RATIO) {
+      warning('shape', `An axis ratio above ${MAX_AXIS_RATIO}:1 is more elongated than any measured small body.`);
+    }
+  }
+  if (input.shape) {
+    tip('shape', 'The shape sets the volume and mass; entry and cratering treat the body as the sphere of equal volume.');
+  }
+
+  if (valid.has('distance') && input.distance < EARTH_RADIUS_KM) {
+    error('distance', `Distance is measured from Earth's centre and cannot be less than its radius (${EARTH_RADIUS_KM.toLocaleString()} km).`);
+  } else if (valid.has('distance') && valid.has('velocity') && valid.has('impactParameter')) {
+    const { perigee } = computeEncounter(input);
+    if (perigee > input.distance) {
+      warning('distance', `Closest approach (${perigee.toLocaleString(undefined, { maximumFractionDigits: 0 })} km) lies beyond this distance, so the flyby never reaches it and has no time to encounter.`);
+    }
+  }
+
+  if (valid.has('impactParameterSigma') && input.impactParameterSigma === 0) {
+    tip('impactParameterSigma', 'With no b-plane uncertainty the impact probability is exactly 0% or 100%.');
+  }
+
+  if (valid.has('entryAngle') && input.entryAngle < SHALLOW_ENTRY_ANGLE) {
+    tip('entryAngle', 'Shallow entries are rare and spend longer in the atmosphere, favouring airbursts.');
+  }
+
+  if (valid.has('latitude') && valid.has('longitude') && valid.has('waterDepth')
+      && !isLand(input.latitude, input.longitude) && input.waterDepth === 0) {
+    warning('waterDepth', 'The site is ocean but the water depth is 0 m, so no water layer is modelled.');
+  }
+
+  if (uncertainty) {
+    if (!Number.isInteger(uncertainty.samples) || uncertainty.samples < 1) {
+      error(null, 'Monte Carlo needs at least one sample.');
+    } else if (uncertainty.samples < NOISY_SAMPLE_COUNT) {
+      tip(null, `Fewer than ${NOISY_SAMPLE_COUNT} Monte Carlo samples give noisy percentiles.`);
+    } else if (uncertainty.samples > SLOW_SAMPLE_COUNT) {
+      warning(null, `${uncertainty.samples.toLocaleString()} Monte Carlo samples may take a while.`);
+    }
+
+    UNCERTAIN_FIELDS.forEach(field => {
+      const dist = uncertainty.distributions[field];
+      const label = FIELD_LABELS[field];
+      if (!dist) return;
+      const { min, max } = INPUT_LIMITS[field];
+      const inRange = (value: number) => Number.isFinite(value) && value >= min && value <= max;
+      if (dist.kind === 'normal' && !(Number.isFinite(dist.sigma) && dist.sigma > 0)) error(null, `${label}: normal σ must be positive.`);
+      if (dist.kind === 'lognormal' && !(Number.isFinite(dist.factor) && dist.factor >= 1)) error(null, `${label}: log-normal factor must be at least 1.`);
+      if (dist.kind === 'uniform') {
+        if (!inRange(dist.min) || !inRange(dist.max)) {
+          error(null, `${label}: uniform bounds must be between ${min.toLocaleString()} and ${max.toLocaleString()}.`);
+        } else if (dist.min > dist.max) {
+          error(null, `${label}: uniform minimum must not exceed the maximum.`);
+        }
+      }
+    });
+  }
+
+  return out;
+};
+
+/**
+ * Problems that stop a custom material being saved or opened from a link.
+ */
+export const validateMaterial = (material: Material): string[] => {
+  const out: string[] = [];
+  const name = material.name.trim();
+  if (!name) out.push('Give the material a name.');
+  else if (name.length > MAX_NAME_LENGTH) out.push(`Name is longer than ${MAX_NAME_LENGTH} characters.`);
+
+  const range = (value: number, label: string, { min, max }: { min: number; max: number }) => {
+    if (!Number.isFinite(value) || value < min || value > max) out.push(`${label} must be between ${min.toLocaleString()} and ${max.toLocaleString()}.`);
+  };
+  range(material.grainDensity, 'Grain density (kg/m³)', MATERIAL_LIMITS.grainDensity);
+  range(material.porosity * 100, 'Porosity (%)', { min: MATERIAL_LIMITS.porosity.min * 100, max: MATERIAL_LIMITS.porosity.max * 100 });
+  range(material.strength, 'Strength (Pa)', MATERIAL_LIMITS.strength);
+
+  if (material.composition.length === 0) out.push('List at least one component.');
+  if (material.composition.some(c => !c.element.trim())) out.push('Every component needs a name.');
+  if (material.composition.some(c => !(c.percentage >= 0))) out.push('Component shares cannot be negative.');
+  const total = material.composition.reduce((sum, c) => sum + c.percentage, 0);
+  if (Math.abs(total - 100) > 0.5) out.push(`Component shares add up to ${parseFloat(total.toFixed(2))}%, not 100%.`);
+  return out;
+};
+
+export const hasErrors = (diagnostics: Diagnostic[]): boolean => diagnostics.some(d => d.severity === 'error');
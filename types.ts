@@ -9,8 +9,332 @@ export interface AsteroidInput {
   name: string;
   diameter: number; // in meters
   velocity: number; // in km/s
-  distance: number; // in km
-  type: AsteroidType;
+  distance: number; // in km, from Earth's centre
+  impactParameter: number; // b-plane offset from Earth's centre, in km
+  impactParameterSigma: number; // 1-sigma b-plane uncertainty, in km
+  entryAngle: number; // degrees from horizontal
+  latitude: number; // impact site, degrees north
+  longitude: number; // impact site, degrees east
+  waterDepth: number; // in m, used when the site is ocean
+  type: string; // material id; the built-in presets use their AsteroidType value
+  shape?: BodyShape; // absent for a sphere; when set, `diameter` is its volume-equivalent diameter
+  epoch?: string; // ISO 8601 time the object is `distance` km out, UTC unless a zone is given
+}
+
+export type NumericInputField = Exclude<keyof AsteroidInput, 'name' | 'type' | 'shape' | 'epoch'>;
+
+export interface EllipsoidShape {
+  kind: 'ellipsoid';
+  a: number; // full axis lengths in m, longest first by convention
+  b: number;
+  c: number;
+}
+
+export type Vector3 = [number, number, number];
+
+export interface MeshShape {
+  kind: 'mesh';
+  name: string; // source file name
+  vertices: Vector3[]; // in m, centred on the origin
+  faces: [number, number, number][]; // vertex indices, consistently wound
+}
+
+export type BodyShape = EllipsoidShape | MeshShape;
+
+/**
+ * The body as analysed: the input shape scaled so its volume-equivalent
+ * diameter matches `AsteroidInput.diameter`.
+ */
+export interface BodyGeometry {
+  kind: 'sphere' | BodyShape['kind'];
+  scale: number; // applied to the shape's own dimensions
+  volume: number; // m^3
+  equivalentDiameter: number; // m
+  extents: Vector3; // bounding box in m, longest first
+}
+
+export type InputDistribution =
+  | { kind: 'normal'; sigma: number } // centred on the nominal input value
+  | { kind: 'lognormal'; factor: number } // 1-sigma multiplicative factor around the nominal value
+  | { kind: 'uniform'; min: number; max: number };
+
+export interface UncertaintyOptions {
+  samples: number;
+  seed: number;
+  distributions: Partial<Record<NumericInputField, InputDistribution>>;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'tip';
+
+export interface Diagnostic {
+  field: keyof AsteroidInput | null; // null for scenario-wide checks
+  severity: DiagnosticSeverity; // errors block the analysis
+  message: string;
+}
+
+// Everything needed to reproduce an analysis from a link
+export interface ScenarioState {
+  input: AsteroidInput;
+  uncertainty?: UncertaintyOptions;
+  material?: Material; // custom materials travel with the scenario
+}
+
+export interface EncounterGeometry {
+  range: number; // km from Earth's centre at the analysis epoch
+  vInfinity: number; // hyperbolic excess speed, km/s
+  escapeVelocity: number; // km/s
+  focusingFactor: number; // sqrt(1 + v_esc^2 / v_inf^2)
+  captureRadius: number; // km
+  semiMajorAxis: number; // |a| of the hyperbola, km
+  eccentricity: number;
+  perigee: number; // closest approach to Earth's centre, km
+  impactProbability: number; // 0-100
+  isHit: boolean;
+}
+
+// Torino colour zones, from "no hazard" to "certain collision"
+export type TorinoZone = 'none' | 'normal' | 'attention' | 'threatening' | 'certain';
+
+export interface HazardAssessment {
+  timeToImpact: number | null; // s from the analysis epoch to the atmospheric interface, or to closest approach for a miss; null when the flyby never passes the starting distance
+  backgroundFrequency: number; // impacts per year at least this energetic
+  torino: number; // 0-10
+  palermo: number | null; // null when the impact probability is zero or there is no time to encounter
+}
+
+export type Terrain = 'land' | 'ocean';
+
+export interface ImpactSite {
+  latitude: number;
+  longitude: number;
+  terrain: Terrain;
+  targetDensity: number; // kg/m^3, crust or water
+}
+
+export interface WaveHeight {
+  distanceKm: number;
+  amplitudeMeters: number;
+}
+
+export interface OceanImpact {
+  waterDepth: number; // m
+  cavityDiameter: number; // transient water cavity, m
+  cavityDepth: number; // m
+  seafloorVelocity: number; // km/s after crossing the water column
+  seafloorCrater: boolean;
+  seafloorCraterDiameter: number; // m, 0 if none forms
+  rimWaveAmplitude: number; // m
+  collapseWaveAmplitude: number; // m
+  decayExponent: number; // collapse wave falls off as r^-q
+  waveHeights: WaveHeight[];
+}
+
+export interface TrajectoryPoint {
+  x: number; // km, perigee direction
+  y: number; // km
+  r: number; // km from Earth's centre
+  t: number; // s from perigee passage
+}
+
+export interface AtmosphericEntry {
+  strength: number; // Pa
+  breakupAltitude: number | null; // km, null if the body never fragments
+  breakupPressure: number | null; // ram pressure at breakup, Pa
+  isAirburst: boolean;
+  airburstAltitude: number | null; // km
+  airburstYieldMegatons: number; // deposited in the air by the burst, short of the entry energy
+  impactVelocity: number; // residual velocity at the surface, km/s
+  impactMass: number; // surviving mass at the surface, kg
+  impactEnergyMegatons: number;
+  duration: number; // s from the atmospheric interface to the airburst or the ground
+}
+
+// Milestones on the way in, from Hill-sphere entry to the end of the flight
+export type TimelinePhase = 'hill' | 'lunar' | 'epoch' | 'atmosphere' | 'airburst' | 'impact' | 'perigee';
+
+export interface TimelineEvent {
+  phase: TimelinePhase;
+  time: number; // s from the epoch, negative if it came before
+  range: number; // km from Earth's centre
+  speed: number | null; // km/s; null at an airburst, where the cloud has no single speed
+  timestamp: string | null; // ISO 8601 UTC, when the input has an epoch
+}
+
+export interface EncounterTimeline {
+  epoch: string | null; // normalised ISO 8601 UTC
+  hillRadius: number; // km
+  warningTime: number | null; // the hazard's time to encounter; null when the flyby never passes the starting distance
+  events: TimelineEvent[]; // in time order; empty when there is no time to encounter
+}
+
+export interface EffectsAtDistance {
+  distanceKm: number;
+  thermalExposure: number; // J/m^2
+  overpressurePsi: number;
+  seismicMagnitude: number | null; // Richter-equivalent felt at this distance
+  ejectaThicknessMeters: number;
+}
+
+export interface OverpressureRing {
+  psi: number;
+  radiusKm: number;
+}
+
+export interface ThermalRing {
+  label: string;
+  exposure: number; // threshold, J/m^2
+  radiusKm: number;
+}
+
+export interface ImpactEffects {
+  energyMegatons: number; // energy released at the burst point or surface
+  burstAltitudeKm: number; // 0 for surface impacts
+  fireballRadiusKm: number;
+  seismicMagnitude: number | null; // null for airbursts
+  overpressureRings: OverpressureRing[]; // 20, 5 and 1 psi
+  thermalRings: ThermalRing[];
+  atDistance: EffectsAtDistance[];
+}
+
+export interface ExposureZone {
+  label: string;
+  radiusKm: number;
+  fatalityRate: number; // 0-1
+  injuryRate: number; // 0-1, of those not killed
+  population: number; // people for whom this is the worst zone they are in
+  fatalities: number;
+  injuries: number;
+}
+
+export interface PopulationExposure {
+  zones: ExposureZone[]; // most severe first
+  population: number; // everyone inside the outermost zone
+  fatalities: number;
+  injuries: number;
+}
+
+export interface HistogramBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+}
+
+export interface EnsembleMetric {
+  p5: number;
+  p50: number;
+  p95: number;
+  logScale: boolean; // histogram bins are log10-spaced
+  histogram: HistogramBin[];
+}
+
+export interface EnsembleSummary {
+  samples: number;
+  seed: number;
+  hitFraction: number; // 0-1, share of samples whose nominal trajectory hits
+  energy: EnsembleMetric; // MT
+  crater: EnsembleMetric; // m
+  impactProbability: EnsembleMetric; // %
+}
+
+export type NeoSource = 'cneos' | 'sentry' | 'sbdb' | 'mpc';
+
+export interface NeoRecord {
+  id: string;
+  name: string;
+  source: NeoSource;
+  fields: Partial<AsteroidInput>; // only what the catalog determines; the rest stays as entered
+  absoluteMagnitude: number | null; // H
+  albedo: number; // measured, or the assumed value used for the H-derived diameter
+  diameterFromH: boolean;
+  spectralClass: string | null;
+  vInfinity: number | null; // km/s
+  closeApproachDate: string | null;
+}
+
+export type SweepMetric = 'energy' | 'crater' | 'probability';
+
+export interface SweepAxis {
+  field: NumericInputField;
+  min: number;
+  max: number;
+  steps: number;
+  log: boolean; // geometric rather than linear spacing
+}
+
+export interface SweepConfig {
+  x: SweepAxis;
+  y: SweepAxis | null; // null for a 1D sweep
+}
+
+export interface SweepPoint {
+  xIndex: number;
+  yIndex: number; // 0 for a 1D sweep
+  input: AsteroidInput;
+}
+
+export interface SweepCell extends SweepPoint {
+  isHit: boolean;
+  energy: number; // MT
+  crater: number; // m
+  probability: number; // %
+}
+
+export interface SweepResult {
+  config: SweepConfig;
+  xValues: number[];
+  yValues: number[]; // empty for a 1D sweep
+  cells: SweepCell[]; // row-major: y outer, x inner
+}
+
+export type DeflectionMethod = 'kinetic' | 'tractor' | 'nuclear';
+
+export interface DeflectionOptions {
+  method: DeflectionMethod;
+  leadTime: number; // days before the encounter that the push is delivered (or the tow starts)
+  marginKm: number; // b-plane clearance wanted beyond the capture radius
+  spacecraftMass: number; // kg, impactor or tractor
+  impactSpeed: number; // km/s relative to the target, kinetic impactor
+  beta: number; // momentum enhancement from ejecta, kinetic impactor
+  hoverDistance: number; // tractor distance from the centre, in body radii
+  towDuration: number; // days the tractor holds station
+  yieldMegatons: number; // nuclear standoff device
+  standoff: number; // burst height above the surface, in body radii
+}
+
+export interface DeflectionPlan {
+  options: DeflectionOptions;
+  asteroidMass: number; // kg
+  requiredShiftKm: number; // b-plane shift that clears the capture radius plus the margin
+  requiredDeltaV: number; // m/s
+  achievedDeltaV: number; // m/s
+  achievedShiftKm: number;
+  requiredResource: number; // spacecraft kg, or Mt for a nuclear device, to just reach the required shift
+  deflectedInput: AsteroidInput;
+  deflected: AnalysisResult;
+  succeeds: boolean;
+  steps: DimensionalStep[];
+}
+
+// Exponents of the base dimensions; scaling laws need fractional ones
+export interface Dimension {
+  L: number; // length
+  M: number; // mass
+  T: number; // time
+}
+
+// A value in SI base units, tagged with its dimension and the unit algebra that produced it
+export interface Quantity {
+  value: number;
+  dimension: Dimension;
+  expression: string; // e.g. "kg · (m/s)²"; empty for pure numbers
+}
+
+// Unit algebra of a step, checked against the unit its result is stated in
+export interface UnitDerivation {
+  expression: string; // units of the inputs as combined, e.g. "kg · (m/s)²"
+  dimension: string; // what they reduce to, e.g. "M·L²·T⁻²"
+  unit: string; // e.g. "J"; empty for dimensionless results
+  value: number; // in `unit`
 }
 
 export interface DimensionalStep {
@@ -18,6 +342,18 @@ export interface DimensionalStep {
   equation: string;
   explanation: string;
   result: string;
+  value?: number; // the result as a number, for comparisons; absent for verdicts like "Intact"
+  unit?: string; // of `value`; empty for counts and scale values
+  derivation?: UnitDerivation; // absent when the value comes from a simulation, integral or lookup
+}
+
+export type UnitSystem = 'metric' | 'imperial' | 'lunar' | 'au';
+
+export type EnergyUnit = 'J' | 'kt' | 'Mt' | 'Hiroshima';
+
+export interface UnitPreferences {
+  system: UnitSystem; // lengths, speeds, masses, densities, pressures
+  energy: EnergyUnit;
 }
 
 export interface CompositionElement {
@@ -26,20 +362,231 @@ export interface CompositionElement {
   fill: string;
 }
 
+export interface Material {
+  id: string; // built-ins use their AsteroidType value
+  name: string;
+  description: string;
+  grainDensity: number; // kg/m^3 of the solid rock, metal or ice
+  porosity: number; // void fraction, 0 to <1; bulk density = grain density * (1 - porosity)
+  strength: number; // Pa; fragmentation starts once ram pressure exceeds it
+  composition: CompositionElement[]; // percentages sum to 100
+  builtIn: boolean;
+}
+
+/**
+ * How the engine resolves `AsteroidInput.type` to a material. Defaults to the
+ * session registry; scripts can supply their own to stay independent of it.
+ */
+export type MaterialLookup = (id: string) => Material | undefined;
+
+/**
+ * Everything the engine derives from one input, before any text is written
+ * about it. The mass-energy chain is kept as unit-tagged quantities so the
+ * presentation layer can rebuild its derivations.
+ */
+export interface ImpactPhysics {
+  input: AsteroidInput;
+  material: Material;
+  body: BodyGeometry;
+  bulkDensity: Quantity; // kg/m^3
+  radius: Quantity; // m, of the sphere with the input diameter
+  volume: Quantity; // m^3, of the actual shape
+  mass: Quantity;
+  velocity: Quantity; // km/s at atmospheric entry
+  energy: Quantity; // kinetic energy at entry
+  energyMegatons: number;
+  encounter: EncounterGeometry;
+  hazard: HazardAssessment;
+  entry: AtmosphericEntry;
+  site: ImpactSite;
+  impactorDiameter: number; // m, volume-equivalent diameter of the mass that reaches the surface
+  craterScaling: Quantity; // m, transient crater in the site's crust, whether or not one forms
+  craterDiameter: number; // m, as formed: 0 for airbursts, the seafloor crater for ocean strikes
+  ocean: OceanImpact | null; // null for land impacts and airbursts
+  effects: ImpactEffects;
+  exposure: PopulationExposure;
+  timeline: EncounterTimeline;
+}
+
 export interface AnalysisResult {
   isHit: boolean;
   impactProbability: number; // 0-100
   kineticEnergyMegatons: number;
   craterSizeMeters: number;
+  encounter: EncounterGeometry;
+  hazard: HazardAssessment;
+  site: ImpactSite;
+  entry: AtmosphericEntry;
+  effects: ImpactEffects;
+  ocean: OceanImpact | null; // null for land impacts and airbursts
+  exposure: PopulationExposure; // at the chosen site, whether or not the trajectory hits
+  timeline: EncounterTimeline;
   analysisSummary: string;
   dimensionalProcess: DimensionalStep[];
   composition: CompositionElement[];
+  body: BodyGeometry;
+  ensemble?: EnsembleSummary;
   rawMarkdown: string;
   timestamp: number;
 }
 
 export interface HistoryItem {
   id: string;
+  schemaVersion: number;
+  label: string; // user-editable, defaults to the asteroid name
+  pinned: boolean;
+  createdAt: number;
   input: AsteroidInput;
+  uncertainty?: UncertaintyOptions;
   result: AnalysisResult;
-}
\ No newline at end of file
+}
+
+export type ReportSource = Pick<HistoryItem, 'label' | 'input' | 'uncertainty' | 'result'>;
+
+/**
+ * Machine-readable export. Fields are only ever added within a version;
+ * renames or removals bump REPORT_FORMAT_VERSION.
+ */
+export interface AnalysisReport {
+  format: 'cosmic-impact-report';
+  version: number;
+  generatedAt: string; // ISO 8601
+  label: string;
+  input: AsteroidInput;
+  uncertainty: UncertaintyOptions | null;
+  outcome: {
+    isHit: boolean;
+    impactProbability: number; // %
+    kineticEnergyMegatons: number;
+    craterDiameterMeters: number;
+    terrain: Terrain;
+    isAirburst: boolean;
+    airburstAltitudeKm: number | null;
+    impactVelocityKms: number;
+    seismicMagnitude: number | null;
+    torinoScale: number;
+    palermoScale: number | null;
+  };
+  encounter: EncounterGeometry;
+  hazard: HazardAssessment;
+  entry: AtmosphericEntry;
+  effects: ImpactEffects;
+  ocean: OceanImpact | null;
+  exposure: PopulationExposure;
+  timeline: EncounterTimeline;
+  ensemble: EnsembleSummary | null;
+  steps: DimensionalStep[];
+  composition: CompositionElement[];
+  summary: string;
+}
+
+export interface StepDiffCell {
+  result: string | null; // null when the scenario has no such step
+  value: number | null;
+  unit: string | null;
+  percentDiff: number | null; // vs the baseline (first) scenario
+}
+
+export interface StepDiffRow {
+  step: string;
+  cells: StepDiffCell[];
+}
+
+export type HistorySort = 'newest' | 'oldest' | 'energy' | 'probability' | 'name';
+
+export interface HistoryQuery {
+  text: string;
+  outcome: 'all' | 'hit' | 'miss';
+  type: string; // material id, or 'all'
+  minEnergy: number | null; // MT
+  maxEnergy: number | null; // MT
+  sort: HistorySort;
+}
+export type BatchFormat = 'jsonl' | 'csv';
+
+// One scenario read from a batch file, with the errors that stop it being run
+export interface BatchRow {
+  row: number; // 1-based position in the file, not counting a CSV header
+  input: AsteroidInput | null; // null when the record could not be read at all
+  errors: string[];
+}
+
+export interface BatchOptions {
+  fields: string[]; // dotted paths into the result, e.g. 'hazard.torino' or 'input.name'
+  steps: boolean; // include the dimensional steps
+}
+
+// Work the engine worker accepts; see services/compute
+export type ComputeTask =
+  | { kind: 'analyze'; input: AsteroidInput; uncertainty?: UncertaintyOptions }
+  | { kind: 'sweep'; points: SweepPoint[] };
+
+export interface ComputeRequest {
+  id: number;
+  task: ComputeTask;
+  materials: Material[]; // custom materials the task may refer to
+}
+
+export type ComputeResponse =
+  | { id: number; type: 'progress'; done: number; total: number }
+  | { id: number; type: 'done'; result: AnalysisResult | SweepCell[] }
+  | { id: number; type: 'error'; message: string };
+
+export interface ComputeOptions {
+  onProgress?: (fraction: number) => void; // 0 to 1
+  signal?: AbortSignal; // aborting stops the work and rejects with an AbortError
+}
+
+export type ReferenceMetric = 'energy' | 'craterDiameter' | 'airburstAltitude' | 'dartDeltaV' | 'dartPeriodChange';
+
+export interface ReferenceCheck {
+  metric: ReferenceMetric;
+  observed: number; // in the metric's unit, see REFERENCE_METRICS
+  min: number; // accepted model range: the observational spread plus the model's tolerance
+  max: number;
+  source: string;
+}
+
+export interface ReferenceEvent {
+  id: string;
+  name: string;
+  date: string;
+  description: string;
+  input: AsteroidInput | null; // null when the case checks the deflection model instead
+  deflection?: ReferenceDeflection; // run through the deflection planner
+  crater?: { label: string; diameter: number }; // m, final rim-to-rim, for size comparisons
+  checks: ReferenceCheck[];
+}
+
+/**
+ * A measured deflection: the target as an engine input, the push that was
+ * delivered, and the binary orbit whose period change recorded it.
+ */
+export interface ReferenceDeflection {
+  target: AsteroidInput;
+  material: Material; // the target's own, resolved ahead of the session registry
+  options: DeflectionOptions;
+  orbitRadius: number; // km, about the primary
+  orbitPeriod: number; // h, before the push
+}
+
+export interface ReferenceDeflectionResult {
+  plan: DeflectionPlan;
+  deltaV: number; // mm/s, along track
+  periodChange: number; // min of shortening
+}
+
+export type ReferenceStatus = 'pass' | 'fail';
+
+export interface ReferenceCheckResult {
+  check: ReferenceCheck;
+  model: number | null; // null when the model has no such outcome, e.g. no airburst
+  status: ReferenceStatus;
+}
+
+export interface ReferenceEventResult {
+  event: ReferenceEvent;
+  result: AnalysisResult | null;
+  deflection: ReferenceDeflectionResult | null;
+  checks: ReferenceCheckResult[];
+}